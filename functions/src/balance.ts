@@ -0,0 +1,96 @@
+// What the public balance page may show: first name, amounts and dates. No phone, staff names or
+// order contents. The allocation mirrors allocateRepayments in src/App.tsx so both show the same numbers.
+
+type PaymentMethod = 'cash' | 'evc' | 'zaad' | 'edahab' | 'card'
+
+type LoanEntry = { id: string; orderId: string; amount: number; date: string; settledAt?: string }
+type LoanRepayment = { amount: number; date: string; method: PaymentMethod }
+type LoanWriteOff = { amount: number; date: string }
+
+type LoanCustomer = {
+  name: string
+  phone?: string
+  mergedInto?: string
+  loans?: Record<string, LoanEntry>
+  repayments?: Record<string, LoanRepayment>
+  writeOffs?: Record<string, LoanWriteOff>
+}
+
+type BalanceSnapshot = {
+  name: string
+  loaned: number
+  repaid: number
+  outstanding: number
+  waived?: number
+  updatedAt: string
+  loans: { date: string; order: string; amount: number; outstanding: number; settled: boolean }[]
+  repayments: { date: string; amount: number; method: string }[]
+}
+
+const PAYMENT_METHOD_LABEL: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  evc: 'EVC Plus',
+  zaad: 'Zaad',
+  edahab: 'eDahab',
+  card: 'Card',
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+// Same rule as normalizePhone in the app: +25290…, 25290… and 090… all give 90….
+const normalizePhone = (phone: string) => {
+  const digits = phone.replace(/\D/g, '')
+  const national = digits.startsWith('252') ? digits.slice(3) : digits
+  return national.startsWith('0') ? national.slice(1) : national
+}
+
+// A number can belong to several customer records until an admin merges them, so they are shown as one.
+const customersForPhone = (customers: Record<string, LoanCustomer>, phone: string) => {
+  const normalized = normalizePhone(phone)
+  return Object.values(customers).filter((c) => !c.mergedInto && !!c.phone && normalizePhone(c.phone) === normalized)
+}
+
+const balanceSnapshot = (customers: LoanCustomer[]): BalanceSnapshot => {
+  const loans = customers
+    .flatMap((c) => Object.values(c.loans ?? {}))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime() || a.id.localeCompare(b.id))
+  const repayments = customers.flatMap((c) => Object.values(c.repayments ?? {})).sort((a, b) => a.date.localeCompare(b.date))
+  const writeOffs = customers.flatMap((c) => Object.values(c.writeOffs ?? {}))
+
+  const repaid = roundMoney(repayments.reduce((sum, r) => sum + r.amount, 0))
+  const writtenOff = roundMoney(writeOffs.reduce((sum, w) => sum + w.amount, 0))
+  let pool = roundMoney(repaid + writtenOff)
+  const allocations = loans.map((entry) => {
+    if (entry.settledAt) return { entry, outstanding: 0 }
+    const paid = roundMoney(Math.min(entry.amount, pool))
+    pool = roundMoney(pool - paid)
+    return { entry, outstanding: roundMoney(entry.amount - paid) }
+  })
+  const loaned = roundMoney(loans.reduce((sum, e) => sum + e.amount, 0))
+  const settled = roundMoney(loans.reduce((sum, e) => sum + (e.settledAt ? e.amount : 0), 0))
+
+  const dates = [
+    ...loans.map((e) => e.settledAt ?? e.date),
+    ...repayments.map((r) => r.date),
+    ...writeOffs.map((w) => w.date),
+  ]
+  return {
+    name: customers[0].name.trim().split(/\s+/)[0] ?? '',
+    loaned,
+    repaid,
+    outstanding: roundMoney(Math.max(0, loaned - settled - repaid - writtenOff)),
+    ...(writtenOff > 0 && { waived: writtenOff }),
+    updatedAt: dates.sort().pop() ?? '',
+    loans: allocations.map(({ entry, outstanding }) => ({
+      date: entry.date,
+      order: entry.orderId,
+      amount: entry.amount,
+      outstanding,
+      settled: !!entry.settledAt,
+    })),
+    repayments: repayments.map((r) => ({ date: r.date, amount: r.amount, method: PAYMENT_METHOD_LABEL[r.method] ?? r.method })),
+  }
+}
+
+export { balanceSnapshot, customersForPhone, normalizePhone }
+export type { BalanceSnapshot, LoanCustomer }
@@ -0,0 +1,113 @@
+// Server side of public/balance.html. The page never touches the database: requestBalanceCode texts a
+// one-time code to the number typed, and verifyBalanceCode checks it and returns that number's balance.
+// Pending codes sit under balanceCodes/ (outside rms, which the app itself reads and writes), keyed and
+// hashed with BALANCE_CODE_SECRET so nothing stored there names a customer or can be checked offline.
+import { createHmac, randomInt, timingSafeEqual } from 'node:crypto'
+import { initializeApp } from 'firebase-admin/app'
+import { getDatabase } from 'firebase-admin/database'
+import { logger } from 'firebase-functions'
+import { defineSecret } from 'firebase-functions/params'
+import { HttpsError, onCall } from 'firebase-functions/v2/https'
+import { balanceSnapshot, customersForPhone, normalizePhone, type LoanCustomer } from './balance.js'
+import { sendSms, smsGatewayToken } from './sms.js'
+
+type PendingCode = { hash: string; expires: number; sentAt: number; attempts: number }
+type CheckOutcome = 'missing' | 'expired' | 'locked' | 'wrong' | 'ok'
+
+const CODE_TTL_MS = 5 * 60 * 1000
+const RESEND_AFTER_MS = 60 * 1000
+const MAX_ATTEMPTS = 5
+
+// Only the emulator hands the code back, so the page can be tried locally without texting anyone.
+const IN_EMULATOR = process.env.FUNCTIONS_EMULATOR === 'true'
+
+const CHECK_ERRORS: Record<Exclude<CheckOutcome, 'ok'>, string> = {
+  missing: 'Request a new code first.',
+  expired: 'That code has expired. Request a new one.',
+  locked: 'Too many attempts. Request a new code.',
+  wrong: 'That code is not right.',
+}
+
+initializeApp()
+
+const codeSecret = defineSecret('BALANCE_CODE_SECRET')
+
+const hmac = (value: string) => createHmac('sha256', codeSecret.value()).update(value).digest('hex')
+
+const readPhone = (data: unknown) => {
+  const { phone } = (data ?? {}) as { phone?: unknown }
+  const normalized = typeof phone === 'string' ? normalizePhone(phone) : ''
+  if (normalized.length < 7 || normalized.length > 12) {
+    throw new HttpsError('invalid-argument', 'Enter your full phone number.')
+  }
+  return normalized
+}
+
+const loadCustomers = async (phone: string) => {
+  const snap = await getDatabase().ref('rms/loanCustomers').get()
+  return customersForPhone((snap.val() ?? {}) as Record<string, LoanCustomer>, phone)
+}
+
+const requestBalanceCode = onCall({ secrets: [codeSecret, smsGatewayToken] }, async (request) => {
+  const phone = readPhone(request.data)
+  const codeRef = getDatabase().ref(`balanceCodes/${hmac(phone)}`)
+  const code = String(randomInt(0, 1000000)).padStart(6, '0')
+  const now = Date.now()
+  // Claimed in a transaction so two quick taps can't both send a text.
+  const { committed } = await codeRef.transaction((current: PendingCode | null) => {
+    if (current && now - current.sentAt < RESEND_AFTER_MS) return undefined
+    return { hash: hmac(`${phone}:${code}`), expires: now + CODE_TTL_MS, sentAt: now, attempts: 0 }
+  })
+  if (!committed) {
+    throw new HttpsError('resource-exhausted', 'A code was just sent. Wait a minute before asking for another.')
+  }
+  // A number without a credit account gets the same answer and no text, so the page can't be used
+  // to find out who owes us.
+  const [customer] = await loadCustomers(phone)
+  if (customer && !IN_EMULATOR) {
+    try {
+      await sendSms(customer.phone ?? phone, `Your Puntros balance code is ${code}. It expires in 5 minutes.`)
+    } catch (err) {
+      logger.error('Balance code SMS failed', err)
+      await codeRef.remove()
+      throw new HttpsError('unavailable', 'We could not send the code. Try again later.')
+    }
+  }
+  return IN_EMULATOR ? { testCode: code } : {}
+})
+
+const verifyBalanceCode = onCall({ secrets: [codeSecret] }, async (request) => {
+  const phone = readPhone(request.data)
+  const { code } = (request.data ?? {}) as { code?: unknown }
+  const expected = Buffer.from(hmac(`${phone}:${String(code ?? '').trim()}`))
+  let outcome = 'missing' as CheckOutcome
+  // The first pass may see an empty local cache, so an absent code writes nothing rather than aborting
+  // and the transaction retries with the stored value.
+  await getDatabase()
+    .ref(`balanceCodes/${hmac(phone)}`)
+    .transaction((current: PendingCode | null) => {
+      if (!current) {
+        outcome = 'missing'
+        return null
+      }
+      if (Date.now() > current.expires) {
+        outcome = 'expired'
+        return null
+      }
+      if (current.attempts >= MAX_ATTEMPTS) {
+        outcome = 'locked'
+        return null
+      }
+      if (!timingSafeEqual(Buffer.from(current.hash), expected)) {
+        outcome = 'wrong'
+        return { ...current, attempts: current.attempts + 1 }
+      }
+      outcome = 'ok'
+      return null
+    })
+  if (outcome !== 'ok') throw new HttpsError('permission-denied', CHECK_ERRORS[outcome])
+  const customers = await loadCustomers(phone)
+  return customers.length > 0 ? balanceSnapshot(customers) : null
+})
+
+export { requestBalanceCode, verifyBalanceCode }
@@ -0,0 +1,19 @@
+// Sends one text through the gateway configured for the project. The gateway takes a JSON
+// { to, body } POST with a bearer token; swap this file out for a provider SDK if that changes.
+import { defineSecret, defineString } from 'firebase-functions/params'
+
+const smsGatewayUrl = defineString('SMS_GATEWAY_URL', { default: '' })
+const smsGatewayToken = defineSecret('SMS_GATEWAY_TOKEN')
+
+const sendSms = async (to: string, body: string) => {
+  const url = smsGatewayUrl.value()
+  if (!url) throw new Error('SMS_GATEWAY_URL is not set.')
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${smsGatewayToken.value()}` },
+    body: JSON.stringify({ to, body }),
+  })
+  if (!res.ok) throw new Error(`SMS gateway answered ${res.status}`)
+}
+
+export { sendSms, smsGatewayToken }
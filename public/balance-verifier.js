@@ -0,0 +1,37 @@
+// One-time code verifier for balance.html, backed by the callable functions in functions/src/index.ts.
+//
+//   sendCode(phone)             -> Promise<{ testCode? }>
+//   fetchBalance(phone, code)   -> Promise<snapshot | null>   (rejects with an Error the page can show)
+//
+// The code is checked and the balance read on the server; this page never reads the database.
+// Served from localhost it talks to the functions emulator, which is the only place a code is
+// returned to the page instead of texted.
+
+const PROJECT_ID = 'puntrms'
+const REGION = 'us-central1'
+const LOCAL = ['localhost', '127.0.0.1'].includes(location.hostname)
+const FUNCTIONS_URL = LOCAL
+  ? `http://127.0.0.1:5001/${PROJECT_ID}/${REGION}`
+  : `https://${REGION}-${PROJECT_ID}.cloudfunctions.net`
+
+// Callable functions take { data } and answer { result } or { error: { message } }.
+const call = (name, data) =>
+  fetch(`${FUNCTIONS_URL}/${name}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ data }),
+  })
+    .catch(() => {
+      throw new Error('Could not reach the server. Check your connection and try again.')
+    })
+    .then(async (res) => {
+      const body = await res.json().catch(() => ({}))
+      if (!res.ok || body.error) throw new Error(body.error?.message ?? 'Something went wrong. Try again later.')
+      return body.result
+    })
+
+export const verifier = {
+  label: LOCAL ? 'Test mode: codes come from the functions emulator and are shown on screen.' : '',
+  sendCode: (phone) => call('requestBalanceCode', { phone }),
+  fetchBalance: (phone, code) => call('verifyBalanceCode', { phone, code }),
+}
@@ -1,7 +1,15 @@
 import { useEffect, useMemo, useRef, useState } from 'react'
 import './App.css'
 import { app } from './firebase'
-import { getDatabase, onValue, push, ref, remove, set, update } from 'firebase/database'
+import { escapeHtml, receiptEscPos, receiptHtml, receiptText, sendToSerialPrinter } from './receipt'
+import type { PaperWidth, ReceiptData } from './receipt'
+import { listQueued, putQueued, removeQueued } from './offlineQueue'
+import { textPdf } from './pdf'
+import { DEFAULT_REMINDER_TEMPLATES, MESSAGE_PROVIDERS, renderTemplate } from './messaging'
+import type { MessageChannel } from './messaging'
+import type { Queued } from './offlineQueue'
+import { deleteItemImage, uploadItemImage } from './itemImages'
+import { get, getDatabase, onValue, push, ref, remove, runTransaction, set, update } from 'firebase/database'
 import loadingGif from './assets/laoding.gif'
 import { Doughnut } from 'react-chartjs-2'
 import {
@@ -23,11 +31,17 @@ import {
   FiUserCheck,
   FiClipboard,
   FiGrid,
+  FiBell,
+  FiCoffee,
+  FiSettings,
+  FiCloud,
+  FiCloudOff,
+  FiTruck,
 } from 'react-icons/fi'
 
 ChartJS.register(ArcElement, Tooltip, Legend)
 
-type Role = 'admin' | 'waiter' | 'collector'
+type Role = 'admin' | 'waiter' | 'collector' | 'kitchen'
 
 type User = {
   id: string
@@ -38,26 +52,191 @@ type User = {
   pin: string
 }
 
+type ModifierOption = {
+  id: string
+  name: string
+  price: number
+}
+
+type ModifierGroup = {
+  id: string
+  name: string
+  required: boolean
+  multi: boolean
+  options: ModifierOption[]
+}
+
+type CostSource = 'manual' | 'purchase' | 'recipe'
+
+type Category = {
+  id: string
+  name: string
+  sort: number
+}
+
 type Item = {
   id: string
   name: string
   price: number
+  // Manual is typed in; purchase follows the last received unit cost; recipe sums the ingredients' costs.
+  cost?: number
+  costSource?: CostSource
+  categoryId?: string
+  imageUrl?: string
+  imagePath?: string
+  // Local date (YYYY-MM-DD) the item was switched off; it is back on the menu the next day.
+  unavailableOn?: string
   stock?: number
+  reorderLevel?: number
+  modifierGroups?: ModifierGroup[]
+  recipe?: Record<string, number>
+}
+
+type IngredientUnit = 'kg' | 'litre' | 'piece'
+
+type Ingredient = {
+  id: string
+  name: string
+  unit: IngredientUnit
+  stock: number
+  // Per unit, from the last goods received.
+  cost?: number
+}
+
+type StockMoveKind = 'sale' | 'adjust' | 'restock' | 'void' | 'waste'
+
+// One entry in rms/stockMoves/<itemId>. Deltas summed per item give the stock it should have.
+type StockMove = {
+  id: string
+  kind: StockMoveKind
+  delta: number
+  balance: number
+  userId: string
+  time: string
+  orderRef?: string
+  note?: string
+}
+
+type RecipeDraft = { ingredientId: string; qty: string }
+
+type StockDrift = { item: Item; ledger: number; moves: number; drift: number }
+
+type OrderModifier = {
+  groupId: string
+  optionId: string
+  name: string
+  price: number
+}
+
+type PrepState = 'queued' | 'preparing' | 'ready'
+
+type Discount = {
+  type: 'percent' | 'fixed'
+  value: number
+  reason: string
 }
 
 type OrderItem = {
+  key?: string
   itemId: string
   qty: number
+  // Captured when the line is written so later menu changes leave history alone.
+  unitPrice?: number
+  unitCost?: number
+  name?: string
+  note?: string
+  modifiers?: OrderModifier[]
+  discount?: Discount
+  prep?: PrepState
+  prepAt?: Partial<Record<PrepState, string>>
+}
+
+type DraftLine = OrderItem & { key: string }
+type ModifierGroupDraft = { id: string; name: string; required: boolean; multi: boolean; optionsText: string }
+
+type PaymentMethod = 'cash' | 'evc' | 'zaad' | 'edahab' | 'card'
+
+type Payment = {
+  id: string
+  amount: number
+  method: PaymentMethod
+  collectorId: string
+  time: string
+  payer?: string
+  // Added by marking the order paid from the status picker, so moving it off paid takes it back out.
+  auto?: boolean
 }
 
 type Order = {
   id: string
   dbId?: string
   waiterId: string
+  tableId?: string
   time: string
   items: OrderItem[]
-  status?: 'paid' | 'loan' | 'pending'
+  status?: 'paid' | 'loan' | 'pending' | 'void'
+  ticket?: number
   collector?: string
+  payments?: Payment[]
+  discount?: Discount
+  guests?: number
+  taxRate?: number
+  serviceRate?: number
+  readyAt?: string
+  voidReason?: string
+  voidedBy?: string
+  voidedAt?: string
+  loanCustomerId?: string
+}
+
+type TableStatus = 'free' | 'occupied' | 'needs-bill'
+
+type Table = {
+  id: string
+  number: number
+  area: string
+  seats: number
+  status: TableStatus
+}
+
+type Settings = {
+  dailyTickets?: boolean
+  taxLabel?: string
+  taxRate?: number
+  serviceRate?: number
+  serviceMinGuests?: number
+  snapshotsBackfilledAt?: string
+  receiptName?: string
+  receiptAddress?: string
+  receiptPhone?: string
+  receiptFooter?: string
+  receiptWidth?: PaperWidth
+  reminderDays?: number
+  reminderEveryDays?: number
+  reminderChannel?: MessageChannel
+  reminderProvider?: string
+  reminderTemplateEn?: string
+  reminderTemplateSo?: string
+  reminderAuto?: boolean
+  remindersLastRun?: string
+}
+
+type OrderBreakdown = {
+  gross: number
+  discount: number
+  net: number
+  service: number
+  tax: number
+  total: number
+}
+
+type StaffNotification = {
+  id: string
+  orderId?: string
+  itemId?: string
+  message: string
+  time: string
+  read?: boolean
 }
 
 type LogEntry = {
@@ -72,17 +251,215 @@ type Banner = { type: 'success' | 'error'; message: string } | null
 type ReportStats = {
   ordersCount: number
   itemsCount: number
+  gross: number
+  discount: number
+  net: number
+  service: number
+  tax: number
   sales: number
+  cogs: number
+  profit: number
+  margin: number
   paid: number
   loan: number
   pending: number
 }
 type ReportRow = ReportStats & { label: string }
-type LoanEntry = { id: string; orderId: string; amount: number; date: string; servedBy: string }
-type LoanCustomer = { id: string; dbId?: string; name: string; phone: string; loans?: Record<string, LoanEntry> }
+type LoanEntry = {
+  id: string
+  orderId: string
+  amount: number
+  date: string
+  servedBy: string
+  settledAt?: string
+  settledBy?: string
+}
+type LoanRepayment = {
+  id: string
+  amount: number
+  date: string
+  method: PaymentMethod
+  receivedBy: string
+  note?: string
+}
+type LoanWriteOff = {
+  id: string
+  amount: number
+  date: string
+  kind: 'writeoff' | 'settlement'
+  reason: string
+  approvedBy: string
+}
+type LoanCustomer = {
+  id: string
+  dbId?: string
+  name: string
+  phone: string
+  loans?: Record<string, LoanEntry>
+  repayments?: Record<string, LoanRepayment>
+  writeOffs?: Record<string, LoanWriteOff>
+  creditLimit?: number
+  maxDays?: number
+  // Block new loans past the limits instead of only warning; admins can still override with a reason.
+  blockOverLimit?: boolean
+  language?: 'en' | 'so'
+  lastReminderAt?: string
+  archived?: boolean
+  mergedInto?: string
+}
+
+type SupplierPayment = {
+  id: string
+  amount: number
+  date: string
+  method: PaymentMethod
+  paidBy: string
+  note?: string
+}
+type Supplier = {
+  id: string
+  name: string
+  phone: string
+  payments?: Record<string, SupplierPayment>
+}
+type PurchaseLine = {
+  kind: 'item' | 'ingredient'
+  targetId: string
+  name: string
+  qty: number
+  // Expected when ordered; the received fields are what actually arrived and what it cost.
+  unitCost: number
+  receivedQty?: number
+  receivedCost?: number
+}
+type PurchaseStatus = 'open' | 'received' | 'cancelled'
+type PurchaseOrder = {
+  id: string
+  number: string
+  supplierId: string
+  status: PurchaseStatus
+  lines: PurchaseLine[]
+  createdAt: string
+  createdBy: string
+  note?: string
+  receivedAt?: string
+  receivedBy?: string
+}
+type PurchaseLineDraft = { target: string; qty: string; unitCost: string }
+
+type OutboxMessage = {
+  id: string
+  customerId: string
+  to: string
+  channel: MessageChannel
+  body: string
+  provider: string
+  status: 'queued' | 'sent' | 'failed'
+  createdAt: string
+  sentAt?: string
+  error?: string
+}
+type LoanAllocation = { entry: LoanEntry; paid: number; outstanding: number }
+type StatementRow = {
+  date: string
+  reference: string
+  detail: string
+  charge: number
+  payment: number
+  balance: number
+}
+
+type QueuedOrder = {
+  orderKey: string
+  waiterId: string
+  tableId: string
+  time: string
+  items: Record<string, Omit<OrderItem, 'itemId'> & { itemId?: string }>
+  qtyByItem: Record<string, number>
+  ingredientUse?: Record<string, number>
+  discount: Discount | null
+  guests: number | null
+  taxRate: number
+  serviceRate: number
+}
+
+// `conflict` is set when a replay found the action no longer applies; it then waits for the user.
+// Steps of submitOrder that have already landed, so a replay cut short by a reload can pick up after them.
+type OrderProgress = { stockReserved?: boolean; numbers?: { orderId: string; ticket: number | null } }
+
+type OfflineAction = Queued & { userId: string; label: string; conflict?: string } & (
+    | { kind: 'order_create'; order: QueuedOrder; progress?: OrderProgress }
+    | {
+        kind: 'order_status'
+        orderDbId: string
+        orderId: string
+        from: Order['status']
+        paidBefore: number
+        updates: Record<string, unknown>
+        related?: Record<string, unknown>
+      }
+    | {
+        kind: 'loan_entry'
+        customerDbId: string
+        customerId?: string
+        orderDbId: string
+        orderId: string
+        entry: LoanEntry
+      }
+  )
 
 const SESSION_KEY = 'rms_session'
-const ROLE_LABEL: Record<Role, string> = { admin: 'Admin', waiter: 'Waiter', collector: 'Collector' }
+const ROLE_LABEL: Record<Role, string> = { admin: 'Admin', waiter: 'Waiter', collector: 'Collector', kitchen: 'Kitchen' }
+const EMPTY_REPORT_STATS: ReportStats = {
+  ordersCount: 0,
+  itemsCount: 0,
+  gross: 0,
+  discount: 0,
+  net: 0,
+  service: 0,
+  tax: 0,
+  sales: 0,
+  cogs: 0,
+  profit: 0,
+  margin: 0,
+  paid: 0,
+  loan: 0,
+  pending: 0,
+}
+const REPORT_COLUMNS: { key: keyof ReportStats; label: string; money?: boolean; percent?: boolean }[] = [
+  { key: 'ordersCount', label: 'Orders' },
+  { key: 'itemsCount', label: 'Items' },
+  { key: 'gross', label: 'Gross', money: true },
+  { key: 'discount', label: 'Discount', money: true },
+  { key: 'net', label: 'Net', money: true },
+  { key: 'service', label: 'Service', money: true },
+  { key: 'tax', label: 'Tax', money: true },
+  { key: 'sales', label: 'Sales', money: true },
+  { key: 'cogs', label: 'Cost of goods', money: true },
+  { key: 'profit', label: 'Gross profit', money: true },
+  { key: 'margin', label: 'Margin', percent: true },
+  { key: 'paid', label: 'Paid' },
+  { key: 'loan', label: 'Loan' },
+  { key: 'pending', label: 'Pending' },
+]
+const reportCell = (stats: ReportStats, column: (typeof REPORT_COLUMNS)[number]) =>
+  column.money
+    ? (stats[column.key] ?? 0).toFixed(2)
+    : column.percent
+      ? `${(stats[column.key] ?? 0).toFixed(1)}%`
+      : stats[column.key] ?? 0
+// Quoted so commas and quotes in names stay inside their column.
+const csvCell = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`
+const PAYMENT_METHOD_LABEL: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  evc: 'EVC Plus',
+  zaad: 'Zaad',
+  edahab: 'eDahab',
+  card: 'Card',
+}
+const PREP_LABEL: Record<PrepState, string> = { queued: 'Queued', preparing: 'Preparing', ready: 'Ready' }
+const NEXT_PREP: Record<PrepState, PrepState> = { queued: 'preparing', preparing: 'ready', ready: 'ready' }
+const TABLE_STATUS_LABEL: Record<TableStatus, string> = { free: 'Free', occupied: 'Occupied', 'needs-bill': 'Needs bill' }
 const TRANSLATIONS: Record<'en' | 'so', Record<string, string>> = {
   en: {
     dash: 'Dash',
@@ -150,6 +527,232 @@ const TRANSLATIONS: Record<'en' | 'so', Record<string, string>> = {
     addItemTitle: 'Add Item',
     addUserTitle: 'Add User',
     newOrderTitle: 'New Order',
+    categories: 'Categories',
+    category: 'Category',
+    addCategory: 'Add category',
+    noCategories: 'No categories yet. Items show as one list.',
+    uncategorised: 'Uncategorised',
+    itemImage: 'Photo',
+    removeImage: 'Remove photo',
+    availableToday: 'Available today',
+    unavailableToday: 'Not available today',
+    costPrice: 'Cost price',
+    cost_manual: 'Manual',
+    cost_purchase: 'Last purchase',
+    cost_recipe: 'From recipe',
+    profitByItem: 'Profit by item',
+    costOfGoods: 'Cost of goods',
+    grossProfit: 'Gross profit',
+    margin: 'Margin',
+    purchases: 'Purchases',
+    suppliers: 'Suppliers',
+    addSupplier: 'Add supplier',
+    noSuppliers: 'No suppliers yet.',
+    selectSupplier: 'Select supplier',
+    paySupplier: 'Pay supplier',
+    owedToSuppliers: 'Owed to suppliers',
+    received: 'Received',
+    purchaseOrders: 'Purchase orders',
+    openPurchaseOrders: 'Open purchase orders',
+    newPurchaseOrder: 'New purchase order',
+    noPurchaseOrders: 'No purchase orders yet.',
+    selectProduct: 'Select item or ingredient',
+    addPurchaseLine: 'Add line',
+    unitCost: 'Unit cost',
+    expectedTotal: 'Expected total',
+    ordered: 'Ordered',
+    receiveGoods: 'Receive goods',
+    receiveHint: 'Enter what actually arrived and what each unit cost. Stock goes up by the received quantity.',
+    confirmReceipt: 'Confirm receipt',
+    purchase_open: 'Open',
+    purchase_received: 'Received',
+    purchase_cancelled: 'Cancelled',
+    ingredients: 'Ingredients',
+    addIngredient: 'Add ingredient',
+    selectIngredient: 'Select ingredient',
+    noIngredients: 'No ingredients yet.',
+    recipe: 'Recipe',
+    qtyPerItem: 'Qty per item',
+    unit_kg: 'kg',
+    unit_litre: 'litre',
+    unit_piece: 'piece',
+    ingredientUsage: 'Ingredient usage',
+    theoretical: 'Theoretical',
+    actual: 'Actual',
+    variance: 'Variance',
+    move_sale: 'Sale',
+    move_adjust: 'Count',
+    move_restock: 'Restock',
+    move_void: 'Void return',
+    move_waste: 'Waste',
+    countedStock: 'Counted stock',
+    quantity: 'Quantity',
+    stockHistory: 'Stock movements',
+    noStockMoves: 'No movements recorded yet.',
+    checkLedger: 'Check against ledger',
+    stockDrift: 'Stock vs ledger',
+    noStockDrift: 'Every count matches its ledger.',
+    ledger: 'Ledger',
+    keepCount: 'Keep count',
+    useLedger: 'Use ledger',
+    reorderLevel: 'Reorder level',
+    lowStock: 'Low stock',
+    outOfStock: 'Out of stock',
+    writeOff: 'Write off',
+    writeOffs: 'Write-offs',
+    writtenOff: 'Written off',
+    settleForLess: 'Settle for less',
+    settlementDiscount: 'Settlement discount',
+    amountToWriteOff: 'Amount to write off',
+    amountPaid: 'Amount paid now',
+    writeOffReason: 'Reason (required)',
+    badDebt: 'Bad debt written off',
+    paidAtCounter: 'Paid at counter',
+    loanConsistency: 'Loan consistency',
+    loanConsistencyOk: 'Every loan order has a customer and every loan entry matches its order.',
+    orphanedEntry: 'Orphaned loan entry',
+    unlinkedLoanOrder: 'Loan order with no customer',
+    assignCustomer: 'Assign customer',
+    removeEntry: 'Remove entry',
+    alreadyRegistered: 'Already registered',
+    archived: 'Archived',
+    showArchived: 'Show archived',
+    manageCustomer: 'Manage customer',
+    archive: 'Archive',
+    restore: 'Restore',
+    merge: 'Merge',
+    mergeCustomerInto: 'Merge into…',
+    mergedInto: 'Merged into',
+    mergeHint: 'Moves all loans and repayments to the chosen customer and archives this record.',
+    reminders: 'Loan reminders',
+    sendReminders: 'Send due reminders',
+    remindersHint: 'Customers with a balance older than {days} days get a reminder, at most once every {every} days.',
+    outboxEmpty: 'No reminders sent yet.',
+    outbox_queued: 'Queued',
+    outbox_sent: 'Sent',
+    outbox_failed: 'Failed',
+    reminderAuto: 'Send reminders automatically',
+    reminderAutoHint: 'Runs once a day when an admin opens the app.',
+    reminderDays: 'Remind after (days outstanding)',
+    reminderEveryDays: 'Days between reminders',
+    reminderChannel: 'Channel',
+    reminderProvider: 'Provider',
+    reminderTemplateSo: 'Somali message',
+    reminderTemplateEn: 'English message',
+    templateHint: 'Placeholders: {name}, {amount}, {days}, {restaurant}',
+    reminderLanguage: 'Reminder language',
+    lastReminder: 'Last reminder',
+    loanAging: 'Loan aging (days)',
+    sortByTotal: 'By total',
+    sortByOldest: 'By oldest',
+    customer: 'Customer',
+    oldestDays: 'Oldest (days)',
+    nothingOwed: 'Nobody owes anything.',
+    statement: 'Statement',
+    openingBalance: 'Opening balance',
+    closingBalance: 'Closing balance',
+    date: 'Date',
+    reference: 'Reference',
+    details: 'Details',
+    charge: 'Charge',
+    payment: 'Payment',
+    repayment: 'Repayment',
+    start: 'Start',
+    print: 'Print',
+    blocked: 'Blocked',
+    creditLimit: 'Credit limit',
+    maxDays: 'Max days outstanding',
+    noLimit: 'No limit',
+    blockOverLimit: 'Block new loans over the limits',
+    creditControl: 'Credit control',
+    creditBlocked: 'Blocked',
+    creditWarning: 'Warning',
+    overrideReason: 'Reason for override',
+    overrideAndConfirm: 'Override and confirm',
+    outstanding: 'Outstanding',
+    repaid: 'Repaid',
+    repayments: 'Repayments',
+    recordRepayment: 'Record repayment',
+    settled: 'Settled',
+    left: 'left',
+    of: 'of',
+    noteOptional: 'Note (optional)',
+    offline: 'Offline',
+    online: 'Online',
+    pendingSync: 'Waiting to sync',
+    nothingToSync: 'Everything is synced.',
+    syncNow: 'Sync now',
+    syncing: 'Syncing…',
+    retry: 'Retry',
+    discard: 'Discard',
+    printReceipt: 'Print receipt',
+    thermalReceipt: 'Thermal printer',
+    shareReceipt: 'Share receipt',
+    receipt: 'Receipt',
+    receiptName: 'Restaurant name',
+    receiptAddress: 'Address',
+    receiptPhone: 'Phone',
+    receiptFooter: 'Footer message',
+    receiptWidth: 'Paper width',
+    priceSnapshots: 'Price snapshots',
+    priceSnapshotsHint: 'Capture current menu prices on orders placed before prices were stored per line.',
+    priceSnapshotsDone: 'Back-filled on',
+    linesMissingPrice: 'lines without a stored price',
+    runBackfill: 'Back-fill',
+    subtotal: 'Subtotal',
+    discount: 'Discount',
+    discountReason: 'Reason',
+    serviceCharge: 'Service charge',
+    tax: 'Tax',
+    guests: 'Guests',
+    discountAndGuests: 'Discount & guests',
+    taxAndCharges: 'Tax & service charge',
+    taxLabel: 'Tax label',
+    taxRate: 'Tax rate (%)',
+    serviceRate: 'Service charge (%)',
+    serviceMinGuests: 'Apply service charge from guests',
+    payments: 'Payments',
+    balance: 'Balance',
+    takePayment: 'Take payment',
+    fullBalance: 'Full balance',
+    payerOptional: 'Payer (optional)',
+    recordPayment: 'Record payment',
+    balanceToLoan: 'Balance to loan',
+    paymentMethods: 'Payment methods',
+    method: 'Method',
+    settings: 'Settings',
+    settingsTitle: 'Settings',
+    dailyTickets: 'Daily ticket numbers',
+    dailyTicketsHint: 'Give each order a short ticket number that starts again at #1 every day.',
+    statusVoid: 'Voided',
+    editOrder: 'Edit order',
+    voidOrder: 'Void order',
+    voidReason: 'Reason for void',
+    addToOrder: 'Add item',
+    kitchen: 'Kitchen',
+    kitchenTitle: 'Kitchen Display',
+    noTickets: 'No tickets in the queue.',
+    notifications: 'Notifications',
+    noNotifications: 'No notifications.',
+    markAllRead: 'Mark all read',
+    modifiers: 'Modifiers',
+    addModifierGroup: '+ Modifier group',
+    customize: 'Customize',
+    note: 'Note',
+    addLine: 'Add to order',
+    customLines: 'Custom lines',
+    floorPlan: 'Floor plan',
+    orderList: 'List',
+    table: 'Table',
+    noTable: 'No table',
+    addTable: '+ Add table',
+    addTableTitle: 'Add Table',
+    area: 'Area',
+    seats: 'Seats',
+    noTables: 'No tables yet.',
+    openOrders: 'Open orders',
+    moveToTable: 'Move to table',
+    mergeInto: 'Merge into',
   },
   so: {
     dash: 'Degdeg',
@@ -217,20 +820,569 @@ const TRANSLATIONS: Record<'en' | 'so', Record<string, string>> = {
     addItemTitle: 'Ku dar Alaab',
     addUserTitle: 'Ku dar Isticmaal',
     newOrderTitle: 'Dalab Cusub',
+    categories: 'Qaybaha',
+    category: 'Qayb',
+    addCategory: 'Ku dar qayb',
+    noCategories: 'Wali qayb ma jirto. Alaabtu waa hal liis.',
+    uncategorised: 'Qayb la\'aan',
+    itemImage: 'Sawir',
+    removeImage: 'Ka saar sawirka',
+    availableToday: 'Diyaar maanta',
+    unavailableToday: 'Maanta ma jiro',
+    costPrice: 'Qiimaha kharashka',
+    cost_manual: 'Gacan',
+    cost_purchase: 'Iibsashadii u dambeysay',
+    cost_recipe: 'Habka karinta',
+    profitByItem: 'Faa\'iidada shay kasta',
+    costOfGoods: 'Kharashka alaabta',
+    grossProfit: 'Faa\'iidada guud',
+    margin: 'Saamiga faa\'iidada',
+    purchases: 'Iibsashada',
+    suppliers: 'Alaab-qeybiyeyaasha',
+    addSupplier: 'Ku dar alaab-qeybiye',
+    noSuppliers: 'Wali alaab-qeybiye ma jiro.',
+    selectSupplier: 'Dooro alaab-qeybiye',
+    paySupplier: 'Bixi alaab-qeybiyaha',
+    owedToSuppliers: 'Lagu leeyahay',
+    received: 'La helay',
+    purchaseOrders: 'Dalabyada iibsashada',
+    openPurchaseOrders: 'Dalabyada furan',
+    newPurchaseOrder: 'Dalab iibsasho cusub',
+    noPurchaseOrders: 'Wali dalab iibsasho ma jiro.',
+    selectProduct: 'Dooro shay ama agab',
+    addPurchaseLine: 'Ku dar sadar',
+    unitCost: 'Qiimaha halkii',
+    expectedTotal: 'Wadarta la filayo',
+    ordered: 'La dalbaday',
+    receiveGoods: 'Qaado alaabta',
+    receiveHint: 'Geli inta dhab ahaan timid iyo qiimaha halkii. Kaydka wuxuu ku kordhayaa inta la helay.',
+    confirmReceipt: 'Xaqiiji helitaanka',
+    purchase_open: 'Furan',
+    purchase_received: 'La helay',
+    purchase_cancelled: 'La joojiyay',
+    ingredients: 'Agabka',
+    addIngredient: 'Ku dar agab',
+    selectIngredient: 'Dooro agab',
+    noIngredients: 'Wali agab ma jiro.',
+    recipe: 'Habka karinta',
+    qtyPerItem: 'Tirada shay kasta',
+    unit_kg: 'kiilo',
+    unit_litre: 'litir',
+    unit_piece: 'xabbo',
+    ingredientUsage: 'Isticmaalka agabka',
+    theoretical: 'La filayay',
+    actual: 'Dhabta ah',
+    variance: 'Farqiga',
+    move_sale: 'Iib',
+    move_adjust: 'Tirin',
+    move_restock: 'Kayd cusub',
+    move_void: 'Celin burin',
+    move_waste: 'Qashin',
+    countedStock: 'Kaydka la tiriyay',
+    quantity: 'Tirada',
+    stockHistory: 'Dhaqdhaqaaqa kaydka',
+    noStockMoves: 'Wali dhaqdhaqaaq lama diiwaangelin.',
+    checkLedger: 'Barbar dhig diiwaanka',
+    stockDrift: 'Kaydka iyo diiwaanka',
+    noStockDrift: 'Tirin kastaa waxay la mid tahay diiwaankeeda.',
+    ledger: 'Diiwaan',
+    keepCount: 'Hay tirinta',
+    useLedger: 'Isticmaal diiwaanka',
+    reorderLevel: 'Heerka dib u dalbashada',
+    lowStock: 'Kayd yar',
+    outOfStock: 'Wuu dhammaaday',
+    writeOff: 'Cafi',
+    writeOffs: 'Cafiyadda',
+    writtenOff: 'La cafiyay',
+    settleForLess: 'Ku dhammee wax ka yar',
+    settlementDiscount: 'Dhimista heshiiska',
+    amountToWriteOff: 'Lacagta la cafinayo',
+    amountPaid: 'Lacagta hadda la bixiyay',
+    writeOffReason: 'Sababta (waa qasab)',
+    badDebt: 'Deyn xun oo la cafiyay',
+    paidAtCounter: 'Lagu bixiyay miiska',
+    loanConsistency: 'Hubinta deynta',
+    loanConsistencyOk: 'Dalab kasta oo dayn ah wuxuu leeyahay macmiil, deyn kastana waxay la jaan qaadaysaa dalabkeeda.',
+    orphanedEntry: 'Deyn aan dalab lahayn',
+    unlinkedLoanOrder: 'Dalab dayn ah oo aan macmiil lahayn',
+    assignCustomer: 'U qoondee macmiil',
+    removeEntry: 'Tirtir deynta',
+    alreadyRegistered: 'Horay ayaa loo diiwaangeliyay',
+    archived: 'Kaydsan',
+    showArchived: 'Muuji kuwa kaydsan',
+    manageCustomer: 'Maamul macmiilka',
+    archive: 'Kaydi',
+    restore: 'Soo celi',
+    merge: 'Isku dar',
+    mergeCustomerInto: 'Ku dar…',
+    mergedInto: 'Lagu daray',
+    mergeHint: 'Dhammaan deymaha iyo lacag-celinta waxay u wareegayaan macmiilka la doortay, diiwaankanna waa la kaydinayaa.',
+    reminders: 'Xasuusinta deymaha',
+    sendReminders: 'Dir xasuusinta',
+    remindersHint: 'Macaamiisha deyn ka weyn {days} maalmood waxaa loo diraa xasuusin, ugu badnaan {every} maalmood mar.',
+    outboxEmpty: 'Weli xasuusin lama dirin.',
+    outbox_queued: 'Safka',
+    outbox_sent: 'La diray',
+    outbox_failed: 'Ku guuldareystay',
+    reminderAuto: 'Si toos ah u dir xasuusinta',
+    reminderAutoHint: 'Maalintii hal mar ayay socotaa marka maamule furo barnaamijka.',
+    reminderDays: 'Xasuusi kadib (maalmaha deynta)',
+    reminderEveryDays: 'Maalmaha u dhexeeya xasuusinta',
+    reminderChannel: 'Kanaalka',
+    reminderProvider: 'Bixiyaha',
+    reminderTemplateSo: 'Fariinta Soomaaliga',
+    reminderTemplateEn: 'Fariinta Ingiriisiga',
+    templateHint: 'Meelaha la buuxinayo: {name}, {amount}, {days}, {restaurant}',
+    reminderLanguage: 'Luqadda xasuusinta',
+    lastReminder: 'Xasuusintii ugu dambeysay',
+    loanAging: 'Da’da deymaha (maalmo)',
+    sortByTotal: 'Wadarta',
+    sortByOldest: 'Kuwa ugu da’da weyn',
+    customer: 'Macmiil',
+    oldestDays: 'Ugu da’weyn (maalmo)',
+    nothingOwed: 'Qofna wax lagama rabo.',
+    statement: 'Bayaan',
+    openingBalance: 'Haraaga bilowga',
+    closingBalance: 'Haraaga dhammaadka',
+    date: 'Taariikh',
+    reference: 'Tixraac',
+    details: 'Faahfaahin',
+    charge: 'Deyn',
+    payment: 'Lacag bixin',
+    repayment: 'Lacag celin',
+    start: 'Bilow',
+    print: 'Daabac',
+    blocked: 'La xannibay',
+    creditLimit: 'Xadka deynta',
+    maxDays: 'Maalmaha ugu badan',
+    noLimit: 'Xad la’aan',
+    blockOverLimit: 'Xanib deymaha cusub ee xadka dhaafa',
+    creditControl: 'Maamulka deynta',
+    creditBlocked: 'La xannibay',
+    creditWarning: 'Digniin',
+    overrideReason: 'Sababta ka-gudubka',
+    overrideAndConfirm: 'Ka gudub oo xaqiiji',
+    outstanding: 'Haraaga',
+    repaid: 'La bixiyay',
+    repayments: 'Lacag celin',
+    recordRepayment: 'Diiwaan geli lacag celin',
+    settled: 'La dhammeeyay',
+    left: 'ka haray',
+    of: 'ka mid ah',
+    noteOptional: 'Qoraal (ikhtiyaari)',
+    offline: 'Khadka ka baxsan',
+    online: 'Khadka ku jira',
+    pendingSync: 'Sugaya isku-xidhka',
+    nothingToSync: 'Wax walba waa la isku xidhay.',
+    syncNow: 'Hadda isku xidh',
+    syncing: 'Waa la isku xidhayaa…',
+    retry: 'Isku day mar kale',
+    discard: 'Tuur',
+    printReceipt: 'Daabac rasiidka',
+    thermalReceipt: 'Daabacaha kulaylka',
+    shareReceipt: 'La wadaag rasiidka',
+    receipt: 'Rasiid',
+    receiptName: 'Magaca makhaayadda',
+    receiptAddress: 'Cinwaanka',
+    receiptPhone: 'Telefoonka',
+    receiptFooter: 'Fariinta hoose',
+    receiptWidth: 'Ballaca waraaqda',
+    priceSnapshots: 'Qiimaha la kaydiyay',
+    priceSnapshotsHint: 'Ku kaydi qiimaha hadda dalabyadii hore ee aan qiimahoodu la kaydin.',
+    priceSnapshotsDone: 'La buuxiyay',
+    linesMissingPrice: 'sadar oo aan qiime lahayn',
+    runBackfill: 'Buuxi',
+    subtotal: 'Wadar hoose',
+    discount: 'Qiimo dhimis',
+    discountReason: 'Sabab',
+    serviceCharge: 'Khidmad adeeg',
+    tax: 'Canshuur',
+    guests: 'Martida',
+    discountAndGuests: 'Qiimo dhimis & marti',
+    taxAndCharges: 'Canshuur & khidmad adeeg',
+    taxLabel: 'Magaca canshuurta',
+    taxRate: 'Heerka canshuurta (%)',
+    serviceRate: 'Khidmad adeeg (%)',
+    serviceMinGuests: 'Khidmadda ka bilow martida',
+    payments: 'Lacag bixinno',
+    balance: 'Haraaga',
+    takePayment: 'Qaado lacag',
+    fullBalance: 'Haraaga oo dhan',
+    payerOptional: 'Bixiyaha (ikhtiyaari)',
+    recordPayment: 'Diiwaangeli lacagta',
+    balanceToLoan: 'Haraaga u wareeji deyn',
+    paymentMethods: 'Hababka lacag bixinta',
+    method: 'Habka',
+    settings: 'Dejinta',
+    settingsTitle: 'Dejinta',
+    dailyTickets: 'Lambarada tigidhada maalinlaha',
+    dailyTicketsHint: 'Dalab kasta sii lambar gaaban oo maalin kasta ka bilaabma #1.',
+    statusVoid: 'La buriyay',
+    editOrder: 'Wax ka beddel dalabka',
+    voidOrder: 'Buri dalabka',
+    voidReason: 'Sababta burinta',
+    addToOrder: 'Ku dar alaab',
+    kitchen: 'Jikada',
+    kitchenTitle: 'Shaashadda Jikada',
+    noTickets: 'Ma jiro dalab sugaya.',
+    notifications: 'Ogeysiisyo',
+    noNotifications: 'Ogeysiis ma jiro.',
+    markAllRead: 'Dhammaan akhri',
+    modifiers: 'Wax-ka-beddelyo',
+    addModifierGroup: '+ Koox wax-ka-beddel',
+    customize: 'Habee',
+    note: 'Qoraal',
+    addLine: 'Ku dar dalabka',
+    customLines: 'Saf gaar ah',
+    floorPlan: 'Qorshaha miisaska',
+    orderList: 'Liis',
+    table: 'Miis',
+    noTable: 'Miis la\'aan',
+    addTable: '+ Ku dar miis',
+    addTableTitle: 'Ku dar Miis',
+    area: 'Qayb',
+    seats: 'Kuraas',
+    noTables: 'Weli miis ma jiro.',
+    openOrders: 'Dalabyo furan',
+    moveToTable: 'U wareeji miis',
+    mergeInto: 'Ku biir',
   },
 }
 
 const tr = (lang: 'en' | 'so', key: string) => TRANSLATIONS[lang]?.[key] ?? key
 
+// Realtime Database returns arrays as objects when they have gaps, so read both shapes.
+const asList = <T,>(value: T[] | Record<string, T> | null | undefined): T[] =>
+  (Array.isArray(value) ? value : Object.values(value ?? {})).filter((v): v is T => v != null)
+
+const parseModifierOptions = (text: string): ModifierOption[] =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line, idx) => {
+      const [name, priceStr] = line.split('|').map((part) => part.trim())
+      const price = Number(priceStr ?? 0)
+      return { id: `opt${idx + 1}`, name, price: Number.isNaN(price) ? 0 : price }
+    })
+
+const formatModifierOptions = (options: ModifierOption[]) =>
+  options.map((o) => (o.price ? `${o.name} | ${o.price}` : o.name)).join('\n')
+
+const modifiersTotal = (entry: OrderItem) => (entry.modifiers ?? []).reduce((s, m) => s + (m.price ?? 0), 0)
+
+// Draft lines and orders written before snapshots existed have no unitPrice, so they read the current menu.
+const lineBasePrice = (entry: OrderItem, itemsById: Record<string, Item>) =>
+  entry.unitPrice ?? itemsById[entry.itemId]?.price ?? 0
+const lineName = (entry: OrderItem, itemsById: Record<string, Item>) =>
+  entry.name ?? itemsById[entry.itemId]?.name ?? entry.itemId
+
+const discountAmount = (discount: Discount | undefined, base: number) => {
+  if (!discount || !discount.value || base <= 0) return 0
+  const raw = discount.type === 'percent' ? (base * discount.value) / 100 : discount.value
+  return Math.min(base, Math.max(0, raw))
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+// Line discounts apply first, the order discount applies to what is left, then service charge and tax on the net.
+const orderBreakdown = (
+  order: Pick<Order, 'items' | 'discount' | 'taxRate' | 'serviceRate'>,
+  itemsById: Record<string, Item>
+): OrderBreakdown => {
+  let gross = 0
+  let lineDiscounts = 0
+  order.items.forEach((entry) => {
+    const lineGross = entry.qty * (lineBasePrice(entry, itemsById) + modifiersTotal(entry))
+    gross += lineGross
+    lineDiscounts += discountAmount(entry.discount, lineGross)
+  })
+  const discount = roundMoney(lineDiscounts + discountAmount(order.discount, gross - lineDiscounts))
+  const net = roundMoney(gross - discount)
+  const service = roundMoney((net * (order.serviceRate ?? 0)) / 100)
+  const tax = roundMoney(((net + service) * (order.taxRate ?? 0)) / 100)
+  return { gross: roundMoney(gross), discount, net, service, tax, total: roundMoney(net + service + tax) }
+}
+
+const itemUnitCost = (item: Item | undefined, ingredientsById: Record<string, Ingredient>) =>
+  item?.costSource === 'recipe'
+    ? roundMoney(
+        Object.entries(item.recipe ?? {}).reduce(
+          (sum, [ingredientId, qty]) => sum + qty * (ingredientsById[ingredientId]?.cost ?? 0),
+          0
+        )
+      )
+    : item?.cost ?? 0
+
+// Lines sold before costs were captured fall back to today's cost.
+const orderCost = (
+  order: Pick<Order, 'items'>,
+  itemsById: Record<string, Item>,
+  ingredientsById: Record<string, Ingredient>
+) =>
+  roundMoney(
+    order.items.reduce(
+      (sum, entry) => sum + entry.qty * (entry.unitCost ?? itemUnitCost(itemsById[entry.itemId], ingredientsById)),
+      0
+    )
+  )
+
+// Margin is a ratio, so it is worked out from the summed figures rather than summed itself.
+const withMargin = (stats: ReportStats): ReportStats => ({
+  ...stats,
+  cogs: roundMoney(stats.cogs),
+  profit: roundMoney(stats.net - stats.cogs),
+  margin: stats.net > 0 ? Math.round(((stats.net - stats.cogs) / stats.net) * 1000) / 10 : 0,
+})
+
+const discountLabel = (discount?: Discount) => {
+  if (!discount || !discount.value) return ''
+  const value = discount.type === 'percent' ? `${discount.value}%` : `$${discount.value.toFixed(2)}`
+  return discount.reason ? `${value} off (${discount.reason})` : `${value} off`
+}
+
+const modifierLabel = (entry: OrderItem) =>
+  [
+    ...(entry.modifiers ?? []).map((m) => (m.price ? `${m.name} (+$${m.price.toFixed(2)})` : m.name)),
+    entry.note ? `"${entry.note}"` : '',
+    discountLabel(entry.discount),
+  ]
+    .filter(Boolean)
+    .join(', ')
+
+// Received orders count at what actually arrived; open ones at what was expected.
+const purchaseTotal = (po: Pick<PurchaseOrder, 'status' | 'lines'>) =>
+  roundMoney(
+    po.lines.reduce(
+      (sum, l) =>
+        sum + (po.status === 'received' ? (l.receivedQty ?? 0) * (l.receivedCost ?? 0) : l.qty * l.unitCost),
+      0
+    )
+  )
+
+// What the restaurant still owes a supplier: goods received less payments made.
+const supplierBalance = (supplier: Supplier, purchaseOrders: PurchaseOrder[]) => {
+  const received = purchaseOrders
+    .filter((po) => po.supplierId === supplier.id && po.status === 'received')
+    .reduce((sum, po) => sum + purchaseTotal(po), 0)
+  const paid = Object.values(supplier.payments ?? {}).reduce((sum, p) => sum + p.amount, 0)
+  return { received: roundMoney(received), paid: roundMoney(paid), owed: roundMoney(received - paid) }
+}
+
+// Repayments are pooled and applied to the oldest entries first, so allocation is always derived, never stored.
+// Entries settled at the counter count as paid in full and do not draw on repayments.
+// Write-offs clear entries oldest-first exactly like repayments but are reported apart from them.
+const allocateRepayments = (customer: Pick<LoanCustomer, 'loans' | 'repayments' | 'writeOffs'>, extra = 0) => {
+  const entries = Object.values(customer.loans ?? {}).sort(
+    (a, b) => new Date(a.date).getTime() - new Date(b.date).getTime() || a.id.localeCompare(b.id)
+  )
+  const repaid = roundMoney(Object.values(customer.repayments ?? {}).reduce((sum, r) => sum + r.amount, 0) + extra)
+  const writtenOff = roundMoney(Object.values(customer.writeOffs ?? {}).reduce((sum, w) => sum + w.amount, 0))
+  let pool = roundMoney(repaid + writtenOff)
+  const allocations: LoanAllocation[] = entries.map((entry) => {
+    if (entry.settledAt) return { entry, paid: entry.amount, outstanding: 0 }
+    const paid = roundMoney(Math.min(entry.amount, pool))
+    pool = roundMoney(pool - paid)
+    return { entry, paid, outstanding: roundMoney(entry.amount - paid) }
+  })
+  const loaned = roundMoney(entries.reduce((sum, e) => sum + e.amount, 0))
+  const settled = roundMoney(entries.reduce((sum, e) => sum + (e.settledAt ? e.amount : 0), 0))
+  return {
+    allocations,
+    loaned,
+    repaid,
+    writtenOff,
+    outstanding: roundMoney(Math.max(0, loaned - settled - repaid - writtenOff)),
+  }
+}
+
+const DAY_MS = 86400000
+
+const OUTBOX_TONE: Record<OutboxMessage['status'], string> = { queued: 'pending', sent: 'done', failed: 'void' }
+const PURCHASE_TONE: Record<PurchaseStatus, string> = { open: 'pending', received: 'done', cancelled: 'void' }
+const AGING_BUCKETS = ['0–30', '31–60', '61–90', '90+'] as const
+
+// Buckets what is still owed on each entry (after oldest-first allocation) by the entry's age.
+const loanAging = (customer: LoanCustomer) => {
+  const buckets = [0, 0, 0, 0]
+  let oldestDays = 0
+  allocateRepayments(customer).allocations.forEach(({ entry, outstanding }) => {
+    if (outstanding <= 0) return
+    const days = Math.max(0, Math.floor((Date.now() - new Date(entry.date).getTime()) / DAY_MS))
+    const idx = days > 90 ? 3 : days > 60 ? 2 : days > 30 ? 1 : 0
+    buckets[idx] = roundMoney(buckets[idx] + outstanding)
+    oldestDays = Math.max(oldestDays, days)
+  })
+  return { customer, buckets, total: roundMoney(buckets.reduce((sum, b) => sum + b, 0)), oldestDays }
+}
+
+type LoanIssue =
+  | { kind: 'orphan'; customer: LoanCustomer; entry: LoanEntry; order?: Order; problem: string }
+  | { kind: 'unlinked'; order: Order }
+
+// Loan entries whose order no longer backs them, and loan orders nobody owes.
+const loanConsistency = (orders: Order[], customers: LoanCustomer[]) => {
+  const issues: LoanIssue[] = []
+  const byId = new Map(orders.map((o) => [o.id, o]))
+  const linked = new Set<string>()
+  customers.forEach((customer) => {
+    const { allocations } = allocateRepayments(customer)
+    allocations.forEach(({ entry, outstanding }) => {
+      linked.add(entry.orderId)
+      const order = byId.get(entry.orderId)
+      const status = order?.status ?? 'pending'
+      let problem = ''
+      if (!order) problem = 'order not found'
+      else if (status === 'pending' || status === 'void') problem = `order is ${status}`
+      else if (status === 'paid' && outstanding > 0) problem = 'order is paid but the loan is still open'
+      else if (order.loanCustomerId && order.loanCustomerId !== customer.id) problem = 'order is linked to another customer'
+      if (problem) issues.push({ kind: 'orphan', customer, entry, order, problem })
+    })
+  })
+  orders
+    .filter((o) => o.status === 'loan' && !linked.has(o.id))
+    .forEach((order) => issues.push({ kind: 'unlinked', order }))
+  return issues
+}
+
+// Due once the oldest unpaid entry passes the threshold, and then at most once per interval.
+const reminderDue = (customer: LoanCustomer, settings: Settings) => {
+  const aging = loanAging(customer)
+  if (aging.total <= 0 || aging.oldestDays < (settings.reminderDays ?? 30)) return null
+  if (customer.lastReminderAt) {
+    const since = (Date.now() - new Date(customer.lastReminderAt).getTime()) / DAY_MS
+    if (since < (settings.reminderEveryDays ?? 7)) return null
+  }
+  return aging
+}
+
+// Everything before `from` is folded into the opening balance; `to` includes the whole day.
+const buildStatement = (
+  customer: LoanCustomer,
+  from: string,
+  to: string,
+  describe: (entry: LoanEntry) => string,
+  labels: { repayment: string; settled: string; writeOff: string; settlement: string }
+) => {
+  const start = from ? new Date(from).getTime() : -Infinity
+  const endDate = to ? new Date(to) : null
+  if (endDate) endDate.setHours(23, 59, 59, 999)
+  const end = endDate ? endDate.getTime() : Infinity
+  const events = [
+    ...Object.values(customer.loans ?? {}).map((l) => ({
+      date: l.date,
+      reference: l.orderId,
+      detail: describe(l),
+      charge: l.amount,
+      payment: 0,
+    })),
+    ...Object.values(customer.loans ?? {})
+      .filter((l) => l.settledAt)
+      .map((l) => ({
+        date: l.settledAt as string,
+        reference: l.orderId,
+        detail: [labels.settled, l.settledBy].filter(Boolean).join(' · '),
+        charge: 0,
+        payment: l.amount,
+      })),
+    ...Object.values(customer.repayments ?? {}).map((r) => ({
+      date: r.date,
+      reference: PAYMENT_METHOD_LABEL[r.method] ?? r.method,
+      detail: [labels.repayment, r.receivedBy, r.note].filter(Boolean).join(' · '),
+      charge: 0,
+      payment: r.amount,
+    })),
+    ...Object.values(customer.writeOffs ?? {}).map((w) => ({
+      date: w.date,
+      reference: w.kind === 'settlement' ? labels.settlement : labels.writeOff,
+      detail: [w.reason, w.approvedBy].filter(Boolean).join(' · '),
+      charge: 0,
+      payment: w.amount,
+    })),
+  ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+  let balance = 0
+  let opening = 0
+  const rows: StatementRow[] = []
+  events.forEach((e) => {
+    const t = new Date(e.date).getTime()
+    if (t > end) return
+    balance = roundMoney(balance + e.charge - e.payment)
+    if (t < start) {
+      opening = balance
+      return
+    }
+    rows.push({ ...e, balance })
+  })
+  return {
+    opening,
+    rows,
+    closing: balance,
+    charges: roundMoney(rows.reduce((sum, r) => sum + r.charge, 0)),
+    payments: roundMoney(rows.reduce((sum, r) => sum + r.payment, 0)),
+  }
+}
+
+// `extra` is the order about to be put on loan; pass 0 to check the customer as they stand.
+const creditCheck = (customer: LoanCustomer, extra = 0) => {
+  const { allocations, outstanding } = allocateRepayments(customer)
+  const oldest = allocations.find((a) => a.outstanding > 0)
+  const oldestDays = oldest ? Math.floor((Date.now() - new Date(oldest.entry.date).getTime()) / DAY_MS) : 0
+  const projected = roundMoney(outstanding + extra)
+  const problems: string[] = []
+  if (customer.creditLimit && projected > customer.creditLimit + 0.005) {
+    problems.push(`$${projected.toFixed(2)} would be over the $${customer.creditLimit.toFixed(2)} credit limit`)
+  }
+  if (customer.maxDays && oldestDays > customer.maxDays) {
+    problems.push(`oldest loan is ${oldestDays} days old (limit ${customer.maxDays})`)
+  }
+  return { outstanding, projected, oldestDays, problems, blocked: problems.length > 0 && !!customer.blockOverLimit }
+}
+
+// National number without country code or trunk zero, so +25290…, 25290… and 090… all give 90….
 const normalizePhone = (phone: string) => {
   const digits = phone.replace(/\D/g, '')
-  if (digits.startsWith('25290')) return digits.slice(5)
-  if (digits.startsWith('2520')) return digits.slice(4)
-  if (digits.startsWith('252')) return digits.slice(3)
-  if (digits.startsWith('0')) return digits.slice(1)
-  return digits
+  const national = digits.startsWith('252') ? digits.slice(3) : digits
+  return national.startsWith('0') ? national.slice(1) : national
+}
+
+const INGREDIENT_UNITS: IngredientUnit[] = ['kg', 'litre', 'piece']
+
+// Ingredient amounts are fractional (0.02 kg of sugar), so keep them to grams and millilitres.
+const roundQty = (value: number) => Math.round(value * 1000) / 1000
+
+// Ingredients consumed by the given quantity of each menu item, per the item's current recipe.
+const recipeUsage = (qtyByItem: Record<string, number>, itemsById: Record<string, Item>) => {
+  const usage: Record<string, number> = {}
+  Object.entries(qtyByItem).forEach(([itemId, qty]) => {
+    Object.entries(itemsById[itemId]?.recipe ?? {}).forEach(([ingredientId, perUnit]) => {
+      usage[ingredientId] = roundQty((usage[ingredientId] ?? 0) + qty * perUnit)
+    })
+  })
+  return usage
+}
+
+// How many more of the item its ingredients can make. Items without a recipe are not limited.
+const recipeCapacity = (item: Item, ingredientsById: Record<string, Ingredient>) =>
+  Object.entries(item.recipe ?? {}).reduce((cap, [ingredientId, perUnit]) => {
+    const stock = ingredientsById[ingredientId]?.stock ?? 0
+    return perUnit > 0 ? Math.min(cap, Math.floor(roundQty(stock / perUnit))) : cap
+  }, Infinity)
+
+const isAvailableOn = (item: Item, day: string) => item.unavailableOn !== day
+
+// At or under the reorder level. Items without a level only count once they run out.
+const isLowStock = (item: Item) => (item.stock ?? 0) <= (item.reorderLevel ?? 0)
+
+const homeTab = (role: Role) => {
+  if (role === 'kitchen') return 'kitchen' as const
+  return role === 'waiter' || role === 'collector' ? ('orders' as const) : ('dash' as const)
 }
 
+const localDateKey = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+
+const formatOrderId = (num: number) => `order${String(num).padStart(3, '0')}`
+
 const formatDateTime = (iso: string) =>
   new Date(iso).toLocaleString('en-US', {
     month: 'short',
@@ -239,22 +1391,36 @@ const formatDateTime = (iso: string) =>
     minute: '2-digit',
   })
 
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' })
+
 function App() {
   const db = useMemo(() => getDatabase(app), [])
   const dbPath = (path: string) => ref(db, `rms/${path}`)
   const [users, setUsers] = useState<User[]>([])
   const [items, setItems] = useState<Item[]>([])
+  const [ingredients, setIngredients] = useState<Ingredient[]>([])
   const [orders, setOrders] = useState<Order[]>([])
   const [search, setSearch] = useState('')
   const [itemSearch, setItemSearch] = useState('')
 const [draftWaiter, setDraftWaiter] = useState<string>('')
 const [draftQty, setDraftQty] = useState<Record<string, number>>({})
+const [draftLines, setDraftLines] = useState<DraftLine[]>([])
+const [customizeItem, setCustomizeItem] = useState<Item | null>(null)
+const [customizeQty, setCustomizeQty] = useState(1)
+const [customizeNote, setCustomizeNote] = useState('')
+const [customizeChoice, setCustomizeChoice] = useState<Record<string, string[]>>({})
+const [modifierDrafts, setModifierDrafts] = useState<ModifierGroupDraft[]>([])
 const [banner, setBanner] = useState<Banner>(null)
 const [currentUser, setCurrentUser] = useState<User | null>(null)
 const [authPhone, setAuthPhone] = useState<string>('')
 const [authPin, setAuthPin] = useState<string>('')
 const [authError, setAuthError] = useState<string>('')
-const [tab, setTab] = useState<'dash' | 'orders' | 'staff' | 'items' | 'reports' | 'loans'>('dash')
+const [tab, setTab] = useState<
+  'dash' | 'orders' | 'staff' | 'items' | 'purchases' | 'reports' | 'loans' | 'kitchen' | 'settings'
+>(
+  'dash'
+)
 const [language, setLanguage] = useState<'en' | 'so'>('en')
 const [showOrderModal, setShowOrderModal] = useState(false)
 const [sidebarOpen, setSidebarOpen] = useState(false)
@@ -277,13 +1443,34 @@ const [itemModalOpen, setItemModalOpen] = useState(false)
 const [newItemName, setNewItemName] = useState('')
 const [newItemPrice, setNewItemPrice] = useState('0')
 const [newItemStock, setNewItemStock] = useState('0')
+const [newItemReorder, setNewItemReorder] = useState('0')
 const [openItemAction, setOpenItemAction] = useState<string | null>(null)
 const [itemActionItem, setItemActionItem] = useState<Item | null>(null)
 const [itemActionName, setItemActionName] = useState('')
 const [itemActionPrice, setItemActionPrice] = useState('0')
 const [itemActionStock, setItemActionStock] = useState('0')
+const [itemActionReorder, setItemActionReorder] = useState('0')
 const [stockModalItem, setStockModalItem] = useState<Item | null>(null)
 const [stockModalValue, setStockModalValue] = useState('0')
+const [stockModalMode, setStockModalMode] = useState<'restock' | 'waste' | 'adjust'>('restock')
+const [stockModalNote, setStockModalNote] = useState('')
+const [stockModalIngredient, setStockModalIngredient] = useState<Ingredient | null>(null)
+const [newIngredientName, setNewIngredientName] = useState('')
+const [newIngredientUnit, setNewIngredientUnit] = useState<IngredientUnit>('kg')
+const [newIngredientStock, setNewIngredientStock] = useState('0')
+const [recipeDrafts, setRecipeDrafts] = useState<RecipeDraft[]>([])
+const [itemCostDraft, setItemCostDraft] = useState('0')
+const [itemCostSource, setItemCostSource] = useState<CostSource>('manual')
+const [categories, setCategories] = useState<Category[]>([])
+const [newCategoryName, setNewCategoryName] = useState('')
+const [itemCategoryDraft, setItemCategoryDraft] = useState('')
+const [itemImageFile, setItemImageFile] = useState<File | null>(null)
+const [itemImageRemove, setItemImageRemove] = useState(false)
+const [itemCategoryFilter, setItemCategoryFilter] = useState('')
+const [orderCategory, setOrderCategory] = useState('')
+const [ingredientMoves, setIngredientMoves] = useState<Record<string, StockMove[]>>({})
+const [itemMoves, setItemMoves] = useState<StockMove[]>([])
+const [stockDrift, setStockDrift] = useState<StockDrift[] | null>(null)
   const [viewItem, setViewItem] = useState<Item | null>(null)
   const [viewOrder, setViewOrder] = useState<Order | null>(null)
 const [pendingItemDelete, setPendingItemDelete] = useState<Item | null>(null)
@@ -298,10 +1485,30 @@ const [logs, setLogs] = useState<LogEntry[]>([])
 const profileCardRef = useRef<HTMLDivElement | null>(null)
 const avatarRef = useRef<HTMLButtonElement | null>(null)
 const [loanCustomers, setLoanCustomers] = useState<LoanCustomer[]>([])
+const [suppliers, setSuppliers] = useState<Supplier[]>([])
+const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([])
+const [supplierModalOpen, setSupplierModalOpen] = useState(false)
+const [newSupplierName, setNewSupplierName] = useState('')
+const [newSupplierPhone, setNewSupplierPhone] = useState('')
+const [paySupplier, setPaySupplier] = useState<Supplier | null>(null)
+const [supplierPayAmount, setSupplierPayAmount] = useState('')
+const [supplierPayMethod, setSupplierPayMethod] = useState<PaymentMethod>('cash')
+const [supplierPayNote, setSupplierPayNote] = useState('')
+const [purchaseModalOpen, setPurchaseModalOpen] = useState(false)
+const [purchaseSupplierId, setPurchaseSupplierId] = useState('')
+const [purchaseLines, setPurchaseLines] = useState<PurchaseLineDraft[]>([])
+const [purchaseNote, setPurchaseNote] = useState('')
+const [receivePurchase, setReceivePurchase] = useState<PurchaseOrder | null>(null)
+const [receiveLines, setReceiveLines] = useState<{ qty: string; unitCost: string }[]>([])
 const [loanCustomerSearch, setLoanCustomerSearch] = useState('')
 const [loanCustomerModalOpen, setLoanCustomerModalOpen] = useState(false)
 const [newLoanCustomerName, setNewLoanCustomerName] = useState('')
 const [newLoanCustomerPhone, setNewLoanCustomerPhone] = useState('+25290')
+const [showArchivedCustomers, setShowArchivedCustomers] = useState(false)
+const [loanEditName, setLoanEditName] = useState('')
+const [loanEditPhone, setLoanEditPhone] = useState('')
+const [loanEditing, setLoanEditing] = useState(false)
+const [mergeLoanTargetId, setMergeLoanTargetId] = useState('')
 const [loanEntryModalOpen, setLoanEntryModalOpen] = useState(false)
 const [loanEntryCustomerId, setLoanEntryCustomerId] = useState('')
 const [loanEntryOrderId, setLoanEntryOrderId] = useState('')
@@ -310,28 +1517,100 @@ const [loanStatusModalOpen, setLoanStatusModalOpen] = useState(false)
 const [loanStatusOrderId, setLoanStatusOrderId] = useState('')
 const [loanStatusCustomerId, setLoanStatusCustomerId] = useState('')
 const [loanStatusSearch, setLoanStatusSearch] = useState('')
+const [tables, setTables] = useState<Table[]>([])
+const [draftTable, setDraftTable] = useState('')
+const [orderView, setOrderView] = useState<'list' | 'floor'>('list')
+const [tableModalOpen, setTableModalOpen] = useState(false)
+const [newTableNumber, setNewTableNumber] = useState('')
+const [newTableArea, setNewTableArea] = useState('Hall')
+const [newTableSeats, setNewTableSeats] = useState('4')
+const [viewTable, setViewTable] = useState<Table | null>(null)
+const [mergeTargetId, setMergeTargetId] = useState('')
+const [notifications, setNotifications] = useState<StaffNotification[]>([])
+const [notificationsOpen, setNotificationsOpen] = useState(false)
+const [clock, setClock] = useState(() => Date.now())
+const [editOrder, setEditOrder] = useState<Order | null>(null)
+const [editLines, setEditLines] = useState<OrderItem[]>([])
+const [editAddItemId, setEditAddItemId] = useState('')
+const [voidOrder, setVoidOrder] = useState<Order | null>(null)
+const [voidReason, setVoidReason] = useState('')
+const [settings, setSettings] = useState<Settings>({})
+const [paymentAmount, setPaymentAmount] = useState('')
+const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash')
+const [paymentPayer, setPaymentPayer] = useState('')
+const [draftDiscountType, setDraftDiscountType] = useState<Discount['type']>('percent')
+const [draftDiscountValue, setDraftDiscountValue] = useState('')
+const [draftDiscountReason, setDraftDiscountReason] = useState('')
+const [draftGuests, setDraftGuests] = useState('')
+const [connected, setConnected] = useState(true)
+const [repayAmount, setRepayAmount] = useState('')
+const [repayMethod, setRepayMethod] = useState<PaymentMethod>('cash')
+const [repayNote, setRepayNote] = useState('')
+const [writeOffMode, setWriteOffMode] = useState<LoanWriteOff['kind']>('writeoff')
+const [writeOffAmount, setWriteOffAmount] = useState('')
+const [writeOffReason, setWriteOffReason] = useState('')
+const [loanOverrideReason, setLoanOverrideReason] = useState('')
+const [statementFrom, setStatementFrom] = useState('')
+const [statementTo, setStatementTo] = useState('')
+const [agingSort, setAgingSort] = useState<'total' | 'oldest'>('total')
+const [outbox, setOutbox] = useState<OutboxMessage[]>([])
+const remindersRef = useRef<(quiet?: boolean) => void>(() => {})
+const remindersRunningRef = useRef(false)
+const [syncQueue, setSyncQueue] = useState<OfflineAction[]>([])
+const [syncing, setSyncing] = useState(false)
+const [syncModalOpen, setSyncModalOpen] = useState(false)
+const syncingRef = useRef(false)
+const replayRef = useRef<() => void>(() => {})
+const [customizeDiscountType, setCustomizeDiscountType] = useState<Discount['type']>('percent')
+const [customizeDiscountValue, setCustomizeDiscountValue] = useState('')
+const [customizeDiscountReason, setCustomizeDiscountReason] = useState('')
 
   const itemsById = useMemo(() => Object.fromEntries(items.map((item) => [item.id, item])), [items])
+  const ingredientsById = useMemo(() => Object.fromEntries(ingredients.map((i) => [i.id, i])), [ingredients])
+  // Menu order: by category sort order, uncategorised last, then by name.
+  const menuItems = useMemo(() => {
+    const rank = new Map(categories.map((c, idx) => [c.id, idx]))
+    const rankOf = (item: Item) => rank.get(item.categoryId ?? '') ?? categories.length
+    return [...items].sort((a, b) => rankOf(a) - rankOf(b) || a.name.localeCompare(b.name))
+  }, [items, categories])
   const usersById = useMemo(() => Object.fromEntries(users.map((user) => [user.id, user])), [users])
+  const tablesById = useMemo(() => Object.fromEntries(tables.map((table) => [table.id, table])), [tables])
+  const tablesByArea = useMemo(() => {
+    const groups = new Map<string, Table[]>()
+    const sorted = [...tables].sort((a, b) => a.number - b.number)
+    sorted.forEach((table) => {
+      const area = table.area || 'Hall'
+      groups.set(area, [...(groups.get(area) ?? []), table])
+    })
+    return Array.from(groups.entries())
+  }, [tables])
+  const openOrdersByTable = useMemo(() => {
+    const acc: Record<string, Order[]> = {}
+    orders.forEach((order) => {
+      if (!order.tableId) return
+      if (order.status && order.status !== 'pending') return
+      acc[order.tableId] = [...(acc[order.tableId] ?? []), order]
+    })
+    return acc
+  }, [orders])
+  const tableLabel = (tableId?: string) => {
+    if (!tableId) return ''
+    const table = tablesById[tableId]
+    return table ? `T${table.number}` : tableId
+  }
   const formatPrice = (value: number) => `$${value.toFixed(2)}`
 
+  const liveOrders = useMemo(() => orders.filter((o) => o.status !== 'void'), [orders])
+
   const metrics = useMemo(() => {
     const scopedOrders =
       currentUser && currentUser.role === 'waiter'
-        ? orders.filter((o) => o.waiterId === currentUser.id)
-        : orders
+        ? liveOrders.filter((o) => o.waiterId === currentUser.id)
+        : liveOrders
     const totalOrders = scopedOrders.length
     const totalItems = scopedOrders.reduce((sum, order) => sum + order.items.reduce((s, i) => s + i.qty, 0), 0)
-    const totalSales = scopedOrders.reduce(
-      (sum, order) =>
-        sum +
-        order.items.reduce(
-          (s, entry) => s + entry.qty * (itemsById[entry.itemId]?.price ?? 0),
-          0
-        ),
-      0
-    )
-    const lowStock: Item[] = []
+    const totalSales = scopedOrders.reduce((sum, order) => sum + orderBreakdown(order, itemsById).total, 0)
+    const lowStock = items.filter(isLowStock).sort((a, b) => (a.stock ?? 0) - (b.stock ?? 0))
     const busiestWaiter = scopedOrders.reduce<Record<string, number>>((acc, order) => {
       acc[order.waiterId] = (acc[order.waiterId] ?? 0) + 1
       return acc
@@ -340,13 +1619,15 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
       Object.entries(busiestWaiter).sort((a, b) => b[1] - a[1])[0]?.[0] ?? '—'
     const staffCount = users.filter((u) => u.role !== 'admin').length
     return { totalOrders, totalItems, lowStock, topWaiterId, totalSales, staffCount }
-  }, [orders, items, currentUser, itemsById, users])
+  }, [liveOrders, items, currentUser, itemsById, users])
 
-  const orderTotal = (order: Order) =>
-    order.items.reduce((sum, entry) => sum + entry.qty * (itemsById[entry.itemId]?.price ?? 0), 0)
+  const lineUnitPrice = (entry: OrderItem) => lineBasePrice(entry, itemsById) + modifiersTotal(entry)
+  const orderTotal = (order: Order) => orderBreakdown(order, itemsById).total
+  const orderPaid = (order: Order) => (order.payments ?? []).reduce((sum, p) => sum + p.amount, 0)
+  const orderBalance = (order: Order) => Math.max(0, orderTotal(order) - orderPaid(order))
   const orderTitle = (order: Order) => {
     const firstItem = order.items[0]
-    const name = firstItem ? itemsById[firstItem.itemId]?.name : ''
+    const name = firstItem ? lineName(firstItem, itemsById) : ''
     return name ? `${name} - ${order.id}` : order.id
   }
   const orderPriority = (order: Order) => {
@@ -354,20 +1635,35 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
     if (order.status === 'loan') return 1
     return 0
   }
-  const nextOrderId = () => {
-    const prefix = 'order'
-    const maxExisting = orders.reduce((max, o) => {
+  // Seeds the shared counter the first time it is used, so numbering continues from existing orders.
+  const highestOrderNumber = () =>
+    orders.reduce((max, o) => {
       const match = /^order(\d+)$/.exec(o.id ?? '')
       if (!match) return max
       const num = Number(match[1])
       return Number.isNaN(num) ? max : Math.max(max, num)
     }, 0)
-    return `${prefix}${String(maxExisting + 1).padStart(3, '0')}`
-  }
-  const draftTotal = Object.entries(draftQty).reduce(
-    (sum, [itemId, qty]) => sum + qty * (itemsById[itemId]?.price ?? 0),
-    0
+  const draftDiscount: Discount | undefined =
+    Number(draftDiscountValue) > 0
+      ? { type: draftDiscountType, value: Number(draftDiscountValue), reason: draftDiscountReason.trim() }
+      : undefined
+  const draftGuestCount = Number(draftGuests) || 0
+  const draftServiceRate =
+    (settings.serviceRate ?? 0) > 0 && draftGuestCount >= (settings.serviceMinGuests ?? 0) ? settings.serviceRate ?? 0 : 0
+  const draftBreakdown = orderBreakdown(
+    {
+      items: [
+        ...Object.entries(draftQty).map(([itemId, qty]) => ({ itemId, qty })),
+        ...draftLines,
+      ],
+      discount: draftDiscount,
+      taxRate: settings.taxRate ?? 0,
+      serviceRate: draftServiceRate,
+    },
+    itemsById
   )
+  const draftItemQty = (itemId: string) =>
+    (draftQty[itemId] ?? 0) + draftLines.filter((l) => l.itemId === itemId).reduce((s, l) => s + l.qty, 0)
   const scopedOrders = orders
   const ordersFiltered = scopedOrders.filter((order) => {
     if (orderWaiterFilter !== 'all' && order.waiterId !== orderWaiterFilter) return false
@@ -394,10 +1690,28 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
     if (pa !== pb) return pb - pa
     return new Date(b.time).getTime() - new Date(a.time).getTime()
   })
+  const shownOrder = viewOrder && (orders.find((o) => (o.dbId ?? o.id) === (viewOrder.dbId ?? viewOrder.id)) ?? viewOrder)
+  const shownLoanCustomer = viewLoanCustomer && (loanCustomers.find((c) => c.id === viewLoanCustomer.id) ?? viewLoanCustomer)
+  const viewLoanSummary = allocateRepayments(shownLoanCustomer ?? {})
+  const remindersDue = loanCustomers.filter((c) => reminderDue(c, settings)).length
+  const agingRows = loanCustomers
+    .map(loanAging)
+    .filter((row) => row.total > 0)
+    .sort((a, b) => (agingSort === 'oldest' ? b.oldestDays - a.oldestDays : b.total - a.total))
+  const agingTotals = agingRows.reduce((acc, row) => acc.map((v, idx) => roundMoney(v + row.buckets[idx])), [0, 0, 0, 0])
+  const loanStatusOrder = orders.find((o) => (o.dbId ?? o.id) === loanStatusOrderId) ?? null
+  const loanStatusCustomer = loanCustomers.find((c) => c.id === loanStatusCustomerId)
+  const loanStatusCheck =
+    loanStatusCustomer && loanStatusOrder ? creditCheck(loanStatusCustomer, orderBalance(loanStatusOrder)) : null
+  const loanOutstanding = loanCustomers.reduce((sum, c) => sum + allocateRepayments(c).outstanding, 0)
+  const kitchenOrders = orders
+    .filter((o) => (!o.status || o.status === 'pending') && o.items.some((i) => (i.prep ?? 'queued') !== 'ready'))
+    .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime())
+  const unreadNotifications = notifications.filter((n) => !n.read).length
   const loanTotals = useMemo(
     () => ({
       count: loanOrders.length,
-      amount: loanOrders.reduce((sum, o) => sum + orderTotal(o), 0),
+      amount: loanOrders.reduce((sum, o) => sum + orderBalance(o), 0),
     }),
     [loanOrders]
   )
@@ -410,23 +1724,34 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
     return `${date.getUTCFullYear()}-W${weekNo}`
   }
 
-  const reportRows = useMemo<ReportRow[]>(() => {
+  // Whether a timestamp falls inside the report's date range; the end day counts in full.
+  const inReportRange = useMemo(() => {
     const start = reportStart ? new Date(reportStart) : null
     const end = reportEnd ? new Date(reportEnd) : null
     if (end) end.setHours(23, 59, 59, 999)
-
-    const filteredOrders = orders.filter((o) => {
-      const t = new Date(o.time).getTime()
+    return (time: string) => {
+      const t = new Date(time).getTime()
       if (Number.isNaN(t)) return false
       if (start && t < start.getTime()) return false
       if (end && t > end.getTime()) return false
-      if (reportStatus === 'paid' && o.status !== 'paid') return false
-      if (reportStatus === 'loan' && o.status !== 'loan') return false
       return true
-    })
+    }
+  }, [reportStart, reportEnd])
+
+  const reportOrders = useMemo(
+    () =>
+      liveOrders.filter((o) => {
+        if (!inReportRange(o.time)) return false
+        if (reportStatus === 'paid' && o.status !== 'paid') return false
+        if (reportStatus === 'loan' && o.status !== 'loan') return false
+        return true
+      }),
+    [liveOrders, inReportRange, reportStatus]
+  )
 
+  const reportRows = useMemo<ReportRow[]>(() => {
     const buckets = new Map<string, ReportStats>()
-    filteredOrders.forEach((order) => {
+    reportOrders.forEach((order) => {
       const date = new Date(order.time)
       if (Number.isNaN(date.getTime())) return
       let key = ''
@@ -434,10 +1759,17 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
       if (reportTab === 'weekly') key = getWeekId(date)
       if (reportTab === 'monthly') key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
       if (reportTab === 'yearly') key = `${date.getFullYear()}`
-      const current = buckets.get(key) ?? { ordersCount: 0, itemsCount: 0, sales: 0, paid: 0, loan: 0, pending: 0 }
+      const current = buckets.get(key) ?? { ...EMPTY_REPORT_STATS }
+      const breakdown = orderBreakdown(order, itemsById)
       current.ordersCount += 1
       current.itemsCount += order.items.reduce((s, i) => s + i.qty, 0)
-      current.sales += order.items.reduce((s, i) => s + i.qty * (itemsById[i.itemId]?.price ?? 0), 0)
+      current.gross += breakdown.gross
+      current.discount += breakdown.discount
+      current.net += breakdown.net
+      current.service += breakdown.service
+      current.tax += breakdown.tax
+      current.sales += breakdown.total
+      current.cogs += orderCost(order, itemsById, ingredientsById)
       if (order.status === 'loan') current.loan += 1
       else if (order.status === 'paid') current.paid += 1
       else current.pending += 1
@@ -446,21 +1778,137 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
 
     return Array.from(buckets.entries())
       .sort(([a], [b]) => (a > b ? -1 : 1))
-      .map(([label, stats]) => ({ label, ...stats }))
-  }, [orders, itemsById, reportStart, reportEnd, reportTab, reportStatus])
+      .map(([label, stats]) => ({ label, ...withMargin(stats) }))
+  }, [reportOrders, itemsById, ingredientsById, reportTab])
+  const reportTotals = useMemo(
+    () =>
+      withMargin(
+        reportRows.reduce<ReportStats>((acc, r) => {
+          const next = { ...acc }
+          REPORT_COLUMNS.forEach(({ key }) => {
+            next[key] = acc[key] + (r[key] ?? 0)
+          })
+          return next
+        }, { ...EMPTY_REPORT_STATS })
+      ),
+    [reportRows]
+  )
+  // Order-level discounts are spread over the lines so the item rows add up to the period's net.
+  const itemProfit = useMemo(() => {
+    const acc = new Map<string, { name: string; qty: number; net: number; cogs: number }>()
+    reportOrders.forEach((order) => {
+      const breakdown = orderBreakdown(order, itemsById)
+      const lineNets = order.items.map((entry) => {
+        const lineGross = entry.qty * (lineBasePrice(entry, itemsById) + modifiersTotal(entry))
+        return lineGross - discountAmount(entry.discount, lineGross)
+      })
+      const beforeOrderDiscount = lineNets.reduce((sum, n) => sum + n, 0)
+      const share = beforeOrderDiscount > 0 ? breakdown.net / beforeOrderDiscount : 0
+      order.items.forEach((entry, idx) => {
+        const current = acc.get(entry.itemId) ?? { name: lineName(entry, itemsById), qty: 0, net: 0, cogs: 0 }
+        current.qty += entry.qty
+        current.net += lineNets[idx] * share
+        current.cogs += entry.qty * (entry.unitCost ?? itemUnitCost(itemsById[entry.itemId], ingredientsById))
+        acc.set(entry.itemId, current)
+      })
+    })
+    return Array.from(acc.entries())
+      .map(([itemId, r]) => {
+        const net = roundMoney(r.net)
+        const cogs = roundMoney(r.cogs)
+        return {
+          itemId,
+          name: r.name,
+          qty: r.qty,
+          net,
+          cogs,
+          profit: roundMoney(net - cogs),
+          margin: net > 0 ? Math.round(((net - cogs) / net) * 1000) / 10 : 0,
+        }
+      })
+      .sort((a, b) => b.profit - a.profit)
+  }, [reportOrders, itemsById, ingredientsById])
+  const paymentBreakdown = useMemo(() => {
+    const acc = new Map<PaymentMethod, { count: number; amount: number }>()
+    liveOrders
+      .filter((order) => reportStatus === 'all' || order.status === reportStatus)
+      .flatMap((order) => order.payments ?? [])
+      .forEach((p) => {
+        if (!inReportRange(p.time)) return
+        const current = acc.get(p.method) ?? { count: 0, amount: 0 }
+        current.count += 1
+        current.amount += p.amount
+        acc.set(p.method, current)
+      })
+    return Array.from(acc.entries())
+      .map(([method, stats]) => ({ method, ...stats }))
+      .sort((a, b) => b.amount - a.amount)
+  }, [liveOrders, inReportRange, reportStatus])
+  const badDebt = useMemo(() => {
+    const totals = { writeoff: 0, settlement: 0, count: 0 }
+    loanCustomers
+      .flatMap((c) => Object.values(c.writeOffs ?? {}))
+      .forEach((w) => {
+        if (!inReportRange(w.date)) return
+        totals[w.kind] = roundMoney(totals[w.kind] + w.amount)
+        totals.count += 1
+      })
+    return { ...totals, total: roundMoney(totals.writeoff + totals.settlement) }
+  }, [loanCustomers, inReportRange])
+  // Theoretical usage is what the current recipes say the sold items should have taken; actual is what
+  // left the ingredient ledger other than restocks. The gap is waste, over-portioning or a recipe that is off.
+  const ingredientUsage = useMemo(() => {
+    const sold: Record<string, number> = {}
+    liveOrders
+      .filter((o) => o.status !== 'void' && inReportRange(o.time))
+      .forEach((o) => o.items.forEach((line) => (sold[line.itemId] = (sold[line.itemId] ?? 0) + line.qty)))
+    const theoretical = recipeUsage(sold, itemsById)
+    return ingredients
+      .map((ingredient) => {
+        const actual = roundQty(
+          -(ingredientMoves[ingredient.id] ?? [])
+            .filter((m) => m.kind !== 'restock' && inReportRange(m.time))
+            .reduce((sum, m) => sum + m.delta, 0)
+        )
+        const expected = theoretical[ingredient.id] ?? 0
+        return { ingredient, theoretical: expected, actual, variance: roundQty(actual - expected) }
+      })
+      .filter((row) => row.theoretical !== 0 || row.actual !== 0)
+  }, [liveOrders, itemsById, ingredients, ingredientMoves, inReportRange])
+  const purchasesReport = useMemo(() => {
+    const bySupplier = new Map<string, { count: number; amount: number }>()
+    purchaseOrders
+      .filter((po) => po.status === 'received' && inReportRange(po.receivedAt ?? ''))
+      .forEach((po) => {
+        const current = bySupplier.get(po.supplierId) ?? { count: 0, amount: 0 }
+        current.count += 1
+        current.amount = roundMoney(current.amount + purchaseTotal(po))
+        bySupplier.set(po.supplierId, current)
+      })
+    const rows = Array.from(bySupplier.entries())
+      .map(([supplierId, stats]) => ({
+        supplierId,
+        name: suppliers.find((sup) => sup.id === supplierId)?.name ?? supplierId,
+        ...stats,
+      }))
+      .sort((a, b) => b.amount - a.amount)
+    return { rows, total: roundMoney(rows.reduce((sum, r) => sum + r.amount, 0)) }
+  }, [purchaseOrders, suppliers, inReportRange])
   const staffFiltered = users
     .filter((u) => {
       const text = `${u.name} ${u.phone}`.toLowerCase()
       return text.includes(waiterSearch.trim().toLowerCase())
     })
 
-  const itemsFiltered = items.filter((item) =>
-    item.name.toLowerCase().includes(itemManageSearch.trim().toLowerCase())
+  const itemsFiltered = menuItems.filter(
+    (item) =>
+      item.name.toLowerCase().includes(itemManageSearch.trim().toLowerCase()) &&
+      (!itemCategoryFilter || (item.categoryId ?? '') === itemCategoryFilter)
   )
   const waiterCharts = useMemo(() => {
     const waiters = users.filter((u) => u.role === 'waiter')
     return waiters.map((w) => {
-      const list = orders.filter((o) => o.waiterId === w.id)
+      const list = liveOrders.filter((o) => o.waiterId === w.id)
       return {
         waiter: w,
         orders: list.length,
@@ -468,14 +1916,14 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
         paid: list.filter((o) => o.status !== 'loan').length,
       }
     })
-  }, [users, orders])
+  }, [users, liveOrders])
   const chartPalette = ['#0ea44d', '#3b82f6', '#f59e0b', '#ef4444', '#8b5cf6', '#14b8a6']
   const waiterStatusStats = useMemo(() => {
-    const paid = orders.filter((o) => o.status === 'paid').length
-    const loan = orders.filter((o) => o.status === 'loan').length
-    const pending = orders.filter((o) => !o.status || o.status === 'pending').length
-    return { paid, loan, pending, total: orders.length }
-  }, [orders])
+    const paid = liveOrders.filter((o) => o.status === 'paid').length
+    const loan = liveOrders.filter((o) => o.status === 'loan').length
+    const pending = liveOrders.filter((o) => !o.status || o.status === 'pending').length
+    return { paid, loan, pending, total: liveOrders.length }
+  }, [liveOrders])
 
   const addLog = (entry: Omit<LogEntry, 'id'>) => {
     push(dbPath('log'), entry).catch(() => null)
@@ -500,38 +1948,185 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
         return `${actor} updated item ${log.detail ?? ''}`.trim()
       case 'item_delete':
         return `${actor} deleted item ${log.detail ?? ''}`.trim()
+      case 'stock_reconcile':
+        return `${actor} reconciled stock ${log.detail ?? ''}`.trim()
+      case 'ingredient_add':
+        return `${actor} added ingredient ${log.detail ?? ''}`.trim()
+      case 'category_add':
+        return `${actor} added category ${log.detail ?? ''}`.trim()
+      case 'category_delete':
+        return `${actor} removed category ${log.detail ?? ''}`.trim()
+      case 'item_available':
+        return `${actor} put back on the menu ${log.detail ?? ''}`.trim()
+      case 'item_unavailable':
+        return `${actor} marked unavailable today ${log.detail ?? ''}`.trim()
+      case 'supplier_add':
+        return `${actor} added supplier ${log.detail ?? ''}`.trim()
+      case 'supplier_payment':
+        return `${actor} paid supplier ${log.detail ?? ''}`.trim()
+      case 'purchase_create':
+        return `${actor} created purchase order ${log.detail ?? ''}`.trim()
+      case 'purchase_receive':
+        return `${actor} received purchase order ${log.detail ?? ''}`.trim()
+      case 'purchase_cancel':
+        return `${actor} cancelled purchase order ${log.detail ?? ''}`.trim()
+      case 'low_stock':
+        return `Low stock: ${log.detail ?? ''}`.trim()
+      case 'loan_writeoff':
+        return `${actor} wrote off ${log.detail ?? ''}`.trim()
+      case 'loan_fix':
+        return `${actor} fixed loan entry ${log.detail ?? ''}`.trim()
+      case 'loan_customer_edit':
+        return `${actor} edited loan customer ${log.detail ?? ''}`.trim()
+      case 'loan_customer_archive':
+        return `${actor} archived loan customer ${log.detail ?? ''}`.trim()
+      case 'loan_customer_restore':
+        return `${actor} restored loan customer ${log.detail ?? ''}`.trim()
+      case 'loan_customer_merge':
+        return `${actor} merged loan customers ${log.detail ?? ''}`.trim()
+      case 'loan_reminders':
+        return `${actor} ran loan reminders ${log.detail ?? ''}`.trim()
+      case 'loan_override':
+        return `${actor} overrode a credit block ${log.detail ?? ''}`.trim()
+      case 'loan_limit':
+        return `${actor} changed credit limits ${log.detail ?? ''}`.trim()
+      case 'loan_repayment':
+        return `${actor} received loan repayment ${log.detail ?? ''}`.trim()
+      case 'payment':
+        return `${actor} took payment ${log.detail ?? ''}`.trim()
+      case 'snapshot_backfill':
+        return `${actor} captured prices on ${log.detail ?? 0} old order lines`
+      case 'sync_discard':
+        return `${actor} discarded offline action ${log.detail ?? ''}`.trim()
+      case 'settings_update':
+        return `${actor} updated settings ${log.detail ?? ''}`.trim()
+      case 'order_edit':
+        return `${actor} edited order ${log.detail ?? ''}`.trim()
+      case 'order_void':
+        return `${actor} voided order ${log.detail ?? ''}`.trim()
+      case 'order_ready':
+        return `${actor} marked ready ${log.detail ?? ''}`.trim()
+      case 'table_add':
+        return `${actor} added table ${log.detail ?? ''}`.trim()
+      case 'order_move':
+        return `${actor} moved order ${log.detail ?? ''}`.trim()
+      case 'table_merge':
+        return `${actor} merged tables ${log.detail ?? ''}`.trim()
       default:
         return `${actor} ${log.type}`
     }
   }
 
-  const updateItemStock = (id: string, stockStr: string) => {
-    const stock = Number(stockStr)
-    if (Number.isNaN(stock) || stock < 0) {
-      setBanner({ type: 'error', message: 'Stock must be 0 or above.' })
+  const closeStockModal = () => {
+    setStockModalItem(null)
+    setStockModalIngredient(null)
+  }
+
+  const updateStock = () => {
+    const value = Number(stockModalValue || 0)
+    if (Number.isNaN(value) || value < 0 || (stockModalMode !== 'adjust' && value === 0)) {
+      setBanner({
+        type: 'error',
+        message: stockModalMode === 'adjust' ? 'Stock must be 0 or above.' : 'Enter a quantity above 0.',
+      })
       return
     }
-    update(dbPath(`items/${id}`), { stock })
-      .then(() => setBanner({ type: 'success', message: 'Stock updated.' }))
+    const move = stockModalIngredient
+      ? moveStock('ingredients', stockModalIngredient, stockModalMode, value, stockModalNote.trim())
+      : stockModalItem
+        ? moveStock('items', stockModalItem, stockModalMode, value, stockModalNote.trim())
+        : null
+    if (!move) return
+    move
+      .then(() => {
+        closeStockModal()
+        setStockModalNote('')
+        setBanner({ type: 'success', message: 'Stock updated.' })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  // Sums every item's ledger and compares it with the stored count.
+  const checkStockDrift = () => {
+    get(dbPath('stockMoves'))
+      .then((snap) => {
+        const all = (snap.val() ?? {}) as Record<string, Record<string, { delta?: number }>>
+        setStockDrift(
+          items.map((item) => {
+            const moves = Object.values(all[item.id] ?? {})
+            const ledger = moves.reduce((sum, m) => sum + (m.delta ?? 0), 0)
+            return { item, ledger, moves: moves.length, drift: (item.stock ?? 0) - ledger }
+          })
+        )
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  // 'ledger' resets the count to what the ledger says; 'count' keeps the count and books the gap as an adjustment.
+  const resolveStockDrift = (row: StockDrift, keep: 'ledger' | 'count') => {
+    const time = new Date().toISOString()
+    const updates: Record<string, unknown> = {}
+    if (keep === 'ledger') {
+      updates[`items/${row.item.id}/stock`] = row.ledger
+    } else {
+      const moveKey = push(dbPath(`stockMoves/${row.item.id}`)).key
+      updates[`stockMoves/${row.item.id}/${moveKey}`] = {
+        kind: 'adjust',
+        delta: row.drift,
+        balance: row.item.stock ?? 0,
+        userId: currentUser?.id ?? 'system',
+        time,
+        note: row.moves === 0 ? 'Opening balance' : 'Reconciled with count',
+      }
+    }
+    update(ref(db, 'rms'), updates)
+      .then(() => {
+        setStockDrift((prev) => prev?.map((r) => (r.item.id === row.item.id ? { ...r, drift: 0 } : r)) ?? null)
+        setBanner({ type: 'success', message: `${row.item.name} reconciled.` })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time,
+          type: 'stock_reconcile',
+          detail: `${row.item.name}: ${keep === 'ledger' ? `count set to ${row.ledger}` : `${row.drift > 0 ? '+' : ''}${row.drift} booked`}`,
+        })
+      })
       .catch((err) => setBanner({ type: 'error', message: err.message }))
   }
 
   const exportReportCSV = () => {
-    const header = ['Period', 'Orders', 'Items', 'Sales', 'Paid', 'Loan', 'Pending']
-    const rows = reportRows.map((r) => [r.label, r.ordersCount, r.itemsCount, r.sales.toFixed(2), r.paid, r.loan, r.pending ?? 0])
-    const total = reportRows.reduce(
-      (acc, r) => ({
-        ordersCount: acc.ordersCount + r.ordersCount,
-        itemsCount: acc.itemsCount + r.itemsCount,
-        sales: acc.sales + r.sales,
-        paid: acc.paid + r.paid,
-        loan: acc.loan + r.loan,
-        pending: acc.pending + (r.pending ?? 0),
-      }),
-      { ordersCount: 0, itemsCount: 0, sales: 0, paid: 0, loan: 0, pending: 0 }
-    )
-    rows.push(['Total', total.ordersCount, total.itemsCount, total.sales.toFixed(2), total.paid, total.loan, total.pending])
-    const csv = [header, ...rows].map((r) => r.join(',')).join('\n')
+    const header = ['Period', ...REPORT_COLUMNS.map((c) => c.label)]
+    const rows: (string | number)[][] = reportRows.map((r) => [r.label, ...REPORT_COLUMNS.map((c) => reportCell(r, c))])
+    rows.push(['Total', ...REPORT_COLUMNS.map((c) => reportCell(reportTotals, c))])
+    if (itemProfit.length > 0) {
+      rows.push([])
+      rows.push(['Item', 'Qty', 'Net', 'Cost of goods', 'Gross profit', 'Margin'])
+      itemProfit.forEach((r) =>
+        rows.push([r.name, r.qty, r.net.toFixed(2), r.cogs.toFixed(2), r.profit.toFixed(2), `${r.margin.toFixed(1)}%`])
+      )
+    }
+    if (paymentBreakdown.length > 0) {
+      rows.push([])
+      rows.push(['Payment method', 'Payments', 'Amount'])
+      paymentBreakdown.forEach((p) => rows.push([PAYMENT_METHOD_LABEL[p.method] ?? p.method, p.count, p.amount.toFixed(2)]))
+    }
+    if (badDebt.count > 0) {
+      rows.push([])
+      rows.push(['Bad debt written off', 'Write-offs', 'Settlement discounts', 'Total'])
+      rows.push(['', badDebt.writeoff.toFixed(2), badDebt.settlement.toFixed(2), badDebt.total.toFixed(2)])
+    }
+    if (purchasesReport.rows.length > 0) {
+      rows.push([])
+      rows.push(['Supplier', 'Deliveries', 'Purchases'])
+      purchasesReport.rows.forEach((r) => rows.push([r.name, r.count, r.amount.toFixed(2)]))
+    }
+    if (ingredientUsage.length > 0) {
+      rows.push([])
+      rows.push(['Ingredient', 'Unit', 'Theoretical', 'Actual', 'Variance'])
+      ingredientUsage.forEach((u) =>
+        rows.push([u.ingredient.name, u.ingredient.unit, u.theoretical, u.actual, u.variance])
+      )
+    }
+    const csv = [header, ...rows].map((r) => r.map(csvCell).join(',')).join('\n')
     const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' })
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
@@ -541,40 +2136,55 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
     URL.revokeObjectURL(url)
   }
 
+  const exportAgingCSV = () => {
+    const header = ['Customer', 'Phone', ...AGING_BUCKETS.map((b) => `${b} days`), 'Total', 'Oldest (days)']
+    const rows: (string | number)[][] = agingRows.map((row) => [
+      `"${row.customer.name.replace(/"/g, '""')}"`,
+      row.customer.phone,
+      ...row.buckets.map((b) => b.toFixed(2)),
+      row.total.toFixed(2),
+      row.oldestDays,
+    ])
+    rows.push(['Total', '', ...agingTotals.map((b) => b.toFixed(2)), agingTotals.reduce((s, b) => s + b, 0).toFixed(2), ''])
+    const csv = [header, ...rows].map((r) => r.join(',')).join('\n')
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = 'loan-aging.csv'
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
   const printReport = () => {
     const win = window.open('', 'PRINT', 'height=600,width=800')
     if (!win) return
-    const tableRows = reportRows
+    const cells = (stats: ReportStats) =>
+      REPORT_COLUMNS.map((c) => `<td>${c.money ? '$' : ''}${reportCell(stats, c)}</td>`).join('')
+    const tableRows = reportRows.map((r) => `<tr><td>${r.label}</td>${cells(r)}</tr>`).join('')
+    const itemRows = itemProfit
       .map(
         (r) =>
-          `<tr><td>${r.label}</td><td>${r.ordersCount}</td><td>${r.itemsCount}</td><td>$${r.sales.toFixed(
-            2
-          )}</td><td>${r.paid}</td><td>${r.loan}</td><td>${r.pending}</td></tr>`
+          `<tr><td>${escapeHtml(r.name)}</td><td>${r.qty}</td><td>$${r.net.toFixed(2)}</td><td>$${r.cogs.toFixed(2)}</td><td>$${r.profit.toFixed(2)}</td><td>${r.margin.toFixed(1)}%</td></tr>`
       )
       .join('')
-    const total = reportRows.reduce(
-      (acc, r) => ({
-        ordersCount: acc.ordersCount + r.ordersCount,
-        itemsCount: acc.itemsCount + r.itemsCount,
-        sales: acc.sales + r.sales,
-        paid: acc.paid + r.paid,
-        loan: acc.loan + r.loan,
-        pending: acc.pending + r.pending,
-      }),
-      { ordersCount: 0, itemsCount: 0, sales: 0, paid: 0, loan: 0, pending: 0 }
-    )
     const html = `
       <html>
       <head><title>Reports</title></head>
       <body>
         <h2>Reports</h2>
         <table border="1" cellspacing="0" cellpadding="6">
-          <tr><th>Period</th><th>Orders</th><th>Items</th><th>Sales</th><th>Paid</th><th>Loan</th><th>Pending</th></tr>
+          <tr><th>Period</th>${REPORT_COLUMNS.map((c) => `<th>${c.label}</th>`).join('')}</tr>
           ${tableRows}
-          <tr><td><strong>Total</strong></td><td>${total.ordersCount}</td><td>${total.itemsCount}</td><td>$${total.sales.toFixed(
-            2
-          )}</td><td>${total.paid}</td><td>${total.loan}</td><td>${total.pending}</td></tr>
+          <tr><td><strong>Total</strong></td>${cells(reportTotals)}</tr>
         </table>
+        <h3>Profit by item</h3>
+        <table border="1" cellspacing="0" cellpadding="6">
+          <tr><th>Item</th><th>Qty</th><th>Net</th><th>Cost of goods</th><th>Gross profit</th><th>Margin</th></tr>
+          ${itemRows}
+        </table>
+        <p>Bad debt written off: $${badDebt.total.toFixed(2)}</p>
+        <p>Purchases received: $${purchasesReport.total.toFixed(2)}</p>
       </body>
       </html>
     `
@@ -585,33 +2195,273 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
     win.close()
   }
 
-  const closeOverlays = () => {
-    setWaiterModalOpen(false)
-    setPendingDelete(null)
-    setOpenAction(null)
-    setActionWaiter(null)
-    setActionType(null)
-    setActionRole('waiter')
-    setActionPin('')
-    setItemModalOpen(false)
-    setPendingItemDelete(null)
-    setItemActionItem(null)
-    setOpenItemAction(null)
-    setViewItem(null)
-    setViewOrder(null)
-    setOpenAction(null)
-    setNewWaiterRole('waiter')
-    setLoanCustomerModalOpen(false)
-    setLoanEntryModalOpen(false)
-    setLoanEntryCustomerId('')
-    setLoanEntryOrderId('')
-    setViewLoanCustomer(null)
-    setLoanStatusModalOpen(false)
+  const buildReceipt = (order: Order): ReceiptData => {
+    const b = orderBreakdown(order, itemsById)
+    return {
+      shopName: settings.receiptName || 'RestoDash',
+      shopAddress: settings.receiptAddress,
+      shopPhone: settings.receiptPhone,
+      footer: settings.receiptFooter,
+      orderId: order.id,
+      ticket: order.ticket,
+      time: formatDateTime(order.time),
+      waiter: usersById[order.waiterId]?.name ?? order.waiterId,
+      table: order.tableId ? tableLabel(order.tableId) : undefined,
+      lines: order.items.map((line) => ({
+        name: lineName(line, itemsById),
+        qty: line.qty,
+        unitPrice: lineUnitPrice(line),
+        total: lineUnitPrice(line) * line.qty,
+        extras: modifierLabel(line) || undefined,
+      })),
+      totals: [
+        { label: 'Subtotal', amount: b.gross },
+        ...(b.discount > 0 ? [{ label: 'Discount', amount: -b.discount }] : []),
+        ...(b.service > 0 ? [{ label: 'Service charge', amount: b.service }] : []),
+        ...(b.tax > 0 ? [{ label: settings.taxLabel || 'Tax', amount: b.tax }] : []),
+        { label: 'Total', amount: b.total, strong: true },
+      ],
+      status: order.status ?? 'pending',
+      paid: orderPaid(order),
+      balance: orderBalance(order),
+      collector: order.collector || undefined,
+      qrText: order.id,
+    }
+  }
+
+  const printReceipt = (order: Order) => {
+    // Open synchronously so the popup is tied to the click; the QR code renders asynchronously.
+    const win = window.open('', 'RECEIPT', 'height=600,width=400')
+    if (!win) return
+    receiptHtml(buildReceipt(order), settings.receiptWidth ?? 80)
+      .then((html) => {
+        win.document.write(html)
+        win.document.close()
+        win.focus()
+        win.print()
+        win.close()
+      })
+      .catch((err) => {
+        win.close()
+        setBanner({ type: 'error', message: err.message })
+      })
+  }
+
+  const printThermalReceipt = (order: Order) => {
+    const bytes = receiptEscPos(buildReceipt(order), settings.receiptWidth ?? 58)
+    sendToSerialPrinter(bytes)
+      .then((sent) => {
+        if (sent) {
+          setBanner({ type: 'success', message: 'Receipt sent to printer.' })
+          return
+        }
+        const url = URL.createObjectURL(new Blob([bytes], { type: 'application/octet-stream' }))
+        const a = document.createElement('a')
+        a.href = url
+        a.download = `${order.id}.bin`
+        a.click()
+        URL.revokeObjectURL(url)
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  const shareReceipt = (order: Order) => {
+    const text = receiptText(buildReceipt(order), settings.receiptWidth ?? 58)
+    const title = `${settings.receiptName || 'RestoDash'} ${order.id}`
+    if (navigator.share) {
+      navigator.share({ title, text }).catch((err) => {
+        if (err.name !== 'AbortError') setBanner({ type: 'error', message: err.message })
+      })
+      return
+    }
+    navigator.clipboard
+      .writeText(text)
+      .then(() => setBanner({ type: 'success', message: 'Receipt copied to clipboard.' }))
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  const statementFor = (customer: LoanCustomer) =>
+    buildStatement(
+      customer,
+      statementFrom,
+      statementTo,
+      (entry) => {
+        const order = orders.find((o) => o.id === entry.orderId)
+        const lines = order ? order.items.map((l) => `${l.qty}× ${lineName(l, itemsById)}`).join(', ') : ''
+        return [`${tr(language, 'servedBy')} ${entry.servedBy}`, lines].filter(Boolean).join(' · ')
+      },
+      {
+        repayment: tr(language, 'repayment'),
+        settled: tr(language, 'paidAtCounter'),
+        writeOff: tr(language, 'writtenOff'),
+        settlement: tr(language, 'settlementDiscount'),
+      }
+    )
+
+  const statementPeriod = () =>
+    `${statementFrom ? formatDate(statementFrom) : tr(language, 'start')} – ${
+      statementTo ? formatDate(statementTo) : formatDate(new Date().toISOString())
+    }`
+
+  const statementFileName = (customer: LoanCustomer, ext: string) =>
+    `statement-${customer.name.trim().replace(/\s+/g, '-').toLowerCase()}-${localDateKey(new Date())}.${ext}`
+
+  const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = fileName
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const printStatement = (customer: LoanCustomer) => {
+    const win = window.open('', 'PRINT', 'height=600,width=800')
+    if (!win) return
+    const st = statementFor(customer)
+    const t = (key: string) => tr(language, key)
+    const money = (value: number) => (value ? formatPrice(value) : '')
+    const rows = st.rows
+      .map(
+        (r) =>
+          `<tr><td>${formatDateTime(r.date)}</td><td>${escapeHtml(r.reference)}</td><td>${escapeHtml(r.detail)}</td><td>${money(
+            r.charge
+          )}</td><td>${money(r.payment)}</td><td>${formatPrice(r.balance)}</td></tr>`
+      )
+      .join('')
+    const html = `
+      <html>
+      <head><title>${t('statement')} - ${escapeHtml(customer.name)}</title></head>
+      <body>
+        <h2>${escapeHtml(settings.receiptName || 'RestoDash')} - ${t('statement')}</h2>
+        <p><strong>${escapeHtml(customer.name)}</strong> (${escapeHtml(customer.phone)})<br />${escapeHtml(
+          statementPeriod()
+        )}</p>
+        <table border="1" cellspacing="0" cellpadding="6">
+          <tr><th>${t('date')}</th><th>${t('reference')}</th><th>${t('details')}</th><th>${t('charge')}</th><th>${t(
+            'payment'
+          )}</th><th>${t('balance')}</th></tr>
+          <tr><td colspan="5"><strong>${t('openingBalance')}</strong></td><td>${formatPrice(st.opening)}</td></tr>
+          ${rows}
+          <tr><td colspan="3"><strong>${t('closingBalance')}</strong></td><td>${formatPrice(st.charges)}</td><td>${formatPrice(
+            st.payments
+          )}</td><td><strong>${formatPrice(st.closing)}</strong></td></tr>
+        </table>
+      </body>
+      </html>
+    `
+    win.document.write(html)
+    win.document.close()
+    win.focus()
+    win.print()
+    win.close()
+  }
+
+  const exportStatementCSV = (customer: LoanCustomer) => {
+    const st = statementFor(customer)
+    const t = (key: string) => tr(language, key)
+    const rows: (string | number)[][] = [
+      [customer.name, customer.phone, statementPeriod()],
+      [t('date'), t('reference'), t('details'), t('charge'), t('payment'), t('balance')],
+      ['', '', t('openingBalance'), '', '', st.opening.toFixed(2)],
+      ...st.rows.map((r) => [
+        r.date,
+        r.reference,
+        r.detail,
+        r.charge ? r.charge.toFixed(2) : '',
+        r.payment ? r.payment.toFixed(2) : '',
+        r.balance.toFixed(2),
+      ]),
+      ['', '', t('closingBalance'), st.charges.toFixed(2), st.payments.toFixed(2), st.closing.toFixed(2)],
+    ]
+    const csv = rows.map((r) => r.map(csvCell).join(',')).join('\n')
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), statementFileName(customer, 'csv'))
+  }
+
+  const exportStatementPDF = (customer: LoanCustomer) => {
+    const st = statementFor(customer)
+    const t = (key: string) => tr(language, key)
+    const amount = (value: number) => (value ? value.toFixed(2) : '').padStart(10)
+    const row = (date: string, ref: string, detail: string, charge: string, payment: string, balance: string) =>
+      `${date.padEnd(18)} ${ref.slice(0, 10).padEnd(10)} ${detail.slice(0, 28).padEnd(28)} ${charge} ${payment} ${balance}`
+    const lines = [
+      { text: `${settings.receiptName || 'RestoDash'} - ${t('statement')}`, bold: true },
+      { text: `${customer.name} (${customer.phone})` },
+      { text: statementPeriod() },
+      { text: '' },
+      {
+        text: row(t('date'), t('reference'), t('details'), t('charge').padStart(10), t('payment').padStart(10), t('balance').padStart(10)),
+        bold: true,
+      },
+      { text: row('', '', t('openingBalance'), ''.padStart(10), ''.padStart(10), amount(st.opening)) },
+      ...st.rows.map((r) => ({
+        text: row(formatDateTime(r.date), r.reference, r.detail, amount(r.charge), amount(r.payment), r.balance.toFixed(2).padStart(10)),
+      })),
+      {
+        text: row('', '', t('closingBalance'), amount(st.charges), amount(st.payments), st.closing.toFixed(2).padStart(10)),
+        bold: true,
+      },
+    ]
+    downloadBlob(textPdf(lines, `${t('statement')} - ${customer.name}`), statementFileName(customer, 'pdf'))
+  }
+
+  const closeOverlays = () => {
+    setWaiterModalOpen(false)
+    setPendingDelete(null)
+    setOpenAction(null)
+    setActionWaiter(null)
+    setActionType(null)
+    setActionRole('waiter')
+    setActionPin('')
+    setItemModalOpen(false)
+    setPendingItemDelete(null)
+    setItemActionItem(null)
+    setOpenItemAction(null)
+    setViewItem(null)
+    setViewOrder(null)
+    setOpenAction(null)
+    setNewWaiterRole('waiter')
+    setLoanCustomerModalOpen(false)
+    setLoanEntryModalOpen(false)
+    setLoanEntryCustomerId('')
+    setLoanEntryOrderId('')
+    setViewLoanCustomer(null)
+    setLoanStatusModalOpen(false)
     setLoanStatusOrderId('')
     setLoanStatusCustomerId('')
     setLoanStatusSearch('')
     setStockModalItem(null)
     setStockModalValue('0')
+    setStockModalNote('')
+    setStockModalIngredient(null)
+    setSupplierModalOpen(false)
+    setPaySupplier(null)
+    setSupplierPayAmount('')
+    setSupplierPayNote('')
+    setPurchaseModalOpen(false)
+    setReceivePurchase(null)
+    setReceiveLines([])
+    setModifierDrafts([])
+    setRecipeDrafts([])
+    setItemCostDraft('0')
+    setItemCostSource('manual')
+    setItemCategoryDraft('')
+    setItemImageFile(null)
+    setItemImageRemove(false)
+    setEditOrder(null)
+    setEditLines([])
+    setVoidOrder(null)
+    setVoidReason('')
+    setSyncModalOpen(false)
+    setRepayAmount('')
+    setRepayNote('')
+    setWriteOffAmount('')
+    setWriteOffReason('')
+    setLoanEditing(false)
+    setMergeLoanTargetId('')
+    setTableModalOpen(false)
+    setViewTable(null)
+    setMergeTargetId('')
   }
 
   useEffect(() => {
@@ -648,11 +2498,63 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
             name: item.name,
             price: item.price ?? 0,
             stock: item.stock ?? 0,
+            reorderLevel: item.reorderLevel ?? 0,
+            recipe: item.recipe ?? undefined,
+            cost: item.cost ?? undefined,
+            costSource: item.costSource ?? 'manual',
+            categoryId: item.categoryId ?? undefined,
+            imageUrl: item.imageUrl ?? undefined,
+            imagePath: item.imagePath ?? undefined,
+            unavailableOn: item.unavailableOn ?? undefined,
+            modifierGroups: asList(item.modifierGroups).map((group) => ({
+              ...group,
+              required: !!group.required,
+              multi: !!group.multi,
+              options: asList(group.options),
+            })),
           }))
         : []
       setItems(list)
     })
 
+    const unsubCategories = onValue(dbPath('categories'), (snap) => {
+      const val = snap.val() as Record<string, Omit<Category, 'id'>> | null
+      const list: Category[] = val
+        ? Object.entries(val).map(([id, cat]) => ({ id, name: cat.name, sort: cat.sort ?? 0 }))
+        : []
+      setCategories(list.sort((a, b) => a.sort - b.sort || a.name.localeCompare(b.name)))
+    })
+
+    const unsubSuppliers = onValue(dbPath('suppliers'), (snap) => {
+      const val = snap.val() as Record<string, Omit<Supplier, 'id'>> | null
+      const list: Supplier[] = val
+        ? Object.entries(val).map(([id, sup]) => ({ id, name: sup.name, phone: sup.phone ?? '', payments: sup.payments ?? {} }))
+        : []
+      setSuppliers(list.sort((a, b) => a.name.localeCompare(b.name)))
+    })
+
+    const unsubPurchaseOrders = onValue(dbPath('purchaseOrders'), (snap) => {
+      const val = snap.val() as Record<string, Omit<PurchaseOrder, 'id'>> | null
+      const list: PurchaseOrder[] = val
+        ? Object.entries(val).map(([id, po]) => ({ ...po, id, lines: po.lines ?? [] }))
+        : []
+      setPurchaseOrders(list.sort((a, b) => b.createdAt.localeCompare(a.createdAt)))
+    })
+
+    const unsubIngredients = onValue(dbPath('ingredients'), (snap) => {
+      const val = snap.val() as Record<string, Omit<Ingredient, 'id'>> | null
+      const list: Ingredient[] = val
+        ? Object.entries(val).map(([id, ing]) => ({
+            id,
+            name: ing.name,
+            unit: ing.unit ?? 'piece',
+            stock: ing.stock ?? 0,
+            cost: ing.cost ?? undefined,
+          }))
+        : []
+      setIngredients(list.sort((a, b) => a.name.localeCompare(b.name)))
+    })
+
     const unsubOrders = onValue(dbPath('orders'), (snap) => {
       const val = snap.val() as Record<string, any> | null
       const list: Order[] = val
@@ -660,15 +2562,38 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
             id: order.id ?? id,
             dbId: id,
             waiterId: order.waiterId ?? order.waiter_id,
+            tableId: order.tableId ?? order.table_id ?? undefined,
+            ticket: order.ticket ?? undefined,
             time: order.time ?? order.createdAt ?? new Date().toISOString(),
             status: order.status ?? 'pending',
             collector: order.collector ?? '',
             items: Array.isArray(order.items)
-              ? order.items
+              ? order.items.map((entry: OrderItem, idx: number) => ({ ...entry, key: String(idx) }))
               : Object.entries(order.items ?? {}).map(([itemId, record]: any) => ({
-                  itemId,
+                  key: itemId,
+                  itemId: record.itemId ?? itemId,
                   qty: record.qty ?? 0,
+                  unitPrice: record.unitPrice ?? undefined,
+                  unitCost: record.unitCost ?? undefined,
+                  name: record.name ?? undefined,
+                  note: record.note || undefined,
+                  modifiers: asList<OrderModifier>(record.modifiers),
+                  discount: record.discount ?? undefined,
+                  prep: record.prep ?? 'queued',
+                  prepAt: record.prepAt ?? {},
                 })),
+            payments: Object.entries((order.payments ?? {}) as Record<string, Omit<Payment, 'id'>>).map(
+              ([paymentId, payment]) => ({ id: paymentId, ...payment })
+            ),
+            discount: order.discount ?? undefined,
+            guests: order.guests ?? undefined,
+            taxRate: order.taxRate ?? 0,
+            serviceRate: order.serviceRate ?? 0,
+            readyAt: order.readyAt,
+            voidReason: order.voidReason,
+            voidedBy: order.voidedBy,
+            voidedAt: order.voidedAt,
+            loanCustomerId: order.loanCustomerId ?? undefined,
           }))
         : []
       setOrders(list.sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime()))
@@ -698,26 +2623,125 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
             name: cust.name,
             phone: cust.phone,
             loans: cust.loans ?? {},
+            repayments: cust.repayments ?? {},
+            writeOffs: cust.writeOffs ?? {},
+            creditLimit: cust.creditLimit ?? undefined,
+            maxDays: cust.maxDays ?? undefined,
+            blockOverLimit: !!cust.blockOverLimit,
+            language: cust.language ?? undefined,
+            lastReminderAt: cust.lastReminderAt ?? undefined,
+            archived: !!cust.archived,
+            mergedInto: cust.mergedInto ?? undefined,
           }))
         : []
       setLoanCustomers(list)
     })
 
+    const unsubTables = onValue(dbPath('tables'), (snap) => {
+      const val = snap.val() as Record<string, Omit<Table, 'id'>> | null
+      const list: Table[] = val
+        ? Object.entries(val).map(([id, table]) => ({
+            id,
+            number: table.number ?? 0,
+            area: table.area ?? 'Hall',
+            seats: table.seats ?? 0,
+            status: table.status ?? 'free',
+          }))
+        : []
+      setTables(list)
+    })
+
+    const unsubSettings = onValue(dbPath('settings'), (snap) => {
+      setSettings((snap.val() as Settings | null) ?? {})
+    })
+
+    const unsubOutbox = onValue(dbPath('outbox'), (snap) => {
+      const val = snap.val() as Record<string, Omit<OutboxMessage, 'id'>> | null
+      const list: OutboxMessage[] = val ? Object.entries(val).map(([id, m]) => ({ id, ...m })) : []
+      setOutbox(list.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()))
+    })
+
+    const unsubNotifications = currentUser
+      ? onValue(dbPath(`notifications/${currentUser.id}`), (snap) => {
+          const val = snap.val() as Record<string, Omit<StaffNotification, 'id'>> | null
+          const list: StaffNotification[] = val ? Object.entries(val).map(([id, n]) => ({ id, ...n })) : []
+          setNotifications(list.sort((a, b) => new Date(b.time).getTime() - new Date(a.time).getTime()))
+        })
+      : () => undefined
+
     return () => {
       unsubUsers()
       unsubItems()
+      unsubIngredients()
+      unsubCategories()
+      unsubSuppliers()
+      unsubPurchaseOrders()
       unsubOrders()
       unsubLogs()
       unsubLoanCustomers()
+      unsubTables()
+      unsubNotifications()
+      unsubSettings()
+      unsubOutbox()
     }
   }, [db, currentUser])
 
+  const viewItemId = viewItem?.id
+  useEffect(() => {
+    if (!viewItemId) return
+    return onValue(ref(db, `rms/stockMoves/${viewItemId}`), (snap) => {
+      const val = snap.val() as Record<string, Omit<StockMove, 'id'>> | null
+      const list: StockMove[] = val ? Object.entries(val).map(([id, m]) => ({ id, ...m })) : []
+      setItemMoves(list.sort((a, b) => b.time.localeCompare(a.time) || b.id.localeCompare(a.id)))
+    })
+  }, [db, viewItemId])
+
+  const watchIngredientMoves = tab === 'reports' && currentUser?.role === 'admin'
+  useEffect(() => {
+    if (!watchIngredientMoves) return
+    return onValue(ref(db, 'rms/ingredientMoves'), (snap) => {
+      const val = snap.val() as Record<string, Record<string, Omit<StockMove, 'id'>>> | null
+      setIngredientMoves(
+        Object.fromEntries(
+          Object.entries(val ?? {}).map(([ingredientId, moves]) => [
+            ingredientId,
+            Object.entries(moves).map(([id, m]) => ({ id, ...m })),
+          ])
+        )
+      )
+    })
+  }, [db, watchIngredientMoves])
+
+  // Once a day, the first admin session sends whatever reminders are due.
+  useEffect(() => {
+    if (currentUser?.role !== 'admin' || !settings.reminderAuto || loanCustomers.length === 0) return
+    if (settings.remindersLastRun === localDateKey(new Date())) return
+    remindersRef.current(true)
+  }, [currentUser, settings.reminderAuto, settings.remindersLastRun, loanCustomers.length])
+
+  useEffect(() => {
+    listQueued<OfflineAction>()
+      .then(setSyncQueue)
+      .catch(() => null)
+    return onValue(ref(db, '.info/connected'), (snap) => {
+      const online = snap.val() === true
+      setConnected(online)
+      if (online) replayRef.current()
+    })
+  }, [db])
+
   useEffect(() => {
     if (!banner) return
     const timer = setTimeout(() => setBanner(null), 5000)
     return () => clearTimeout(timer)
   }, [banner])
 
+  useEffect(() => {
+    if (tab !== 'kitchen') return
+    const timer = setInterval(() => setClock(Date.now()), 30000)
+    return () => clearInterval(timer)
+  }, [tab])
+
   useEffect(() => {
     if (!profileOpen) return
     const handler = (e: MouseEvent) => {
@@ -745,7 +2769,7 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
       if (found) {
         setCurrentUser(found)
         if (found.role === 'waiter') setDraftWaiter(found.id)
-        setTab(found.role === 'waiter' || found.role === 'collector' ? 'orders' : 'dash')
+        setTab(homeTab(found.role))
       }
     } catch {
       localStorage.removeItem(SESSION_KEY)
@@ -764,11 +2788,331 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
     })
   }
 
+  const openCustomize = (item: Item) => {
+    setCustomizeItem(item)
+    setCustomizeQty(1)
+    setCustomizeNote('')
+    setCustomizeChoice({})
+    setCustomizeDiscountType('percent')
+    setCustomizeDiscountValue('')
+    setCustomizeDiscountReason('')
+  }
+
+  const readDiscount = (type: Discount['type'], valueStr: string, reasonStr: string): Discount | null | undefined => {
+    const value = Number(valueStr)
+    if (!valueStr.trim() || value === 0) return undefined
+    if (Number.isNaN(value) || value < 0 || (type === 'percent' && value > 100)) {
+      setBanner({ type: 'error', message: 'Discount must be a positive amount, or 0–100 for a percentage.' })
+      return null
+    }
+    if (!reasonStr.trim()) {
+      setBanner({ type: 'error', message: 'Give a reason for the discount.' })
+      return null
+    }
+    return { type, value, reason: reasonStr.trim() }
+  }
+
+  const toggleModifier = (group: ModifierGroup, optionId: string) => {
+    setCustomizeChoice((prev) => {
+      const current = prev[group.id] ?? []
+      if (!group.multi) return { ...prev, [group.id]: current[0] === optionId && !group.required ? [] : [optionId] }
+      const next = current.includes(optionId) ? current.filter((id) => id !== optionId) : [...current, optionId]
+      return { ...prev, [group.id]: next }
+    })
+  }
+
+  const addCustomLine = () => {
+    if (!customizeItem) return
+    const groups = customizeItem.modifierGroups ?? []
+    const missing = groups.find((g) => g.required && (customizeChoice[g.id] ?? []).length === 0)
+    if (missing) {
+      setBanner({ type: 'error', message: `Choose an option for ${missing.name}.` })
+      return
+    }
+    const stock = typeof customizeItem.stock === 'number' ? customizeItem.stock : Infinity
+    if (draftItemQty(customizeItem.id) + customizeQty > stock) {
+      setBanner({ type: 'error', message: `Only ${stock} ${customizeItem.name} left.` })
+      return
+    }
+    const discount = readDiscount(customizeDiscountType, customizeDiscountValue, customizeDiscountReason)
+    if (discount === null) return
+    const modifiers: OrderModifier[] = groups.flatMap((g) =>
+      g.options
+        .filter((o) => (customizeChoice[g.id] ?? []).includes(o.id))
+        .map((o) => ({ groupId: g.id, optionId: o.id, name: o.name, price: o.price }))
+    )
+    const line: DraftLine = {
+      key: `${customizeItem.id}_m${Date.now()}`,
+      itemId: customizeItem.id,
+      qty: customizeQty,
+      note: customizeNote.trim() || undefined,
+      modifiers,
+      discount,
+    }
+    setDraftLines((prev) => [...prev, line])
+    setCustomizeItem(null)
+  }
+
+  // Applies stock deltas in one transaction so two devices cannot sell the same last unit.
+  const adjustStock = (deltas: Record<string, number>, movement: Pick<StockMove, 'kind' | 'orderRef' | 'note'>) => {
+    const shortage: { itemId?: string; left?: number } = {}
+    const before: Record<string, number> = {}
+    return runTransaction(dbPath('items'), (current: Record<string, { stock?: number }> | null) => {
+      delete shortage.itemId
+      Object.keys(before).forEach((key) => delete before[key])
+      if (!current) return current
+      for (const [itemId, delta] of Object.entries(deltas)) {
+        const stock = current[itemId]?.stock
+        if (delta === 0 || typeof stock !== 'number') continue
+        if (stock + delta < 0) {
+          shortage.itemId = itemId
+          shortage.left = stock
+          return undefined
+        }
+        before[itemId] = stock
+        current[itemId].stock = stock + delta
+      }
+      return current
+    }).then((result) => {
+      if (result.committed) {
+        const after = (result.snapshot.val() ?? {}) as Record<string, { name?: string; stock?: number; reorderLevel?: number }>
+        recordStockMoves('stockMoves', before, after, movement)
+        alertLowStock(before, after)
+        return
+      }
+      const name = itemsById[shortage.itemId ?? '']?.name ?? shortage.itemId
+      throw new Error(
+        shortage.itemId ? `Only ${shortage.left} ${name} left. Adjust the order and try again.` : 'Stock changed. Try again.'
+      )
+    })
+  }
+
+  // Same as adjustStock for the ingredient catalogue; the caller rolls back item stock if this fails.
+  const adjustIngredients = (deltas: Record<string, number>, movement: Pick<StockMove, 'kind' | 'orderRef' | 'note'>) => {
+    if (Object.keys(deltas).length === 0) return Promise.resolve()
+    const shortage: { id?: string; left?: number } = {}
+    const before: Record<string, number> = {}
+    return runTransaction(dbPath('ingredients'), (current: Record<string, { stock?: number }> | null) => {
+      delete shortage.id
+      Object.keys(before).forEach((key) => delete before[key])
+      if (!current) return current
+      for (const [id, delta] of Object.entries(deltas)) {
+        const stock = current[id]?.stock
+        if (delta === 0 || typeof stock !== 'number') continue
+        if (roundQty(stock + delta) < 0) {
+          shortage.id = id
+          shortage.left = stock
+          return undefined
+        }
+        before[id] = stock
+        current[id].stock = roundQty(stock + delta)
+      }
+      return current
+    }).then((result) => {
+      if (result.committed) {
+        recordStockMoves('ingredientMoves', before, (result.snapshot.val() ?? {}) as Record<string, { stock?: number }>, movement)
+        return
+      }
+      const ingredient = ingredientsById[shortage.id ?? '']
+      throw new Error(
+        ingredient
+          ? `Not enough ${ingredient.name}: ${shortage.left} ${ingredient.unit} left. Adjust the order and try again.`
+          : 'Ingredient stock changed. Try again.'
+      )
+    })
+  }
+
+  // Items first, then their ingredients, undoing the items if the ingredients are short.
+  const reserveStock = (deltas: Record<string, number>, usage: Record<string, number>, movement: Pick<StockMove, 'kind' | 'orderRef' | 'note'>) =>
+    adjustStock(deltas, movement).then(() =>
+      adjustIngredients(usage, movement).catch((err) =>
+        adjustStock(negate(deltas), { ...movement, note: 'Ingredients short' })
+          .catch(() => null)
+          .then(() => Promise.reject(err))
+      )
+    )
+
+  // The transaction on items cannot also write the ledger, so moves follow it using the committed balances.
+  const recordStockMoves = (
+    ledger: 'stockMoves' | 'ingredientMoves',
+    before: Record<string, number>,
+    after: Record<string, { stock?: number }>,
+    movement: Pick<StockMove, 'kind' | 'orderRef' | 'note'>
+  ) => {
+    const time = new Date().toISOString()
+    const updates: Record<string, unknown> = {}
+    Object.entries(before).forEach(([itemId, was]) => {
+      const balance = after[itemId]?.stock ?? 0
+      const moveKey = push(dbPath(`${ledger}/${itemId}`)).key
+      updates[`${ledger}/${itemId}/${moveKey}`] = {
+        kind: movement.kind,
+        delta: roundQty(balance - was),
+        balance,
+        userId: currentUser?.id ?? 'system',
+        time,
+        ...(movement.orderRef ? { orderRef: movement.orderRef } : {}),
+        ...(movement.note ? { note: movement.note } : {}),
+      }
+    })
+    if (Object.keys(updates).length > 0) update(ref(db, 'rms'), updates).catch(() => null)
+  }
+
+  // Restock, waste and counts go through a transaction on the one item so a sale in between is not lost.
+  const moveStock = (
+    collection: 'items' | 'ingredients',
+    target: { id: string; name: string },
+    kind: 'restock' | 'waste' | 'adjust',
+    value: number,
+    note = ''
+  ) => {
+    const ledger = collection === 'items' ? 'stockMoves' : 'ingredientMoves'
+    let was = 0
+    return runTransaction(dbPath(`${collection}/${target.id}/stock`), (current: number | null) => {
+      was = current ?? 0
+      const next = roundQty(kind === 'adjust' ? value : kind === 'restock' ? was + value : was - value)
+      return next < 0 ? undefined : next
+    }).then((result) => {
+      if (!result.committed) throw new Error(`Only ${was} ${target.name} in stock.`)
+      const balance = result.snapshot.val() as number
+      if (balance === was) return
+      const moveKey = push(dbPath(`${ledger}/${target.id}`)).key
+      return set(dbPath(`${ledger}/${target.id}/${moveKey}`), {
+        kind,
+        delta: roundQty(balance - was),
+        balance,
+        userId: currentUser?.id ?? 'system',
+        time: new Date().toISOString(),
+        ...(note ? { note } : {}),
+      })
+    })
+  }
+
+  // Tells admins when a sale takes an item to or under its reorder level. Restocks and returns never alert.
+  const alertLowStock = (
+    before: Record<string, number>,
+    after: Record<string, { name?: string; stock?: number; reorderLevel?: number }>
+  ) => {
+    const crossed = Object.entries(before).filter(([itemId, was]) => {
+      const level = after[itemId]?.reorderLevel ?? 0
+      const now = after[itemId]?.stock ?? 0
+      return now < was && was > level && now <= level
+    })
+    if (crossed.length === 0) return
+    const time = new Date().toISOString()
+    const updates: Record<string, unknown> = {}
+    crossed.forEach(([itemId]) => {
+      const { name = itemId, stock = 0, reorderLevel = 0 } = after[itemId]
+      const message = stock === 0 ? `${name} is out of stock.` : `${name} is low: ${stock} left (reorder at ${reorderLevel}).`
+      users
+        .filter((u) => u.role === 'admin')
+        .forEach((admin) => {
+          const noticeKey = push(dbPath(`notifications/${admin.id}`)).key
+          updates[`notifications/${admin.id}/${noticeKey}`] = { itemId, message, time, read: false }
+        })
+      addLog({ userId: currentUser?.id ?? 'system', time, type: 'low_stock', detail: `${name} (${stock})` })
+    })
+    if (Object.keys(updates).length > 0) update(ref(db, 'rms'), updates).catch(() => null)
+  }
+
+  const negate = (qtyByItem: Record<string, number>) =>
+    Object.fromEntries(Object.entries(qtyByItem).map(([itemId, qty]) => [itemId, -qty]))
+
+  const claimOrderNumbers = (): Promise<{ orderId: string; ticket: number | null }> => {
+    const seed = highestOrderNumber()
+    return runTransaction(dbPath('counters/orders'), (current: number | null) =>
+      (typeof current === 'number' ? current : seed) + 1
+    ).then((result) => {
+      const orderId = formatOrderId(result.snapshot.val() as number)
+      if (!settings.dailyTickets) return { orderId, ticket: null }
+      return runTransaction(dbPath(`counters/tickets/${localDateKey(new Date())}`), (current: number | null) =>
+        (current ?? 0) + 1
+      ).then((ticketResult) => ({ orderId, ticket: ticketResult.snapshot.val() as number }))
+    })
+  }
+
+  // Push keys are generated on the device and sort in creation order, even within the same millisecond.
+  const offlineMeta = (label: string) => ({
+    id: String(push(dbPath('offline')).key),
+    createdAt: new Date().toISOString(),
+    userId: currentUser?.id ?? 'system',
+    label,
+  })
+
+  const refreshSyncQueue = () =>
+    listQueued<OfflineAction>()
+      .then(setSyncQueue)
+      .catch(() => null)
+
+  const queueOffline = (action: OfflineAction) =>
+    putQueued(action)
+      .then(() => {
+        refreshSyncQueue()
+        setBanner({ type: 'success', message: 'You are offline. Saved on this device and will sync when the connection is back.' })
+      })
+      .catch((err) => setBanner({ type: 'error', message: `Could not save offline: ${err.message}` }))
+
+  // Shared by the live path and offline replay: reserve stock, claim numbers, then write the order.
+  // Offline replays pass the progress saved by an earlier attempt and a way to save each new step.
+  const submitOrder = (
+    queued: QueuedOrder,
+    progress: OrderProgress = {},
+    saveProgress: (progress: OrderProgress) => Promise<unknown> = () => Promise.resolve()
+  ) => {
+    let done = progress
+    const mark = (step: OrderProgress) => {
+      done = { ...done, ...step }
+      return saveProgress(done)
+    }
+    const reserved = done.stockReserved
+      ? Promise.resolve()
+      : reserveStock(negate(queued.qtyByItem), negate(queued.ingredientUse ?? {}), {
+          kind: 'sale',
+          orderRef: queued.orderKey,
+        }).then(() => mark({ stockReserved: true }))
+    return reserved.then(() =>
+      (done.numbers ? Promise.resolve(done.numbers) : claimOrderNumbers().then((numbers) => mark({ numbers }).then(() => numbers)))
+        .then(({ orderId, ticket }) => {
+          const updates: Record<string, unknown> = {
+            [`orders/${queued.orderKey}`]: {
+              id: orderId,
+              ticket,
+              waiter_id: queued.waiterId,
+              table_id: queued.tableId || null,
+              time: queued.time,
+              status: 'pending',
+              collector: '',
+              items: queued.items,
+              discount: queued.discount,
+              guests: queued.guests,
+              taxRate: queued.taxRate,
+              serviceRate: queued.serviceRate,
+            },
+          }
+          if (queued.tableId && tablesById[queued.tableId]?.status === 'free') {
+            updates[`tables/${queued.tableId}/status`] = 'occupied'
+          }
+          return update(ref(db, 'rms'), updates).then(() => ({ orderId, ticket }))
+        })
+        .catch((err) =>
+          // The order never landed, so hand the reserved units back before surfacing the error.
+          reserveStock(queued.qtyByItem, queued.ingredientUse ?? {}, {
+            kind: 'sale',
+            orderRef: queued.orderKey,
+            note: 'Order not saved',
+          })
+            .then(() => mark({ stockReserved: false }))
+            .catch(() => null)
+            .then(() => Promise.reject(err))
+        )
+    )
+  }
+
   const handleCreateOrder = () => {
     setBanner(null)
-    const selected = Object.entries(draftQty)
+    const plain: DraftLine[] = Object.entries(draftQty)
       .filter(([, qty]) => qty > 0)
-      .map(([itemId, qty]) => ({ itemId, qty }))
+      .map(([itemId, qty]) => ({ key: itemId, itemId, qty }))
+    const selected = [...plain, ...draftLines]
 
     if (!draftWaiter) {
       setBanner({ type: 'error', message: 'Pick a waiter to assign the order.' })
@@ -778,38 +3122,72 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
       setBanner({ type: 'error', message: 'Add at least one item before submitting.' })
       return
     }
+    const today = localDateKey(new Date())
+    const unavailable = selected.find((s) => itemsById[s.itemId] && !isAvailableOn(itemsById[s.itemId], today))
+    if (unavailable) {
+      setBanner({ type: 'error', message: `${itemsById[unavailable.itemId].name} is not available today.` })
+      return
+    }
+    const discount = readDiscount(draftDiscountType, draftDiscountValue, draftDiscountReason)
+    if (discount === null) return
 
-    const orderRef = push(dbPath('orders'))
-    const orderId = nextOrderId()
-    const itemsMap: Record<string, { qty: number }> = {}
+    const itemsMap: QueuedOrder['items'] = {}
     selected.forEach((s) => {
-      itemsMap[s.itemId] = { qty: s.qty }
+      const snapshot = {
+        unitPrice: itemsById[s.itemId]?.price ?? 0,
+        unitCost: itemUnitCost(itemsById[s.itemId], ingredientsById),
+        name: itemsById[s.itemId]?.name ?? s.itemId,
+      }
+      itemsMap[s.key] =
+        s.key === s.itemId
+          ? { qty: s.qty, ...snapshot }
+          : {
+              itemId: s.itemId,
+              qty: s.qty,
+              ...snapshot,
+              ...(s.note ? { note: s.note } : {}),
+              modifiers: s.modifiers ?? [],
+              ...(s.discount ? { discount: s.discount } : {}),
+            }
     })
-    const stockUpdates = selected
-      .map(({ itemId, qty }) => {
-        const currentStock = itemsById[itemId]?.stock
-        if (typeof currentStock !== 'number') return null
-        const next = Math.max(0, currentStock - qty)
-        return { itemId, next }
-      })
-      .filter(Boolean) as { itemId: string; next: number }[]
-
-    const payload = {
-      id: orderId,
-      waiter_id: draftWaiter,
+    const queued: QueuedOrder = {
+      orderKey: String(push(dbPath('orders')).key),
+      waiterId: draftWaiter,
+      tableId: draftTable,
       time: new Date().toISOString(),
-      status: 'pending',
-      collector: '',
       items: itemsMap,
+      qtyByItem: qtyPerItem(selected),
+      ingredientUse: recipeUsage(qtyPerItem(selected), itemsById),
+      discount: discount ?? null,
+      guests: draftGuestCount || null,
+      taxRate: settings.taxRate ?? 0,
+      serviceRate: draftServiceRate,
+    }
+    const resetDraft = () => {
+      setDraftQty({})
+      setDraftLines([])
+      setDraftTable('')
+      setDraftDiscountValue('')
+      setDraftDiscountReason('')
+      setDraftGuests('')
+      setShowOrderModal(false)
     }
 
-    set(orderRef, payload)
-      .then(() => {
-        const updates = stockUpdates.map(({ itemId, next }) => update(dbPath(`items/${itemId}`), { stock: next }))
-        return Promise.all(updates).then(() => {
-          setDraftQty({})
-          setShowOrderModal(false)
-          setBanner({ type: 'success', message: 'Order captured and stock updated.' })
+    if (!connected) {
+      const count = Object.values(queued.qtyByItem).reduce((sum, qty) => sum + qty, 0)
+      const waiter = usersById[draftWaiter]?.name ?? draftWaiter
+      queueOffline({ ...offlineMeta(`New order · ${count} items · ${waiter}`), kind: 'order_create', order: queued }).then(
+        resetDraft
+      )
+      return
+    }
+
+    submitOrder(queued)
+      .then(({ orderId, ticket }) => {
+        resetDraft()
+        setBanner({
+          type: 'success',
+          message: ticket ? `Ticket #${ticket} (${orderId}) captured.` : `Order ${orderId} captured and stock updated.`,
         })
       })
       .catch((err) => setBanner({ type: 'error', message: err.message }))
@@ -847,6 +3225,103 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
       .catch((err) => setBanner({ type: 'error', message: err.message }))
   }
 
+  const readModifierDrafts = (): ModifierGroup[] | null => {
+    const groups = modifierDrafts
+      .filter((d) => d.name.trim() || d.optionsText.trim())
+      .map((d) => ({
+        id: d.id,
+        name: d.name.trim(),
+        required: d.required,
+        multi: d.multi,
+        options: parseModifierOptions(d.optionsText),
+      }))
+    const invalid = groups.find((g) => !g.name || g.options.length === 0 || g.options.some((o) => !o.name))
+    if (invalid) {
+      setBanner({ type: 'error', message: 'Each modifier group needs a name and at least one option.' })
+      return null
+    }
+    return groups
+  }
+
+  const readRecipeDrafts = (): Record<string, number> | null => {
+    const recipe: Record<string, number> = {}
+    for (const d of recipeDrafts) {
+      if (!d.ingredientId) continue
+      const qty = Number(d.qty)
+      if (Number.isNaN(qty) || qty <= 0) {
+        setBanner({ type: 'error', message: `Enter a quantity above 0 for ${ingredientsById[d.ingredientId]?.name ?? 'each ingredient'}.` })
+        return null
+      }
+      recipe[d.ingredientId] = roundQty((recipe[d.ingredientId] ?? 0) + qty)
+    }
+    return recipe
+  }
+
+  const readItemCost = (recipe: Record<string, number>): Pick<Item, 'cost' | 'costSource'> | null => {
+    if (itemCostSource === 'recipe') {
+      if (Object.keys(recipe).length === 0) {
+        setBanner({ type: 'error', message: 'Add a recipe before costing the item from it.' })
+        return null
+      }
+      return { cost: itemUnitCost({ id: '', name: '', price: 0, recipe, costSource: 'recipe' }, ingredientsById), costSource: 'recipe' }
+    }
+    const cost = roundMoney(Number(itemCostDraft || 0))
+    if (Number.isNaN(cost) || cost < 0) {
+      setBanner({ type: 'error', message: 'Provide a cost 0 or above.' })
+      return null
+    }
+    return { cost, costSource: itemCostSource }
+  }
+
+  const addIngredient = () => {
+    const name = newIngredientName.trim()
+    const stock = Number(newIngredientStock || 0)
+    if (!name) {
+      setBanner({ type: 'error', message: 'Provide an ingredient name.' })
+      return
+    }
+    if (ingredients.some((i) => i.name.toLowerCase() === name.toLowerCase())) {
+      setBanner({ type: 'error', message: `${name} is already in the ingredient list.` })
+      return
+    }
+    if (Number.isNaN(stock) || stock < 0) {
+      setBanner({ type: 'error', message: 'Provide a stock 0 or above.' })
+      return
+    }
+    const ingredientKey = push(dbPath('ingredients')).key
+    const updates: Record<string, unknown> = {
+      [`ingredients/${ingredientKey}`]: { name, unit: newIngredientUnit, stock: roundQty(stock) },
+    }
+    if (stock > 0) {
+      const moveKey = push(dbPath(`ingredientMoves/${ingredientKey}`)).key
+      updates[`ingredientMoves/${ingredientKey}/${moveKey}`] = {
+        kind: 'restock',
+        delta: roundQty(stock),
+        balance: roundQty(stock),
+        userId: currentUser?.id ?? 'system',
+        time: new Date().toISOString(),
+        note: 'Opening stock',
+      }
+    }
+    update(ref(db, 'rms'), updates)
+      .then(() => {
+        setNewIngredientName('')
+        setNewIngredientStock('0')
+        setBanner({ type: 'success', message: 'Ingredient added.' })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: new Date().toISOString(),
+          type: 'ingredient_add',
+          detail: `${name} (${newIngredientUnit})`,
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  const updateModifierDraft = (id: string, patch: Partial<ModifierGroupDraft>) => {
+    setModifierDrafts((prev) => prev.map((d) => (d.id === id ? { ...d, ...patch } : d)))
+  }
+
   const addItem = () => {
     setBanner(null)
     if (!newItemName.trim()) {
@@ -855,6 +3330,7 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
     }
     const price = Number(newItemPrice)
     const stock = Number(newItemStock)
+    const reorderLevel = Number(newItemReorder || 0)
     if (Number.isNaN(price) || price <= 0) {
       setBanner({ type: 'error', message: 'Provide a valid price above 0.' })
       return
@@ -863,12 +3339,56 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
       setBanner({ type: 'error', message: 'Provide a stock 0 or above.' })
       return
     }
-    const newItem = { name: newItemName.trim(), price, stock }
-    push(dbPath('items'), newItem)
+    if (Number.isNaN(reorderLevel) || reorderLevel < 0) {
+      setBanner({ type: 'error', message: 'Provide a reorder level 0 or above.' })
+      return
+    }
+    const modifierGroups = readModifierDrafts()
+    if (!modifierGroups) return
+    const recipe = readRecipeDrafts()
+    if (!recipe) return
+    const costing = readItemCost(recipe)
+    if (!costing) return
+    const newItem = {
+      name: newItemName.trim(),
+      price,
+      stock,
+      reorderLevel,
+      modifierGroups,
+      recipe,
+      ...costing,
+      ...(itemCategoryDraft ? { categoryId: itemCategoryDraft } : {}),
+    }
+    const itemKey = String(push(dbPath('items')).key)
+    const updates: Record<string, unknown> = { [`items/${itemKey}`]: newItem }
+    if (stock > 0) {
+      const moveKey = push(dbPath(`stockMoves/${itemKey}`)).key
+      updates[`stockMoves/${itemKey}/${moveKey}`] = {
+        kind: 'restock',
+        delta: stock,
+        balance: stock,
+        userId: currentUser?.id ?? 'system',
+        time: new Date().toISOString(),
+        note: 'Opening stock',
+      }
+    }
+    const upload = itemImageFile ? uploadItemImage(itemKey, itemImageFile) : Promise.resolve(null)
+    upload
+      .then((image) => {
+        if (image) updates[`items/${itemKey}`] = { ...newItem, imageUrl: image.url, imagePath: image.path }
+        return update(ref(db, 'rms'), updates)
+      })
       .then(() => {
         setNewItemName('')
         setNewItemPrice('0')
         setNewItemStock('0')
+        setNewItemReorder('0')
+        setModifierDrafts([])
+        setRecipeDrafts([])
+        setItemCostDraft('0')
+        setItemCostSource('manual')
+        setItemCategoryDraft('')
+        setItemImageFile(null)
         setItemModalOpen(false)
         setBanner({ type: 'success', message: 'Item added.' })
         addLog({
@@ -886,6 +3406,7 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
     const name = itemActionName.trim()
     const price = Number(itemActionPrice)
     const stock = Number(itemActionStock)
+    const reorderLevel = Number(itemActionReorder || 0)
     if (!name) {
       setBanner({ type: 'error', message: 'Provide an item name.' })
       return
@@ -898,7 +3419,41 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
       setBanner({ type: 'error', message: 'Provide a stock 0 or above.' })
       return
     }
-    update(dbPath(`items/${itemActionItem.id}`), { name, price, stock })
+    if (Number.isNaN(reorderLevel) || reorderLevel < 0) {
+      setBanner({ type: 'error', message: 'Provide a reorder level 0 or above.' })
+      return
+    }
+    const modifierGroups = readModifierDrafts()
+    if (!modifierGroups) return
+    const recipe = readRecipeDrafts()
+    if (!recipe) return
+    const costing = readItemCost(recipe)
+    if (!costing) return
+    const item = itemActionItem
+    const patch: Record<string, unknown> = {
+      name,
+      price,
+      reorderLevel,
+      modifierGroups,
+      recipe,
+      ...costing,
+      categoryId: itemCategoryDraft || null,
+    }
+    if (itemImageRemove) {
+      patch.imageUrl = null
+      patch.imagePath = null
+    }
+    const upload = itemImageFile ? uploadItemImage(item.id, itemImageFile) : Promise.resolve(null)
+    upload
+      .then((image) => {
+        if (image) {
+          patch.imageUrl = image.url
+          patch.imagePath = image.path
+        }
+        return update(dbPath(`items/${item.id}`), patch)
+      })
+      .then(() => (patch.imagePath !== undefined ? deleteItemImage(item.imagePath) : undefined))
+      .then(() => (stock === (item.stock ?? 0) ? undefined : moveStock('items', item, 'adjust', stock, 'Edited item')))
       .then(() => {
         setItemActionItem(null)
         setOpenItemAction(null)
@@ -913,24 +3468,201 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
       .catch((err) => setBanner({ type: 'error', message: err.message }))
   }
 
-  const deleteItem = (id: string) => {
-    const name = itemsById[id]?.name ?? id
-    remove(dbPath(`items/${id}`))
+  const addCategory = () => {
+    const name = newCategoryName.trim()
+    if (!name) {
+      setBanner({ type: 'error', message: 'Provide a category name.' })
+      return
+    }
+    if (categories.some((c) => c.name.toLowerCase() === name.toLowerCase())) {
+      setBanner({ type: 'error', message: `${name} is already a category.` })
+      return
+    }
+    const sort = categories.reduce((max, c) => Math.max(max, c.sort), 0) + 1
+    push(dbPath('categories'), { name, sort })
       .then(() => {
-        setBanner({ type: 'success', message: 'Item removed.' })
-        addLog({
-          userId: currentUser?.id ?? 'system',
-          time: new Date().toISOString(),
-          type: 'item_delete',
-          detail: name,
-        })
+        setNewCategoryName('')
+        setBanner({ type: 'success', message: 'Category added.' })
+        addLog({ userId: currentUser?.id ?? 'system', time: new Date().toISOString(), type: 'category_add', detail: name })
       })
       .catch((err) => setBanner({ type: 'error', message: err.message }))
   }
 
-  const addLoanCustomer = () => {
-    if (!newLoanCustomerName.trim() || !newLoanCustomerPhone.trim()) {
-      setBanner({ type: 'error', message: 'Provide name and phone for loan customer.' })
+  // Swaps sort values with the neighbour; renumbers first in case older categories share a value.
+  const moveCategory = (category: Category, step: -1 | 1) => {
+    const idx = categories.findIndex((c) => c.id === category.id)
+    const other = categories[idx + step]
+    if (!other) return
+    const updates: Record<string, unknown> = {}
+    categories.forEach((c, i) => {
+      const position = c.id === category.id ? idx + step : c.id === other.id ? idx : i
+      updates[`categories/${c.id}/sort`] = position + 1
+    })
+    update(ref(db, 'rms'), updates).catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  // Items in a deleted category stay on the menu, uncategorised.
+  const deleteCategory = (category: Category) => {
+    const updates: Record<string, unknown> = { [`categories/${category.id}`]: null }
+    items
+      .filter((item) => item.categoryId === category.id)
+      .forEach((item) => {
+        updates[`items/${item.id}/categoryId`] = null
+      })
+    update(ref(db, 'rms'), updates)
+      .then(() => {
+        if (itemCategoryFilter === category.id) setItemCategoryFilter('')
+        if (orderCategory === category.id) setOrderCategory('')
+        setBanner({ type: 'success', message: `${category.name} removed.` })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: new Date().toISOString(),
+          type: 'category_delete',
+          detail: category.name,
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  const toggleItemAvailable = (item: Item) => {
+    const today = localDateKey(new Date())
+    const available = !isAvailableOn(item, today)
+    update(dbPath(`items/${item.id}`), { unavailableOn: available ? null : today })
+      .then(() =>
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: new Date().toISOString(),
+          type: available ? 'item_available' : 'item_unavailable',
+          detail: item.name,
+        })
+      )
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  const deleteItem = (id: string) => {
+    const name = itemsById[id]?.name ?? id
+    const imagePath = itemsById[id]?.imagePath
+    remove(dbPath(`items/${id}`))
+      .then(() => deleteItemImage(imagePath))
+      .then(() => {
+        setBanner({ type: 'success', message: 'Item removed.' })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: new Date().toISOString(),
+          type: 'item_delete',
+          detail: name,
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  const findLoanCustomerByPhone = (phone: string, exceptId?: string) => {
+    const normalized = normalizePhone(phone)
+    if (!normalized) return undefined
+    return loanCustomers.find((c) => c.id !== exceptId && !c.mergedInto && normalizePhone(c.phone) === normalized)
+  }
+
+  const startLoanCustomerEdit = (customer: LoanCustomer) => {
+    setLoanEditName(customer.name)
+    setLoanEditPhone(customer.phone)
+    setLoanEditing(true)
+  }
+
+  const saveLoanCustomerEdit = (customer: LoanCustomer) => {
+    const name = loanEditName.trim()
+    const phone = loanEditPhone.trim()
+    if (!name || !phone) {
+      setBanner({ type: 'error', message: 'Provide name and phone for loan customer.' })
+      return
+    }
+    const duplicate = findLoanCustomerByPhone(phone, customer.id)
+    if (duplicate) {
+      setBanner({ type: 'error', message: `${duplicate.name} already uses ${duplicate.phone}. Merge them instead.` })
+      return
+    }
+    update(dbPath(`loanCustomers/${customer.dbId ?? customer.id}`), { name, phone })
+      .then(() => {
+        setLoanEditing(false)
+        setBanner({ type: 'success', message: 'Loan customer updated.' })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: new Date().toISOString(),
+          type: 'loan_customer_edit',
+          detail: `${customer.name} (${customer.phone}) → ${name} (${phone})`,
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  const setLoanCustomerArchived = (customer: LoanCustomer, archived: boolean) => {
+    if (archived && allocateRepayments(customer).outstanding > 0) {
+      setBanner({ type: 'error', message: `${customer.name} still owes money. Settle or merge the balance first.` })
+      return
+    }
+    update(dbPath(`loanCustomers/${customer.dbId ?? customer.id}`), { archived })
+      .then(() => {
+        setBanner({ type: 'success', message: archived ? 'Loan customer archived.' : 'Loan customer restored.' })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: new Date().toISOString(),
+          type: archived ? 'loan_customer_archive' : 'loan_customer_restore',
+          detail: customer.name,
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  // Moves every loan and repayment onto the target, then archives the emptied record pointing at it.
+  const mergeLoanCustomer = (source: LoanCustomer) => {
+    const target = loanCustomers.find((c) => c.id === mergeLoanTargetId)
+    if (!target || target.id === source.id) {
+      setBanner({ type: 'error', message: 'Pick the customer to merge into.' })
+      return
+    }
+    const sourcePath = `loanCustomers/${source.dbId ?? source.id}`
+    const targetPath = `loanCustomers/${target.dbId ?? target.id}`
+    const updates: Record<string, unknown> = {
+      [`${sourcePath}/loans`]: null,
+      [`${sourcePath}/repayments`]: null,
+      [`${sourcePath}/writeOffs`]: null,
+      [`${sourcePath}/archived`]: true,
+      [`${sourcePath}/mergedInto`]: target.id,
+    }
+    Object.entries(source.loans ?? {}).forEach(([key, entry]) => {
+      updates[`${targetPath}/loans/${key}`] = entry
+      const order = orders.find((o) => o.id === entry.orderId)
+      if (order) updates[`orders/${order.dbId ?? order.id}/loanCustomerId`] = target.id
+    })
+    Object.entries(source.repayments ?? {}).forEach(([key, repayment]) => {
+      updates[`${targetPath}/repayments/${key}`] = repayment
+    })
+    Object.entries(source.writeOffs ?? {}).forEach(([key, writeOff]) => {
+      updates[`${targetPath}/writeOffs/${key}`] = writeOff
+    })
+    const moved = Object.keys(source.loans ?? {}).length
+    update(ref(db, 'rms'), updates)
+      .then(() => {
+        setMergeLoanTargetId('')
+        setViewLoanCustomer(target)
+        setBanner({ type: 'success', message: `Merged ${source.name} into ${target.name}.` })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: new Date().toISOString(),
+          type: 'loan_customer_merge',
+          detail: `${source.name} (${source.phone}) → ${target.name} (${target.phone}), ${moved} loan(s)`,
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  const addLoanCustomer = () => {
+    if (!newLoanCustomerName.trim() || !newLoanCustomerPhone.trim()) {
+      setBanner({ type: 'error', message: 'Provide name and phone for loan customer.' })
+      return
+    }
+    const duplicate = findLoanCustomerByPhone(newLoanCustomerPhone)
+    if (duplicate) {
+      setBanner({ type: 'error', message: `${duplicate.name} is already registered with ${duplicate.phone}.` })
       return
     }
     const ref = push(dbPath('loanCustomers'))
@@ -963,1673 +3695,5361 @@ const [loanStatusSearch, setLoanStatusSearch] = useState('')
       return
     }
     const entryId = `loan-${Date.now()}`
-    const amount = orderTotal(order)
+    const amount = orderBalance(order)
     const servedBy = usersById[order.waiterId]?.name ?? order.waiterId
     const entry: LoanEntry = { id: entryId, orderId: order.id, amount, date: order.time, servedBy }
     const pathId = customer.dbId ?? customer.id
-    update(dbPath(`loanCustomers/${pathId}/loans/${entryId}`), entry)
+    const reset = () => {
+      setLoanEntryCustomerId('')
+      setLoanEntryOrderId('')
+      setLoanEntryModalOpen(false)
+    }
+    if (!connected) {
+      queueOffline({
+        ...offlineMeta(`Loan ${order.id} · ${customer.name}`),
+        kind: 'loan_entry',
+        customerDbId: pathId,
+        customerId: customer.id,
+        orderDbId: order.dbId ?? order.id,
+        orderId: order.id,
+        entry,
+      }).then(reset)
+      return
+    }
+    update(ref(db, 'rms'), {
+      [`loanCustomers/${pathId}/loans/${entryId}`]: entry,
+      [`orders/${order.dbId ?? order.id}/loanCustomerId`]: customer.id,
+    })
       .then(() => {
-        setLoanEntryCustomerId('')
-        setLoanEntryOrderId('')
-        setLoanEntryModalOpen(false)
+        reset()
         setBanner({ type: 'success', message: 'Loan entry added.' })
       })
       .catch((err) => setBanner({ type: 'error', message: err.message }))
   }
 
-  const addLoanEntryForOrder = (order: Order, customer: LoanCustomer) => {
-    const pathId = customer.dbId ?? customer.id
-    const existing = Object.values(customer.loans ?? {}).find((l) => l.orderId === order.id)
-    if (existing) return Promise.resolve()
-    const ref = push(dbPath(`loanCustomers/${pathId}/loans`))
-    const entryId = ref.key ?? `loan-${Date.now()}`
-    const amount = orderTotal(order)
-    const servedBy = usersById[order.waiterId]?.name ?? order.waiterId
-    const entry: LoanEntry = { id: entryId, orderId: order.id, amount, date: order.time, servedBy }
-    return set(ref, entry)
+  // The customer holding this order's loan entry. The order's own link wins when older data has it on several.
+  const loanLinkFor = (order: Order) => {
+    const holders = loanCustomers.filter((c) => Object.values(c.loans ?? {}).some((l) => l.orderId === order.id))
+    const customer = holders.find((c) => c.id === order.loanCustomerId) ?? holders[0]
+    const entry = customer && Object.values(customer.loans ?? {}).find((l) => l.orderId === order.id)
+    return customer && entry ? { customer, entry } : null
   }
 
-  const resetWaiterPin = (id: string) => {
-    const target = users.find((u) => u.id === id)
-    const pathId = target?.dbId ?? id
-    update(dbPath(`users/${pathId}`), { pin: '0000' })
+  // Root-relative writes that move the loan book along with an order's status, sent in the same update as the status.
+  const loanStatusUpdates = (order: Order, status: NonNullable<Order['status']>, customer?: LoanCustomer) => {
+    const updates: Record<string, unknown> = {}
+    const orderPath = `orders/${order.dbId ?? order.id}`
+    const link = loanLinkFor(order)
+    const entryPath = link ? `loanCustomers/${link.customer.dbId ?? link.customer.id}/loans/${link.entry.id}` : ''
+    if (status === 'loan' && customer) {
+      updates[`${orderPath}/loanCustomerId`] = customer.id
+      if (link?.customer.id === customer.id) {
+        if (link.entry.settledAt) {
+          updates[`${entryPath}/settledAt`] = null
+          updates[`${entryPath}/settledBy`] = null
+        }
+        return updates
+      }
+      if (link) updates[entryPath] = null
+      const customerPath = `loanCustomers/${customer.dbId ?? customer.id}`
+      const entryId = String(push(dbPath(`${customerPath}/loans`)).key)
+      const entry: LoanEntry = {
+        id: entryId,
+        orderId: order.id,
+        amount: orderBalance(order),
+        date: order.time,
+        servedBy: usersById[order.waiterId]?.name ?? order.waiterId,
+      }
+      updates[`${customerPath}/loans/${entryId}`] = entry
+      return updates
+    }
+    if (!link) return updates
+    if (status === 'paid') {
+      // Kept for the statement, but marked so repayments are not spent on it.
+      if (!link.entry.settledAt && order.status === 'loan') {
+        updates[`${entryPath}/settledAt`] = new Date().toISOString()
+        updates[`${entryPath}/settledBy`] = currentUser?.name ?? 'Unknown'
+      }
+      return updates
+    }
+    // Back to pending, or voided: the customer never owed it.
+    updates[entryPath] = null
+    updates[`${orderPath}/loanCustomerId`] = null
+    return updates
+  }
+
+  // Paid orders keep their entry as settled; anything else loses it.
+  const fixOrphanedLoan = (issue: Extract<LoanIssue, { kind: 'orphan' }>) => {
+    const entryPath = `loanCustomers/${issue.customer.dbId ?? issue.customer.id}/loans/${issue.entry.id}`
+    const settle =
+      issue.order?.status === 'paid' && (!issue.order.loanCustomerId || issue.order.loanCustomerId === issue.customer.id)
+    const updates: Record<string, unknown> = settle
+      ? { [`${entryPath}/settledAt`]: new Date().toISOString(), [`${entryPath}/settledBy`]: currentUser?.name ?? 'Unknown' }
+      : { [entryPath]: null }
+    update(ref(db, 'rms'), updates)
       .then(() => {
-        setBanner({ type: 'success', message: 'PIN reset to 0000.' })
+        setBanner({ type: 'success', message: settle ? 'Loan entry marked paid.' : 'Loan entry removed.' })
         addLog({
           userId: currentUser?.id ?? 'system',
           time: new Date().toISOString(),
-          type: 'waiter_reset_pin',
-          detail: id,
+          type: 'loan_fix',
+          detail: `${issue.entry.orderId} · ${issue.customer.name}: ${issue.problem}`,
         })
       })
       .catch((err) => setBanner({ type: 'error', message: err.message }))
   }
 
-  const updateWaiterProfile = (id: string, name: string, phone: string, role: Role, pin?: string) => {
-    const nextName = name.trim()
-    const nextPhone = phone.trim()
-    if (!nextName || !nextPhone) {
-      setBanner({ type: 'error', message: 'Provide both name and phone.' })
+  // Re-checks the live record before writing so a stale action becomes a conflict instead of clobbering it.
+  const replayAction = (action: OfflineAction, save: (next: OfflineAction) => Promise<unknown>): Promise<unknown> => {
+    // An order that already landed (the app reloaded before the queue entry was removed) is done.
+    if (action.kind === 'order_create') {
+      return get(dbPath(`orders/${action.order.orderKey}`)).then((snap) =>
+        snap.exists() ? undefined : submitOrder(action.order, action.progress, (progress) => save({ ...action, progress }))
+      )
+    }
+    if (action.kind === 'order_status') {
+      return get(dbPath(`orders/${action.orderDbId}`)).then((snap) => {
+        const current = snap.val() as { status?: Order['status']; collector?: string; payments?: Record<string, Payment> } | null
+        if (!current) throw new Error(`Order ${action.orderId} no longer exists.`)
+        const status = current.status ?? 'pending'
+        if (status !== (action.from ?? 'pending')) {
+          const by = current.collector ? ` by ${current.collector}` : ''
+          throw new Error(`Order ${action.orderId} was already marked ${status}${by}.`)
+        }
+        const paid = Object.values(current.payments ?? {}).reduce((sum, p) => sum + (p.amount ?? 0), 0)
+        if (Math.abs(paid - action.paidBefore) > 0.005) {
+          throw new Error(`Payments on ${action.orderId} changed while you were offline.`)
+        }
+        const updates: Record<string, unknown> = { ...action.related }
+        Object.entries(action.updates).forEach(([key, value]) => {
+          updates[`orders/${action.orderDbId}/${key}`] = value
+        })
+        return update(ref(db, 'rms'), updates)
+      })
+    }
+    return Promise.all([
+      get(dbPath(`orders/${action.orderDbId}/status`)),
+      get(dbPath(`loanCustomers/${action.customerDbId}`)),
+    ]).then(([statusSnap, customerSnap]) => {
+      const customer = customerSnap.val() as Omit<LoanCustomer, 'id'> | null
+      if (!customer) throw new Error(`Loan customer for ${action.orderId} no longer exists.`)
+      if (Object.values(customer.loans ?? {}).some((l) => l.orderId === action.orderId)) return
+      const status = (statusSnap.val() as Order['status'] | null) ?? 'pending'
+      if (status !== 'loan') throw new Error(`Order ${action.orderId} is ${status}, not on loan.`)
+      return update(ref(db, 'rms'), {
+        [`loanCustomers/${action.customerDbId}/loans/${action.entry.id}`]: action.entry,
+        ...(action.customerId ? { [`orders/${action.orderDbId}/loanCustomerId`]: action.customerId } : {}),
+      })
+    })
+  }
+
+  // Replays oldest first; a failed action is parked as a conflict and the rest carry on.
+  const replayQueue = () => {
+    if (syncingRef.current) return
+    syncingRef.current = true
+    setSyncing(true)
+    let synced = 0
+    let conflicts = 0
+    listQueued<OfflineAction>()
+      .then((queue) =>
+        queue
+          .filter((action) => !action.conflict)
+          .reduce<Promise<void>>((chain, action) => {
+            // A conflict must keep whatever progress the replay saved before failing.
+            let latest = action
+            const save = (next: OfflineAction) => {
+              latest = next
+              return putQueued(next)
+            }
+            return chain.then(() =>
+              replayAction(action, save).then(
+                () => {
+                  synced += 1
+                  return removeQueued(action.id)
+                },
+                (err: Error) => {
+                  conflicts += 1
+                  return putQueued({ ...latest, conflict: err.message })
+                }
+              )
+            )
+          }, Promise.resolve())
+      )
+      .then(() => {
+        if (conflicts > 0) {
+          setSyncModalOpen(true)
+          setBanner({ type: 'error', message: `${conflicts} offline action(s) need your attention.` })
+        } else if (synced > 0) {
+          setBanner({ type: 'success', message: `Synced ${synced} offline action(s).` })
+        }
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+      .finally(() => {
+        syncingRef.current = false
+        setSyncing(false)
+        refreshSyncQueue()
+      })
+  }
+
+  useEffect(() => {
+    replayRef.current = replayQueue
+  })
+
+  const retryQueued = (action: OfflineAction) => {
+    putQueued({ ...action, conflict: undefined }).then(replayQueue)
+  }
+
+  const discardQueued = (action: OfflineAction) => {
+    removeQueued(action.id)
+      .then(() => {
+        refreshSyncQueue()
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: new Date().toISOString(),
+          type: 'sync_discard',
+          detail: action.label,
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  // Entries a repayment finishes off settle their orders, so they leave the loan list. Returns the order ids.
+  const settleRepaidOrders = (customer: LoanCustomer, amount: number, now: string, updates: Record<string, unknown>) => {
+    const before = allocateRepayments(customer).allocations
+    const settled: string[] = []
+    allocateRepayments(customer, amount).allocations.forEach((a, idx) => {
+      if (a.outstanding > 0 || before[idx].outstanding === 0) return
+      const order = orders.find((o) => o.id === a.entry.orderId)
+      if (!order || order.status !== 'loan') return
+      const orderPath = order.dbId ?? order.id
+      const paymentKey = push(dbPath(`orders/${orderPath}/payments`)).key
+      updates[`orders/${orderPath}/status`] = 'paid'
+      updates[`orders/${orderPath}/collector`] = currentUser?.name ?? 'Unknown'
+      updates[`orders/${orderPath}/payments/${paymentKey}`] = {
+        amount: orderBalance(order),
+        method: repayMethod,
+        collectorId: currentUser?.id ?? 'system',
+        time: now,
+        payer: customer.name,
+      }
+      settled.push(order.id)
+    })
+    return settled
+  }
+
+  // A settlement takes the amount paid as a repayment and writes off the rest of the balance.
+  // Orders cleared by the write-off stay on loan: they were never paid for.
+  const writeOffLoan = (customer: LoanCustomer) => {
+    if (currentUser?.role !== 'admin') return
+    const { outstanding } = allocateRepayments(customer)
+    const reason = writeOffReason.trim()
+    const amount = roundMoney(Number(writeOffAmount || (writeOffMode === 'writeoff' ? outstanding : 0)))
+    if (!reason) {
+      setBanner({ type: 'error', message: 'A reason is required to write off a balance.' })
       return
     }
-    const target = users.find((u) => u.id === id)
-    if (target?.role === 'admin' && currentUser?.id !== id) {
-      setBanner({ type: 'error', message: 'Admins cannot modify another admin.' })
+    if (Number.isNaN(amount) || amount < 0 || (writeOffMode === 'writeoff' && amount === 0)) {
+      setBanner({ type: 'error', message: 'Enter an amount above 0.' })
       return
     }
-    if (pin && !/^\d{4}$/.test(pin.trim())) {
-      setBanner({ type: 'error', message: 'PIN must be 4 digits.' })
+    if (amount > outstanding + 0.005 || (writeOffMode === 'settlement' && amount > outstanding - 0.005)) {
+      setBanner({ type: 'error', message: `Amount must be less than the ${formatPrice(outstanding)} outstanding.` })
       return
     }
-    const enforcedRole = target?.role === 'admin' || currentUser?.id === id ? target?.role ?? role : role
-    const pathId = target?.dbId ?? id
-    const updatePayload: Partial<User> & { role: Role } = { name: nextName, phone: nextPhone, role: enforcedRole }
-    if (pin?.trim()) updatePayload.pin = pin.trim()
-    update(dbPath(`users/${pathId}`), updatePayload)
+    const pathId = customer.dbId ?? customer.id
+    const now = new Date().toISOString()
+    const waived = writeOffMode === 'writeoff' ? amount : roundMoney(outstanding - amount)
+    const writeOffKey = String(push(dbPath(`loanCustomers/${pathId}/writeOffs`)).key)
+    const updates: Record<string, unknown> = {
+      [`loanCustomers/${pathId}/writeOffs/${writeOffKey}`]: {
+        id: writeOffKey,
+        amount: waived,
+        date: now,
+        kind: writeOffMode,
+        reason,
+        approvedBy: currentUser.name,
+      },
+    }
+    let settled: string[] = []
+    if (writeOffMode === 'settlement' && amount > 0) {
+      const repaymentKey = String(push(dbPath(`loanCustomers/${pathId}/repayments`)).key)
+      updates[`loanCustomers/${pathId}/repayments/${repaymentKey}`] = {
+        id: repaymentKey,
+        amount,
+        date: now,
+        method: repayMethod,
+        receivedBy: currentUser.name,
+        note: tr(language, 'settlementDiscount'),
+      }
+      settled = settleRepaidOrders(customer, amount, now, updates)
+    }
+    update(ref(db, 'rms'), updates)
       .then(() => {
-        setBanner({ type: 'success', message: 'Staff updated.' })
+        setWriteOffAmount('')
+        setWriteOffReason('')
+        setBanner({
+          type: 'success',
+          message: `${formatPrice(waived)} written off.${settled.length ? ` ${settled.join(', ')} now paid.` : ''}`,
+        })
         addLog({
-          userId: currentUser?.id ?? 'system',
-          time: new Date().toISOString(),
-          type: 'waiter_update',
-          detail: nextName,
+          userId: currentUser.id,
+          time: now,
+          type: 'loan_writeoff',
+          detail:
+            writeOffMode === 'settlement'
+              ? `${customer.name} settled for ${formatPrice(amount)}, ${formatPrice(waived)} written off: ${reason}`
+              : `${customer.name} ${formatPrice(waived)}: ${reason}`,
         })
       })
       .catch((err) => setBanner({ type: 'error', message: err.message }))
   }
 
-  const deleteWaiter = (id: string) => {
-    const target = users.find((u) => u.id === id)
-    if (target?.role === 'admin' && currentUser?.id !== id) {
-      setBanner({ type: 'error', message: 'Admins cannot remove another admin.' })
+  const recordRepayment = (customer: LoanCustomer) => {
+    const amount = roundMoney(Number(repayAmount))
+    const { outstanding } = allocateRepayments(customer)
+    if (Number.isNaN(amount) || amount <= 0) {
+      setBanner({ type: 'error', message: 'Enter a repayment amount above 0.' })
       return
     }
-    if (currentUser?.id === id) {
-      setBanner({ type: 'error', message: 'Cannot delete the signed-in user.' })
+    if (amount > outstanding + 0.005) {
+      setBanner({ type: 'error', message: `Repayment is more than the ${formatPrice(outstanding)} outstanding.` })
       return
     }
-    const pathId = target?.dbId ?? id
-    remove(dbPath(`users/${pathId}`))
+    const pathId = customer.dbId ?? customer.id
+    const repaymentKey = push(dbPath(`loanCustomers/${pathId}/repayments`)).key
+    const now = new Date().toISOString()
+    const repayment: Omit<LoanRepayment, 'id'> = {
+      amount,
+      date: now,
+      method: repayMethod,
+      receivedBy: currentUser?.name ?? 'Unknown',
+      ...(repayNote.trim() ? { note: repayNote.trim() } : {}),
+    }
+    const updates: Record<string, unknown> = {
+      [`loanCustomers/${pathId}/repayments/${repaymentKey}`]: { id: repaymentKey, ...repayment },
+    }
+    const settled = settleRepaidOrders(customer, amount, now, updates)
+    update(ref(db, 'rms'), updates)
       .then(() => {
-        setBanner({ type: 'success', message: 'Staff removed.' })
+        setRepayAmount('')
+        setRepayNote('')
+        setBanner({
+          type: 'success',
+          message: settled.length
+            ? `Repayment recorded. ${settled.join(', ')} now paid.`
+            : `Repayment recorded. ${formatPrice(outstanding - amount)} still owed.`,
+        })
         addLog({
           userId: currentUser?.id ?? 'system',
-          time: new Date().toISOString(),
-          type: 'waiter_delete',
-          detail: id,
+          time: now,
+          type: 'loan_repayment',
+          detail: `${customer.name} ${formatPrice(amount)} ${PAYMENT_METHOD_LABEL[repayMethod]}`,
         })
       })
       .catch((err) => setBanner({ type: 'error', message: err.message }))
   }
 
-  const updateOrderStatus = (order: Order, status: 'paid' | 'loan' | 'pending') => {
-    const collector = status === 'paid' || status === 'loan' ? currentUser?.name ?? 'Unknown' : ''
-    const pathId = order.dbId ?? order.id
-    update(dbPath(`orders/${pathId}`), { status, collector })
-      .then(() => setBanner({ type: 'success', message: 'Order status updated.' }))
+  const addSupplier = () => {
+    const name = newSupplierName.trim()
+    if (!name) {
+      setBanner({ type: 'error', message: 'Provide a supplier name.' })
+      return
+    }
+    if (suppliers.some((sup) => sup.name.toLowerCase() === name.toLowerCase())) {
+      setBanner({ type: 'error', message: `${name} is already in the supplier list.` })
+      return
+    }
+    push(dbPath('suppliers'), { name, phone: newSupplierPhone.trim() })
+      .then(() => {
+        setNewSupplierName('')
+        setNewSupplierPhone('')
+        setSupplierModalOpen(false)
+        setBanner({ type: 'success', message: 'Supplier added.' })
+        addLog({ userId: currentUser?.id ?? 'system', time: new Date().toISOString(), type: 'supplier_add', detail: name })
+      })
       .catch((err) => setBanner({ type: 'error', message: err.message }))
   }
 
-  const statusLabel = (status?: string) => {
-    if (!status || status === 'pending') return { text: tr(language, 'statusActive'), tone: 'pending' }
-    return { text: tr(language, 'statusDone'), tone: 'done' }
-  }
-
-  const handleStatusChange = (order: Order, status: 'paid' | 'loan' | 'pending') => {
-    if (status === 'loan') {
-      setLoanStatusOrderId(order.dbId ?? order.id)
-      setLoanStatusModalOpen(true)
-      setLoanStatusCustomerId('')
-      setLoanStatusSearch('')
+  const recordSupplierPayment = (supplier: Supplier) => {
+    const amount = roundMoney(Number(supplierPayAmount))
+    const { owed } = supplierBalance(supplier, purchaseOrders)
+    if (Number.isNaN(amount) || amount <= 0) {
+      setBanner({ type: 'error', message: 'Enter a payment amount above 0.' })
       return
     }
-    updateOrderStatus(order, status)
+    if (amount > owed + 0.005) {
+      setBanner({ type: 'error', message: `Payment is more than the ${formatPrice(owed)} owed.` })
+      return
+    }
+    const paymentKey = push(dbPath(`suppliers/${supplier.id}/payments`)).key
+    const now = new Date().toISOString()
+    const payment: SupplierPayment = {
+      id: paymentKey ?? now,
+      amount,
+      date: now,
+      method: supplierPayMethod,
+      paidBy: currentUser?.name ?? 'Unknown',
+      ...(supplierPayNote.trim() ? { note: supplierPayNote.trim() } : {}),
+    }
+    set(dbPath(`suppliers/${supplier.id}/payments/${paymentKey}`), payment)
+      .then(() => {
+        setPaySupplier(null)
+        setSupplierPayAmount('')
+        setSupplierPayNote('')
+        setBanner({ type: 'success', message: `Payment recorded. ${formatPrice(owed - amount)} still owed.` })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: now,
+          type: 'supplier_payment',
+          detail: `${supplier.name} ${formatPrice(amount)} ${PAYMENT_METHOD_LABEL[supplierPayMethod]}`,
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
   }
 
-  const confirmLoanStatus = () => {
-    if (!loanStatusOrderId || !loanStatusCustomerId) {
-      setBanner({ type: 'error', message: 'Select a loan customer.' })
+  // Draft lines point at either a menu item or an ingredient as "item:<id>" / "ingredient:<id>".
+  const purchaseTarget = (target: string) => {
+    const [kind, targetId] = target.split(':') as [PurchaseLine['kind'], string]
+    const name = kind === 'item' ? itemsById[targetId]?.name : ingredientsById[targetId]?.name
+    return name ? { kind, targetId, name } : null
+  }
+
+  // Same scheme as claimOrderNumbers: the counter is shared, seeded once from the highest number already used.
+  const claimPurchaseNumber = () => {
+    const seed = purchaseOrders.reduce((max, po) => Math.max(max, Number(po.number.replace(/\D/g, '')) || 0), 0)
+    return runTransaction(dbPath('counters/purchaseOrders'), (current: number | null) =>
+      (typeof current === 'number' ? current : seed) + 1
+    ).then((result) => `PO-${String(result.snapshot.val() as number).padStart(4, '0')}`)
+  }
+
+  const createPurchaseOrder = () => {
+    if (!purchaseSupplierId) {
+      setBanner({ type: 'error', message: 'Choose a supplier.' })
       return
     }
-    const order = orders.find((o) => o.dbId === loanStatusOrderId || o.id === loanStatusOrderId)
-    const customer = loanCustomers.find((c) => c.id === loanStatusCustomerId)
-    if (!order || !customer) {
-      setBanner({ type: 'error', message: 'Invalid selection.' })
+    const lines: PurchaseLine[] = []
+    for (const d of purchaseLines) {
+      const target = purchaseTarget(d.target)
+      if (!target) continue
+      const qty = Number(d.qty)
+      const unitCost = roundMoney(Number(d.unitCost || 0))
+      if (Number.isNaN(qty) || qty <= 0 || Number.isNaN(unitCost) || unitCost < 0) {
+        setBanner({ type: 'error', message: `Enter a quantity above 0 and a cost for ${target.name}.` })
+        return
+      }
+      lines.push({ ...target, qty: roundQty(qty), unitCost })
+    }
+    if (lines.length === 0) {
+      setBanner({ type: 'error', message: 'Add at least one line.' })
       return
     }
-    updateOrderStatus(order, 'loan')
-    addLoanEntryForOrder(order, customer).finally(() => {
-      setLoanStatusModalOpen(false)
-      setLoanStatusOrderId('')
-      setLoanStatusCustomerId('')
-      setLoanStatusSearch('')
-    })
+    const now = new Date().toISOString()
+    claimPurchaseNumber()
+      .then((number) => {
+        const po: Omit<PurchaseOrder, 'id'> = {
+          number,
+          supplierId: purchaseSupplierId,
+          status: 'open',
+          lines,
+          createdAt: now,
+          createdBy: currentUser?.name ?? 'Unknown',
+          ...(purchaseNote.trim() ? { note: purchaseNote.trim() } : {}),
+        }
+        return push(dbPath('purchaseOrders'), po).then(() => po)
+      })
+      .then((created) => {
+        setPurchaseModalOpen(false)
+        setPurchaseSupplierId('')
+        setPurchaseLines([])
+        setPurchaseNote('')
+        setBanner({ type: 'success', message: `${created.number} created.` })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: now,
+          type: 'purchase_create',
+          detail: `${created.number} ${formatPrice(purchaseTotal(created))}`,
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
   }
 
-  const loanCustomersFiltered = loanCustomers.filter((c) => {
-    const text = `${c.name} ${c.phone}`.toLowerCase()
-    return text.includes(loanCustomerSearch.trim().toLowerCase())
-  })
-  const loanCustomersModalFiltered = loanCustomers.filter((c) => {
-    const text = `${c.name} ${c.phone}`.toLowerCase()
-    return text.includes(loanStatusSearch.trim().toLowerCase())
-  })
+  const openReceivePurchase = (po: PurchaseOrder) => {
+    closeOverlays()
+    setReceivePurchase(po)
+    setReceiveLines(po.lines.map((l) => ({ qty: String(l.qty), unitCost: String(l.unitCost) })))
+  }
 
-  const handleLogin = () => {
-    if (users.length === 0) {
-      setAuthError('Data is still loading. Try again in a moment.')
-      return
+  // Claims the order first so two people receiving the same delivery cannot book the stock twice.
+  const receivePurchaseOrder = (po: PurchaseOrder) => {
+    const lines: PurchaseLine[] = []
+    for (const [idx, line] of po.lines.entries()) {
+      const qty = Number(receiveLines[idx]?.qty || 0)
+      const cost = roundMoney(Number(receiveLines[idx]?.unitCost || 0))
+      if (Number.isNaN(qty) || qty < 0 || Number.isNaN(cost) || cost < 0) {
+        setBanner({ type: 'error', message: `Enter the quantity received and unit cost for ${line.name}.` })
+        return
+      }
+      lines.push({ ...line, receivedQty: roundQty(qty), receivedCost: cost })
     }
-
-    const phone = authPhone.trim()
-    const normalized = normalizePhone(phone)
-    const pin = authPin.trim()
-    const match = users.find((user) => {
-      if (user.pin !== pin) return false
-      const stored = normalizePhone(user.phone)
-      return (
-        user.phone === phone ||
-        stored === normalized ||
-        stored.endsWith(normalized) ||
-        normalized.endsWith(stored)
-      )
+    const itemDeltas: Record<string, number> = {}
+    const ingredientDeltas: Record<string, number> = {}
+    lines.forEach((l) => {
+      const deltas = l.kind === 'item' ? itemDeltas : ingredientDeltas
+      deltas[l.targetId] = roundQty((deltas[l.targetId] ?? 0) + (l.receivedQty ?? 0))
     })
+    const supplierName = suppliers.find((sup) => sup.id === po.supplierId)?.name ?? ''
+    const movement = { kind: 'restock' as const, note: `${po.number} ${supplierName}`.trim() }
+    const now = new Date().toISOString()
+    runTransaction(dbPath(`purchaseOrders/${po.id}/status`), (status: PurchaseStatus | null) =>
+      status === 'open' ? 'received' : undefined
+    )
+      .then((result) => {
+        if (!result.committed) throw new Error(`${po.number} was already received or cancelled.`)
+        return reserveStock(itemDeltas, ingredientDeltas, movement).catch((err) =>
+          set(dbPath(`purchaseOrders/${po.id}/status`), 'open')
+            .catch(() => null)
+            .then(() => Promise.reject(err))
+        )
+      })
+      .then(() => {
+        const updates: Record<string, unknown> = {
+          [`purchaseOrders/${po.id}/lines`]: lines,
+          [`purchaseOrders/${po.id}/receivedAt`]: now,
+          [`purchaseOrders/${po.id}/receivedBy`]: currentUser?.name ?? 'Unknown',
+        }
+        lines
+          .filter((l) => (l.receivedQty ?? 0) > 0)
+          .forEach((l) => {
+            if (l.kind === 'ingredient') updates[`ingredients/${l.targetId}/cost`] = l.receivedCost ?? 0
+            else if (itemsById[l.targetId]?.costSource === 'purchase') updates[`items/${l.targetId}/cost`] = l.receivedCost ?? 0
+          })
+        return update(ref(db, 'rms'), updates)
+      })
+      .then(() => {
+        const total = purchaseTotal({ status: 'received', lines })
+        setReceivePurchase(null)
+        setReceiveLines([])
+        setBanner({ type: 'success', message: `${po.number} received. ${formatPrice(total)} added to ${supplierName || 'the supplier'}'s balance.` })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: now,
+          type: 'purchase_receive',
+          detail: `${po.number} ${formatPrice(total)}`,
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
 
-    if (!match) {
-      setAuthError('Invalid phone or PIN. Try again.')
+  const cancelPurchaseOrder = (po: PurchaseOrder) => {
+    runTransaction(dbPath(`purchaseOrders/${po.id}/status`), (status: PurchaseStatus | null) =>
+      status === 'open' ? 'cancelled' : undefined
+    )
+      .then((result) => {
+        if (!result.committed) throw new Error(`${po.number} is no longer open.`)
+        setBanner({ type: 'success', message: `${po.number} cancelled.` })
+        addLog({ userId: currentUser?.id ?? 'system', time: new Date().toISOString(), type: 'purchase_cancel', detail: po.number })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  const addTable = () => {
+    const number = Number(newTableNumber)
+    const seats = Number(newTableSeats)
+    if (!Number.isInteger(number) || number <= 0) {
+      setBanner({ type: 'error', message: 'Provide a table number above 0.' })
+      return
+    }
+    if (tables.some((t) => t.number === number)) {
+      setBanner({ type: 'error', message: `Table ${number} already exists.` })
+      return
+    }
+    if (!Number.isInteger(seats) || seats <= 0) {
+      setBanner({ type: 'error', message: 'Seats must be 1 or more.' })
       return
     }
+    const payload = { number, area: newTableArea.trim() || 'Hall', seats, status: 'free' as TableStatus }
+    push(dbPath('tables'), payload)
+      .then(() => {
+        setNewTableNumber('')
+        setNewTableSeats('4')
+        setTableModalOpen(false)
+        setBanner({ type: 'success', message: 'Table added.' })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: new Date().toISOString(),
+          type: 'table_add',
+          detail: `T${number}`,
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
 
-    setAuthError('')
-    setCurrentUser(match)
-    setTab(match.role === 'waiter' || match.role === 'collector' ? 'orders' : 'dash')
-    setSidebarOpen(false)
-    setProfileOpen(false)
-    addLog({ userId: match.id, time: new Date().toISOString(), type: 'login' })
-    if (typeof window !== 'undefined') {
-      localStorage.setItem(
-        SESSION_KEY,
-        JSON.stringify({ userId: match.id, expiresAt: Date.now() + 60 * 60 * 1000 })
-      )
+  const updateTableStatus = (table: Table, status: TableStatus) => {
+    update(dbPath(`tables/${table.id}`), { status })
+      .then(() => setBanner({ type: 'success', message: 'Table status updated.' }))
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  const moveOrderToTable = (order: Order, tableId: string) => {
+    if ((order.tableId ?? '') === tableId) return
+    const pathId = order.dbId ?? order.id
+    const updates: Record<string, unknown> = { [`orders/${pathId}/table_id`]: tableId || null }
+    if (tableId && tablesById[tableId]?.status === 'free') updates[`tables/${tableId}/status`] = 'occupied'
+    const source = order.tableId
+    const sourceLeftEmpty =
+      source && (openOrdersByTable[source] ?? []).every((o) => (o.dbId ?? o.id) === pathId)
+    if (source && sourceLeftEmpty && tablesById[source]) updates[`tables/${source}/status`] = 'free'
+    update(ref(db, 'rms'), updates)
+      .then(() => {
+        setBanner({ type: 'success', message: 'Order moved.' })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: new Date().toISOString(),
+          type: 'order_move',
+          detail: `${order.id} ${tableLabel(source) || '—'} → ${tableLabel(tableId) || '—'}`,
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  const mergeTables = (source: Table, targetId: string) => {
+    const target = tablesById[targetId]
+    if (!target || target.id === source.id) {
+      setBanner({ type: 'error', message: 'Pick another table to merge into.' })
+      return
     }
-    setBanner({ type: 'success', message: `Welcome, ${match.name}!` })
-    if (match.role === 'waiter') {
-      setDraftWaiter(match.id)
+    const moving = openOrdersByTable[source.id] ?? []
+    if (moving.length === 0) {
+      setBanner({ type: 'error', message: `T${source.number} has no open orders.` })
+      return
     }
+    const updates: Record<string, unknown> = {
+      [`tables/${source.id}/status`]: 'free',
+      [`tables/${target.id}/status`]: target.status === 'free' ? 'occupied' : target.status,
+    }
+    moving.forEach((o) => {
+      updates[`orders/${o.dbId ?? o.id}/table_id`] = target.id
+    })
+    update(ref(db, 'rms'), updates)
+      .then(() => {
+        setViewTable(null)
+        setMergeTargetId('')
+        setBanner({ type: 'success', message: `Merged T${source.number} into T${target.number}.` })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: new Date().toISOString(),
+          type: 'table_merge',
+          detail: `T${source.number} → T${target.number} (${moving.map((o) => o.id).join(', ')})`,
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
   }
 
-  const handleLogout = () => {
-    setCurrentUser(null)
-    setBanner(null)
-    setDraftWaiter('')
-    setProfileOpen(false)
-    if (typeof window !== 'undefined') {
-      localStorage.removeItem(SESSION_KEY)
+  const resetWaiterPin = (id: string) => {
+    const target = users.find((u) => u.id === id)
+    const pathId = target?.dbId ?? id
+    update(dbPath(`users/${pathId}`), { pin: '0000' })
+      .then(() => {
+        setBanner({ type: 'success', message: 'PIN reset to 0000.' })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: new Date().toISOString(),
+          type: 'waiter_reset_pin',
+          detail: id,
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  const updateWaiterProfile = (id: string, name: string, phone: string, role: Role, pin?: string) => {
+    const nextName = name.trim()
+    const nextPhone = phone.trim()
+    if (!nextName || !nextPhone) {
+      setBanner({ type: 'error', message: 'Provide both name and phone.' })
+      return
+    }
+    const target = users.find((u) => u.id === id)
+    if (target?.role === 'admin' && currentUser?.id !== id) {
+      setBanner({ type: 'error', message: 'Admins cannot modify another admin.' })
+      return
+    }
+    if (pin && !/^\d{4}$/.test(pin.trim())) {
+      setBanner({ type: 'error', message: 'PIN must be 4 digits.' })
+      return
     }
+    const enforcedRole = target?.role === 'admin' || currentUser?.id === id ? target?.role ?? role : role
+    const pathId = target?.dbId ?? id
+    const updatePayload: Partial<User> & { role: Role } = { name: nextName, phone: nextPhone, role: enforcedRole }
+    if (pin?.trim()) updatePayload.pin = pin.trim()
+    update(dbPath(`users/${pathId}`), updatePayload)
+      .then(() => {
+        setBanner({ type: 'success', message: 'Staff updated.' })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: new Date().toISOString(),
+          type: 'waiter_update',
+          detail: nextName,
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
   }
 
-  if (!currentUser) {
-    if (isLoading) {
-      return (
-        <div className="loader-page">
-          <img src={loadingGif} alt="Loading" className="loader__gif" />
-        </div>
-      )
+  const deleteWaiter = (id: string) => {
+    const target = users.find((u) => u.id === id)
+    if (target?.role === 'admin' && currentUser?.id !== id) {
+      setBanner({ type: 'error', message: 'Admins cannot remove another admin.' })
+      return
     }
-    const shellClass = 'mobile-shell auth-shell'
-    return (
-      <div className={shellClass}>
-        <div className="auth">
-          <div className="auth__card">
-            <div className="chef-icon" aria-hidden />
-            <h1 className="auth__title">{tr(language, 'loginTitle')}</h1>
-            <p className="auth__hint">{tr(language, 'loginHint')}</p>
-            <div className="auth__form">
-              <label className="field">
-                <span>{tr(language, 'phoneNumber')}</span>
-                <input
-                  type="tel"
-                  value={authPhone}
-                  onChange={(e) => setAuthPhone(e.target.value)}
-                  placeholder="e.g., +252901234567"
-                />
-              </label>
-              <label className="field">
-                <span>{tr(language, 'pinDigits')}</span>
-                <input
-                  type="password"
-                  value={authPin}
-                  onChange={(e) => setAuthPin(e.target.value)}
-                  inputMode="numeric"
-                  pattern="[0-9]*"
-                  placeholder="****"
-                />
-              </label>
-              {authError && <div className="banner banner--error">{authError}</div>}
-              <button className="primary auth__btn" onClick={handleLogin}>
-                {tr(language, 'signIn')}
-              </button>
-            </div>
-          </div>
-        </div>
-      </div>
-    )
+    if (currentUser?.id === id) {
+      setBanner({ type: 'error', message: 'Cannot delete the signed-in user.' })
+      return
+    }
+    const pathId = target?.dbId ?? id
+    remove(dbPath(`users/${pathId}`))
+      .then(() => {
+        setBanner({ type: 'success', message: 'Staff removed.' })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: new Date().toISOString(),
+          type: 'waiter_delete',
+          detail: id,
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
   }
 
-  const isAdmin = currentUser.role === 'admin'
-  const shellClass = `mobile-shell${isAdmin ? ' admin-shell' : ''}`
+  const updateOrderStatus = (order: Order, status: 'paid' | 'loan' | 'pending', customer?: LoanCustomer) => {
+    const collector = status === 'paid' || status === 'loan' ? currentUser?.name ?? 'Unknown' : ''
+    const pathId = order.dbId ?? order.id
+    const updates: Record<string, unknown> = { status, collector }
+    const balance = orderBalance(order)
+    if (status === 'paid' && balance > 0) {
+      // Marking paid from the status picker settles whatever is left in cash.
+      const paymentKey = push(dbPath(`orders/${pathId}/payments`)).key
+      updates[`payments/${paymentKey}`] = {
+        amount: balance,
+        method: 'cash',
+        collectorId: currentUser?.id ?? 'system',
+        time: new Date().toISOString(),
+        auto: true,
+      }
+    }
+    // Leaving paid drops the cash the picker settled with, so a loan entry is for what is really owed.
+    const autoPayments = status !== 'paid' && order.status === 'paid' ? (order.payments ?? []).filter((p) => p.auto) : []
+    autoPayments.forEach((p) => {
+      updates[`payments/${p.id}`] = null
+    })
+    const reopened = autoPayments.length > 0 ? { ...order, payments: (order.payments ?? []).filter((p) => !p.auto) } : order
+    const related = loanStatusUpdates(reopened, status, customer)
+    const tableId = order.tableId
+    if (
+      (status === 'paid' || status === 'loan') &&
+      tableId &&
+      tablesById[tableId] &&
+      (openOrdersByTable[tableId] ?? []).every((o) => (o.dbId ?? o.id) === pathId)
+    ) {
+      related[`tables/${tableId}/status`] = 'free'
+    }
+    if (!connected) {
+      return queueOffline({
+        ...offlineMeta(customer ? `${order.id} → ${status} · ${customer.name}` : `${order.id} → ${status}`),
+        kind: 'order_status',
+        orderDbId: pathId,
+        orderId: order.id,
+        from: order.status ?? 'pending',
+        paidBefore: orderPaid(order),
+        updates,
+        related,
+      })
+    }
+    const rootUpdates: Record<string, unknown> = { ...related }
+    Object.entries(updates).forEach(([key, value]) => {
+      rootUpdates[`orders/${pathId}/${key}`] = value
+    })
+    return update(ref(db, 'rms'), rootUpdates)
+      .then(() => setBanner({ type: 'success', message: 'Order status updated.' }))
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
 
-  return (
-    <div className={`${shellClass} ${isAdmin && sidebarOpen ? 'sidebar-open' : ''}`}>
-      {isAdmin && <div className="overlay" onClick={() => setSidebarOpen(false)} />}
-      <div className={`layout-shell ${isAdmin ? 'with-sidebar' : ''}`}>
-        {isAdmin && (
-          <aside className={`sidebar ${sidebarOpen ? 'open' : ''}`}>
-            <div className="sidebar__brand">
-              <FiGrid className="sidebar__brand-icon" aria-hidden />
-              <span>RestoDash</span>
-              <button className="icon-btn sidebar__close" onClick={() => setSidebarOpen(false)} aria-label="Close menu">
-                <FiX />
-              </button>
-            </div>
-            <nav className="sidebar__nav">
-              <button
-                className={`sidebar__item ${tab === 'dash' ? 'active' : ''}`}
-                onClick={() => { setTab('dash'); setSidebarOpen(false) }}
-              >
-                <FiHome /> <span>{tr(language, 'dashboardTitle')}</span>
-              </button>
-              <button
-                className={`sidebar__item ${tab === 'orders' ? 'active' : ''}`}
-                onClick={() => { setTab('orders'); setSidebarOpen(false) }}
-              >
-                <FiFileText /> <span>{tr(language, 'orders')}</span>
-              </button>
-              <button
-                className={`sidebar__item ${tab === 'loans' ? 'active' : ''}`}
-                onClick={() => { setTab('loans'); setSidebarOpen(false) }}
-              >
-                <FiDollarSign /> <span>{tr(language, 'loans')}</span>
-              </button>
-              <button
-                className={`sidebar__item ${tab === 'staff' ? 'active' : ''}`}
-                onClick={() => { setTab('staff'); setSidebarOpen(false) }}
-              >
-                <FiUsers /> <span>{tr(language, 'staff')}</span>
-              </button>
-              <button
-                className={`sidebar__item ${tab === 'items' ? 'active' : ''}`}
-                onClick={() => { setTab('items'); setSidebarOpen(false) }}
-              >
-                <FiBox /> <span>{tr(language, 'items')}</span>
-              </button>
-              <button
-                className={`sidebar__item ${tab === 'reports' ? 'active' : ''}`}
+  const startPayment = (order: Order, parts = 1) => {
+    const balance = orderBalance(order)
+    setPaymentAmount((Math.floor((balance / parts) * 100) / 100).toFixed(2))
+  }
+
+  const recordPayment = (order: Order) => {
+    const amount = Math.round(Number(paymentAmount) * 100) / 100
+    const balance = orderBalance(order)
+    if (Number.isNaN(amount) || amount <= 0) {
+      setBanner({ type: 'error', message: 'Enter a payment amount above 0.' })
+      return
+    }
+    if (amount > balance + 0.005) {
+      setBanner({ type: 'error', message: `Payment is more than the ${formatPrice(balance)} balance.` })
+      return
+    }
+    const pathId = order.dbId ?? order.id
+    const paymentKey = push(dbPath(`orders/${pathId}/payments`)).key
+    const now = new Date().toISOString()
+    const settled = balance - amount < 0.005
+    const updates: Record<string, unknown> = {
+      [`orders/${pathId}/payments/${paymentKey}`]: {
+        amount,
+        method: paymentMethod,
+        collectorId: currentUser?.id ?? 'system',
+        time: now,
+        ...(paymentPayer.trim() ? { payer: paymentPayer.trim() } : {}),
+      },
+    }
+    if (settled) {
+      Object.assign(updates, loanStatusUpdates(order, 'paid'))
+      updates[`orders/${pathId}/status`] = 'paid'
+      updates[`orders/${pathId}/collector`] = currentUser?.name ?? 'Unknown'
+      const tableId = order.tableId
+      if (tableId && tablesById[tableId] && (openOrdersByTable[tableId] ?? []).every((o) => (o.dbId ?? o.id) === pathId)) {
+        updates[`tables/${tableId}/status`] = 'free'
+      }
+    }
+    update(ref(db, 'rms'), updates)
+      .then(() => {
+        setPaymentAmount('')
+        setPaymentPayer('')
+        setBanner({
+          type: 'success',
+          message: settled ? 'Payment recorded. Order paid in full.' : `Payment recorded. ${formatPrice(balance - amount)} left.`,
+        })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: now,
+          type: 'payment',
+          detail: `${order.id} ${formatPrice(amount)} ${PAYMENT_METHOD_LABEL[paymentMethod]}`,
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  const lineRecord = (line: OrderItem) => ({
+    itemId: line.itemId,
+    qty: line.qty,
+    unitPrice: line.unitPrice ?? itemsById[line.itemId]?.price ?? 0,
+    unitCost: line.unitCost ?? itemUnitCost(itemsById[line.itemId], ingredientsById),
+    name: lineName(line, itemsById),
+    ...(line.note ? { note: line.note } : {}),
+    ...(line.modifiers?.length ? { modifiers: line.modifiers } : {}),
+    ...(line.discount ? { discount: line.discount } : {}),
+    prep: line.prep ?? 'queued',
+    ...(line.prepAt && Object.keys(line.prepAt).length > 0 ? { prepAt: line.prepAt } : {}),
+  })
+
+  const qtyPerItem = (lines: OrderItem[]) =>
+    lines.reduce<Record<string, number>>((acc, l) => {
+      acc[l.itemId] = (acc[l.itemId] ?? 0) + l.qty
+      return acc
+    }, {})
+
+  const openEditOrder = (order: Order) => {
+    setViewOrder(null)
+    setEditOrder(order)
+    setEditLines(order.items.map((line) => ({ ...line })))
+    setEditAddItemId('')
+  }
+
+  const changeEditQty = (idx: number, qty: number) => {
+    setEditLines((prev) => prev.map((line, i) => (i === idx ? { ...line, qty: Math.max(0, qty) } : line)))
+  }
+
+  const addEditLine = () => {
+    if (!editAddItemId) return
+    setEditLines((prev) => {
+      const existing = prev.findIndex((l) => l.itemId === editAddItemId && !l.modifiers?.length && !l.note)
+      if (existing >= 0) return prev.map((l, i) => (i === existing ? { ...l, qty: l.qty + 1 } : l))
+      return [...prev, { itemId: editAddItemId, qty: 1 }]
+    })
+    setEditAddItemId('')
+  }
+
+  const saveOrderEdit = () => {
+    if (!editOrder) return
+    const lines = editLines.filter((l) => l.qty > 0)
+    if (lines.length === 0) {
+      setBanner({ type: 'error', message: 'An order needs at least one item. Void it instead.' })
+      return
+    }
+    const before = qtyPerItem(editOrder.items)
+    const after = qtyPerItem(lines)
+    const stockDeltas: Record<string, number> = {}
+    new Set([...Object.keys(before), ...Object.keys(after)]).forEach((itemId) => {
+      stockDeltas[itemId] = (before[itemId] ?? 0) - (after[itemId] ?? 0)
+    })
+    const usedKeys = new Set<string>()
+    const itemsMap: Record<string, ReturnType<typeof lineRecord>> = {}
+    lines.forEach((line, idx) => {
+      let key = line.key && !usedKeys.has(line.key) ? line.key : line.itemId
+      if (usedKeys.has(key)) key = `${line.itemId}_m${Date.now()}${idx}`
+      usedKeys.add(key)
+      // Extra portions on a line the kitchen already finished have to go back to the kitchen.
+      const original = editOrder.items.find((l) => l.key === line.key)
+      itemsMap[key] = lineRecord(
+        original && line.qty > original.qty ? { ...line, prep: 'queued', prepAt: undefined } : line
+      )
+    })
+    const pathId = editOrder.dbId ?? editOrder.id
+    const usageDeltas = recipeUsage(stockDeltas, itemsById)
+    // The lines are only rewritten while the order is still pending; a collector may settle it meanwhile.
+    reserveStock(stockDeltas, usageDeltas, { kind: 'sale', orderRef: pathId, note: 'Order edited' })
+      .then(() =>
+        runTransaction(dbPath(`orders/${pathId}`), (current: { status?: Order['status'] } | null) => {
+          if (!current) return current
+          if ((current.status ?? 'pending') !== 'pending') return undefined
+          return { ...current, items: itemsMap }
+        })
+          .then((result) => {
+            if (!result.committed || !result.snapshot.exists()) {
+              throw new Error(`${editOrder.id} is no longer pending, so it can't be edited.`)
+            }
+          })
+          .catch((err) =>
+            reserveStock(negate(stockDeltas), negate(usageDeltas), { kind: 'sale', orderRef: pathId, note: 'Edit not saved' })
+              .catch(() => null)
+              .then(() => Promise.reject(err))
+          )
+      )
+      .then(() => {
+        setEditOrder(null)
+        setEditLines([])
+        setBanner({ type: 'success', message: 'Order updated and stock adjusted.' })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: new Date().toISOString(),
+          type: 'order_edit',
+          detail: editOrder.id,
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  const confirmVoidOrder = () => {
+    if (!voidOrder) return
+    const reason = voidReason.trim()
+    if (!reason) {
+      setBanner({ type: 'error', message: 'A reason is required to void an order.' })
+      return
+    }
+    const pathId = voidOrder.dbId ?? voidOrder.id
+    const now = new Date().toISOString()
+    const updates: Record<string, unknown> = loanStatusUpdates(voidOrder, 'void')
+    const tableId = voidOrder.tableId
+    if (tableId && tablesById[tableId] && (openOrdersByTable[tableId] ?? []).every((o) => (o.dbId ?? o.id) === pathId)) {
+      updates[`tables/${tableId}/status`] = 'free'
+    }
+    // Claimed in a transaction so only one device voids the order, and only that one puts the stock back.
+    runTransaction(dbPath(`orders/${pathId}`), (current: { status?: Order['status'] } | null) => {
+      if (!current) return current
+      const status = current.status ?? 'pending'
+      if (status !== 'pending' && !(status === 'paid' && currentUser?.role === 'admin')) return undefined
+      return { ...current, status: 'void', voidReason: reason, voidedBy: currentUser?.id ?? 'system', voidedAt: now }
+    })
+      .then((result) => {
+        if (!result.committed || !result.snapshot.exists()) {
+          throw new Error(`${voidOrder.id} was already changed on another device, so it was not voided.`)
+        }
+        const returned = qtyPerItem(voidOrder.items)
+        return Promise.all([
+          update(ref(db, 'rms'), updates),
+          reserveStock(returned, recipeUsage(returned, itemsById), { kind: 'void', orderRef: pathId, note: reason }),
+        ])
+      })
+      .then(() => {
+        setVoidOrder(null)
+        setVoidReason('')
+        setBanner({ type: 'success', message: 'Order voided and stock restored.' })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: now,
+          type: 'order_void',
+          detail: `${voidOrder.id}: ${reason}`,
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  const updateLinePrep = (order: Order, line: OrderItem, state: PrepState) => {
+    if (!line.key) return
+    const pathId = order.dbId ?? order.id
+    const now = new Date().toISOString()
+    const updates: Record<string, unknown> = {
+      [`orders/${pathId}/items/${line.key}/prep`]: state,
+      [`orders/${pathId}/items/${line.key}/prepAt/${state}`]: now,
+    }
+    const orderReady = state === 'ready' && order.items.every((i) => i.key === line.key || i.prep === 'ready')
+    if (orderReady) {
+      const noticeKey = push(dbPath(`notifications/${order.waiterId}`)).key
+      updates[`orders/${pathId}/readyAt`] = now
+      updates[`notifications/${order.waiterId}/${noticeKey}`] = {
+        orderId: order.id,
+        message: `${order.id}${order.tableId ? ` (${tableLabel(order.tableId)})` : ''} is ready to serve.`,
+        time: now,
+        read: false,
+      }
+    }
+    update(ref(db, 'rms'), updates)
+      .then(() => {
+        if (!orderReady) return
+        setBanner({ type: 'success', message: `${order.id} ready. Waiter notified.` })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: now,
+          type: 'order_ready',
+          detail: order.id,
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  const updateSettings = (patch: Partial<Settings>) => {
+    update(dbPath('settings'), patch)
+      .then(() => {
+        setBanner({ type: 'success', message: 'Settings saved.' })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: new Date().toISOString(),
+          type: 'settings_update',
+          detail: Object.keys(patch).join(', '),
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  const saveNumericSetting = (
+    field: 'taxRate' | 'serviceRate' | 'serviceMinGuests' | 'reminderDays' | 'reminderEveryDays',
+    valueStr: string
+  ) => {
+    const value = Number(valueStr || 0)
+    const isRate = field === 'taxRate' || field === 'serviceRate'
+    if (Number.isNaN(value) || value < 0 || (isRate && value > 100)) {
+      setBanner({ type: 'error', message: isRate ? 'Rates must be between 0 and 100.' : 'Enter 0 or more.' })
+      return
+    }
+    if (value === (settings[field] ?? 0)) return
+    updateSettings({ [field]: value })
+  }
+
+  const linesMissingPrice = orders.reduce((n, o) => n + o.items.filter((l) => l.unitPrice === undefined).length, 0)
+
+  // One-off: stamps today's menu price and name onto every line written before snapshots were captured.
+  const backfillPriceSnapshots = () => {
+    const updates: Record<string, unknown> = {}
+    let lines = 0
+    orders.forEach((order) => {
+      const pathId = order.dbId ?? order.id
+      order.items.forEach((line) => {
+        if (line.unitPrice !== undefined || !line.key) return
+        updates[`orders/${pathId}/items/${line.key}/unitPrice`] = itemsById[line.itemId]?.price ?? 0
+        updates[`orders/${pathId}/items/${line.key}/name`] = lineName(line, itemsById)
+        lines += 1
+      })
+    })
+    const now = new Date().toISOString()
+    updates['settings/snapshotsBackfilledAt'] = now
+    update(ref(db, 'rms'), updates)
+      .then(() => {
+        setBanner({ type: 'success', message: `Captured prices on ${lines} order lines.` })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: now,
+          type: 'snapshot_backfill',
+          detail: String(lines),
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  const markNotificationsRead = () => {
+    if (!currentUser) return
+    const updates: Record<string, boolean> = {}
+    notifications.filter((n) => !n.read).forEach((n) => {
+      updates[`${n.id}/read`] = true
+    })
+    if (Object.keys(updates).length === 0) return
+    update(dbPath(`notifications/${currentUser.id}`), updates).catch(() => null)
+  }
+
+  const statusLabel = (status?: string) => {
+    if (!status || status === 'pending') return { text: tr(language, 'statusActive'), tone: 'pending' }
+    if (status === 'void') return { text: tr(language, 'statusVoid'), tone: 'void' }
+    return { text: tr(language, 'statusDone'), tone: 'done' }
+  }
+
+  const handleStatusChange = (order: Order, status: 'paid' | 'loan' | 'pending') => {
+    if (status === 'loan') {
+      setLoanStatusOrderId(order.dbId ?? order.id)
+      setLoanStatusModalOpen(true)
+      setLoanStatusCustomerId('')
+      setLoanStatusSearch('')
+      setLoanOverrideReason('')
+      return
+    }
+    updateOrderStatus(order, status)
+  }
+
+  const confirmLoanStatus = () => {
+    if (!loanStatusOrderId || !loanStatusCustomerId) {
+      setBanner({ type: 'error', message: 'Select a loan customer.' })
+      return
+    }
+    const order = orders.find((o) => o.dbId === loanStatusOrderId || o.id === loanStatusOrderId)
+    const customer = loanCustomers.find((c) => c.id === loanStatusCustomerId)
+    if (!order || !customer) {
+      setBanner({ type: 'error', message: 'Invalid selection.' })
+      return
+    }
+    const check = creditCheck(customer, orderBalance(order))
+    if (check.blocked) {
+      if (currentUser?.role !== 'admin') {
+        setBanner({ type: 'error', message: `${customer.name} is blocked: ${check.problems.join('; ')}.` })
+        return
+      }
+      if (!loanOverrideReason.trim()) {
+        setBanner({ type: 'error', message: 'Give a reason to override the credit block.' })
+        return
+      }
+      addLog({
+        userId: currentUser.id,
+        time: new Date().toISOString(),
+        type: 'loan_override',
+        detail: `${order.id} → ${customer.name}: ${loanOverrideReason.trim()} (${check.problems.join('; ')})`,
+      })
+    }
+    updateOrderStatus(order, 'loan', customer).finally(() => {
+      setLoanStatusModalOpen(false)
+      setLoanStatusOrderId('')
+      setLoanStatusCustomerId('')
+      setLoanStatusSearch('')
+      setLoanOverrideReason('')
+    })
+  }
+
+  const saveCreditSetting = (customer: LoanCustomer, field: 'creditLimit' | 'maxDays', valueStr: string) => {
+    const value = Number(valueStr || 0)
+    if (Number.isNaN(value) || value < 0) {
+      setBanner({ type: 'error', message: 'Limits must be 0 or more. Use 0 for no limit.' })
+      return
+    }
+    if (value === (customer[field] ?? 0)) return
+    updateCreditSettings(customer, { [field]: value || null })
+  }
+
+  const updateCreditSettings = (customer: LoanCustomer, patch: Record<string, string | number | boolean | null>) => {
+    update(dbPath(`loanCustomers/${customer.dbId ?? customer.id}`), patch)
+      .then(() => {
+        setBanner({ type: 'success', message: 'Credit settings saved.' })
+        addLog({
+          userId: currentUser?.id ?? 'system',
+          time: new Date().toISOString(),
+          type: 'loan_limit',
+          detail: `${customer.name} ${Object.entries(patch)
+            .map(([k, v]) => `${k}=${v ?? 'none'}`)
+            .join(', ')}`,
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  const sendOutboxMessage = (message: OutboxMessage) => {
+    const customer = loanCustomers.find((c) => c.id === message.customerId)
+    const provider = MESSAGE_PROVIDERS[message.provider] ?? MESSAGE_PROVIDERS.fake
+    return provider
+      .send({ to: message.to, body: message.body, channel: message.channel })
+      .catch((err: Error) => ({ ok: false as const, error: err.message }))
+      .then((result) => {
+        const now = new Date().toISOString()
+        const updates: Record<string, unknown> = result.ok
+          ? { [`outbox/${message.id}/status`]: 'sent', [`outbox/${message.id}/sentAt`]: now, [`outbox/${message.id}/error`]: null }
+          : { [`outbox/${message.id}/status`]: 'failed', [`outbox/${message.id}/error`]: result.error }
+        if (result.ok && customer) updates[`loanCustomers/${customer.dbId ?? customer.id}/lastReminderAt`] = now
+        return update(ref(db, 'rms'), updates).then(() => result.ok)
+      })
+  }
+
+  // Automatic runs claim the day in a transaction first, so two admins opening the app the same morning
+  // don't both send; a manual run always goes ahead.
+  const runLoanReminders = (quiet = false) => {
+    if (remindersRunningRef.current) return
+    remindersRunningRef.current = true
+    const today = localDateKey(new Date())
+    const claim = quiet
+      ? runTransaction(dbPath('settings/remindersLastRun'), (current: string | null) =>
+          current === today ? undefined : today
+        ).then((result) => result.committed)
+      : Promise.resolve(true)
+    claim
+      .then((claimed) => {
+        if (!claimed) return
+        const due = loanCustomers
+          .map((customer) => ({ customer, aging: reminderDue(customer, settings) }))
+          .filter((d) => d.aging !== null)
+        if (due.length === 0) {
+          if (quiet) return
+          setBanner({ type: 'success', message: 'No customers are due a reminder.' })
+          return settings.remindersLastRun === today ? undefined : update(dbPath('settings'), { remindersLastRun: today })
+        }
+        const now = new Date().toISOString()
+        const providerId = settings.reminderProvider ?? 'fake'
+        return Promise.all(
+          due.map(({ customer, aging }) => {
+            const lang = customer.language ?? 'so'
+            const template =
+              (lang === 'en' ? settings.reminderTemplateEn : settings.reminderTemplateSo) || DEFAULT_REMINDER_TEMPLATES[lang]
+            const key = String(push(dbPath('outbox')).key)
+            const record: Omit<OutboxMessage, 'id'> = {
+              customerId: customer.id,
+              to: customer.phone,
+              channel: settings.reminderChannel ?? 'sms',
+              body: renderTemplate(template, {
+                name: customer.name,
+                amount: formatPrice(aging?.total ?? 0),
+                days: String(aging?.oldestDays ?? 0),
+                restaurant: settings.receiptName || 'RestoDash',
+              }),
+              provider: providerId,
+              status: 'queued',
+              createdAt: now,
+            }
+            return set(dbPath(`outbox/${key}`), record).then(() => sendOutboxMessage({ id: key, ...record }))
+          })
+        ).then((results) => {
+          const sent = results.filter(Boolean).length
+          const failed = results.length - sent
+          setBanner({
+            type: failed ? 'error' : 'success',
+            message: failed ? `${sent} reminder(s) sent, ${failed} failed. Check the outbox.` : `${sent} reminder(s) sent.`,
+          })
+          addLog({
+            userId: currentUser?.id ?? 'system',
+            time: new Date().toISOString(),
+            type: 'loan_reminders',
+            detail: `${sent} sent, ${failed} failed`,
+          })
+          return quiet ? undefined : update(dbPath('settings'), { remindersLastRun: today })
+        })
+      })
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+      .finally(() => {
+        remindersRunningRef.current = false
+      })
+  }
+
+  useEffect(() => {
+    remindersRef.current = runLoanReminders
+  })
+
+  const retryOutboxMessage = (message: OutboxMessage) => {
+    sendOutboxMessage(message)
+      .then((ok) =>
+        setBanner(ok ? { type: 'success', message: 'Reminder sent.' } : { type: 'error', message: 'Reminder failed again.' })
+      )
+      .catch((err) => setBanner({ type: 'error', message: err.message }))
+  }
+
+  const activeLoanCustomers = loanCustomers.filter((c) => !c.archived)
+  const newLoanCustomerDuplicate = loanCustomerModalOpen ? findLoanCustomerByPhone(newLoanCustomerPhone) : undefined
+  const loanCustomersFiltered = (showArchivedCustomers ? loanCustomers : activeLoanCustomers).filter((c) => {
+    const text = `${c.name} ${c.phone}`.toLowerCase()
+    return text.includes(loanCustomerSearch.trim().toLowerCase())
+  })
+  const loanCustomersModalFiltered = activeLoanCustomers.filter((c) => {
+    const text = `${c.name} ${c.phone}`.toLowerCase()
+    return text.includes(loanStatusSearch.trim().toLowerCase())
+  })
+
+  const handleLogin = () => {
+    if (users.length === 0) {
+      setAuthError('Data is still loading. Try again in a moment.')
+      return
+    }
+
+    const phone = authPhone.trim()
+    const normalized = normalizePhone(phone)
+    const pin = authPin.trim()
+    const match = users.find((user) => {
+      if (user.pin !== pin) return false
+      const stored = normalizePhone(user.phone)
+      return (
+        user.phone === phone ||
+        stored === normalized ||
+        stored.endsWith(normalized) ||
+        normalized.endsWith(stored)
+      )
+    })
+
+    if (!match) {
+      setAuthError('Invalid phone or PIN. Try again.')
+      return
+    }
+
+    setAuthError('')
+    setCurrentUser(match)
+    setTab(homeTab(match.role))
+    setSidebarOpen(false)
+    setProfileOpen(false)
+    addLog({ userId: match.id, time: new Date().toISOString(), type: 'login' })
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(
+        SESSION_KEY,
+        JSON.stringify({ userId: match.id, expiresAt: Date.now() + 60 * 60 * 1000 })
+      )
+    }
+    setBanner({ type: 'success', message: `Welcome, ${match.name}!` })
+    if (match.role === 'waiter') {
+      setDraftWaiter(match.id)
+    }
+  }
+
+  const handleLogout = () => {
+    setCurrentUser(null)
+    setBanner(null)
+    setDraftWaiter('')
+    setProfileOpen(false)
+    if (typeof window !== 'undefined') {
+      localStorage.removeItem(SESSION_KEY)
+    }
+  }
+
+  const editingImageUrl = itemActionItem && !itemImageRemove ? itemActionItem.imageUrl : undefined
+  const menuFields = (
+    <>
+      <label className="field">
+        <span>{tr(language, 'category')}</span>
+        <select className="field-input" value={itemCategoryDraft} onChange={(e) => setItemCategoryDraft(e.target.value)}>
+          <option value="">{tr(language, 'uncategorised')}</option>
+          {categories.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="field">
+        <span>{tr(language, 'itemImage')}</span>
+        {editingImageUrl && !itemImageFile && <img className="item-thumb item-thumb--large" src={editingImageUrl} alt="" />}
+        <input
+          className="field-input"
+          type="file"
+          accept="image/*"
+          onChange={(e) => setItemImageFile(e.target.files?.[0] ?? null)}
+        />
+        {itemActionItem?.imageUrl && !itemImageFile && (
+          <span className="order-meta">
+            <input type="checkbox" checked={itemImageRemove} onChange={(e) => setItemImageRemove(e.target.checked)} />{' '}
+            {tr(language, 'removeImage')}
+          </span>
+        )}
+      </label>
+    </>
+  )
+
+  const draftRecipeCost = roundMoney(
+    recipeDrafts.reduce((sum, d) => sum + (Number(d.qty) || 0) * (ingredientsById[d.ingredientId]?.cost ?? 0), 0)
+  )
+  const costEditor = (
+    <label className="field">
+      <span>{tr(language, 'costPrice')}</span>
+      <div className="toolbar toolbar--inline">
+        <select
+          className="field-input"
+          value={itemCostSource}
+          onChange={(e) => setItemCostSource(e.target.value as CostSource)}
+        >
+          {(['manual', 'purchase', 'recipe'] as const).map((source) => (
+            <option key={source} value={source} disabled={source === 'recipe' && ingredients.length === 0}>
+              {tr(language, `cost_${source}`)}
+            </option>
+          ))}
+        </select>
+        <input
+          className="field-input"
+          type="number"
+          min="0"
+          step="0.01"
+          disabled={itemCostSource === 'recipe'}
+          value={itemCostSource === 'recipe' ? draftRecipeCost.toFixed(2) : itemCostDraft}
+          onChange={(e) => setItemCostDraft(e.target.value)}
+        />
+      </div>
+    </label>
+  )
+
+  const recipeEditor =
+    ingredients.length === 0 ? null : (
+      <div className="modifier-editor">
+        <div className="panel__head">
+          <span className="order-meta">
+            <strong>{tr(language, 'recipe')}</strong>
+          </span>
+          <button
+            className="pill-btn"
+            type="button"
+            onClick={() => setRecipeDrafts((prev) => [...prev, { ingredientId: '', qty: '' }])}
+          >
+            {tr(language, 'addIngredient')}
+          </button>
+        </div>
+        {recipeDrafts.map((d, idx) => (
+          <div key={idx} className="toolbar toolbar--inline">
+            <select
+              className="field-input"
+              value={d.ingredientId}
+              onChange={(e) =>
+                setRecipeDrafts((prev) => prev.map((r, i) => (i === idx ? { ...r, ingredientId: e.target.value } : r)))
+              }
+            >
+              <option value="">{tr(language, 'selectIngredient')}</option>
+              {ingredients.map((ing) => (
+                <option key={ing.id} value={ing.id}>
+                  {ing.name} ({ing.unit})
+                </option>
+              ))}
+            </select>
+            <input
+              className="field-input"
+              type="number"
+              min="0"
+              step="any"
+              placeholder={tr(language, 'qtyPerItem')}
+              value={d.qty}
+              onChange={(e) =>
+                setRecipeDrafts((prev) => prev.map((r, i) => (i === idx ? { ...r, qty: e.target.value } : r)))
+              }
+            />
+            <button
+              className="pill-btn danger"
+              type="button"
+              onClick={() => setRecipeDrafts((prev) => prev.filter((_, i) => i !== idx))}
+            >
+              {tr(language, 'delete')}
+            </button>
+          </div>
+        ))}
+      </div>
+    )
+
+  const modifierEditor = (
+    <div className="modifier-editor">
+      <div className="panel__head">
+        <span className="order-meta">
+          <strong>{tr(language, 'modifiers')}</strong>
+        </span>
+        <button
+          className="pill-btn"
+          type="button"
+          onClick={() =>
+            setModifierDrafts((prev) => [
+              ...prev,
+              { id: `grp${Date.now()}`, name: '', required: false, multi: false, optionsText: '' },
+            ])
+          }
+        >
+          {tr(language, 'addModifierGroup')}
+        </button>
+      </div>
+      {modifierDrafts.map((d) => (
+        <div key={d.id} className="modifier-group">
+          <div className="toolbar toolbar--inline">
+            <input
+              className="field-input"
+              placeholder="Group name (e.g., Sugar)"
+              value={d.name}
+              onChange={(e) => updateModifierDraft(d.id, { name: e.target.value })}
+            />
+            <button
+              className="pill-btn danger"
+              type="button"
+              onClick={() => setModifierDrafts((prev) => prev.filter((g) => g.id !== d.id))}
+            >
+              {tr(language, 'delete')}
+            </button>
+          </div>
+          <div className="chip-row">
+            <label className="order-meta">
+              <input
+                type="checkbox"
+                checked={d.required}
+                onChange={(e) => updateModifierDraft(d.id, { required: e.target.checked })}
+              />{' '}
+              Required
+            </label>
+            <label className="order-meta">
+              <input
+                type="checkbox"
+                checked={d.multi}
+                onChange={(e) => updateModifierDraft(d.id, { multi: e.target.checked })}
+              />{' '}
+              Multiple choice
+            </label>
+          </div>
+          <textarea
+            className="field-input"
+            rows={3}
+            placeholder={'One option per line, optional price after |\nNo sugar\nExtra cheese | 0.5'}
+            value={d.optionsText}
+            onChange={(e) => updateModifierDraft(d.id, { optionsText: e.target.value })}
+          />
+        </div>
+      ))}
+    </div>
+  )
+
+  const renderBreakdown = (b: OrderBreakdown) => (
+    <div className="breakdown">
+      <div>
+        <span>{tr(language, 'subtotal')}</span>
+        <span>{formatPrice(b.gross)}</span>
+      </div>
+      {b.discount > 0 && (
+        <div className="breakdown__discount">
+          <span>{tr(language, 'discount')}</span>
+          <span>−{formatPrice(b.discount)}</span>
+        </div>
+      )}
+      {b.service > 0 && (
+        <div>
+          <span>{tr(language, 'serviceCharge')}</span>
+          <span>{formatPrice(b.service)}</span>
+        </div>
+      )}
+      {b.tax > 0 && (
+        <div>
+          <span>{settings.taxLabel || tr(language, 'tax')}</span>
+          <span>{formatPrice(b.tax)}</span>
+        </div>
+      )}
+    </div>
+  )
+
+  const renderDiscountFields = (
+    type: Discount['type'],
+    setType: (type: Discount['type']) => void,
+    value: string,
+    setValue: (value: string) => void,
+    reason: string,
+    setReason: (reason: string) => void
+  ) => (
+    <div className="discount-fields">
+      <select className="field-input" value={type} onChange={(e) => setType(e.target.value as Discount['type'])}>
+        <option value="percent">% {tr(language, 'discount')}</option>
+        <option value="fixed">$ {tr(language, 'discount')}</option>
+      </select>
+      <input
+        className="field-input"
+        type="number"
+        min="0"
+        step="0.01"
+        placeholder="0"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+      />
+      <input
+        className="field-input"
+        placeholder={tr(language, 'discountReason')}
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+      />
+    </div>
+  )
+
+  if (!currentUser) {
+    if (isLoading) {
+      return (
+        <div className="loader-page">
+          <img src={loadingGif} alt="Loading" className="loader__gif" />
+        </div>
+      )
+    }
+    const shellClass = 'mobile-shell auth-shell'
+    return (
+      <div className={shellClass}>
+        <div className="auth">
+          <div className="auth__card">
+            <div className="chef-icon" aria-hidden />
+            <h1 className="auth__title">{tr(language, 'loginTitle')}</h1>
+            <p className="auth__hint">{tr(language, 'loginHint')}</p>
+            <div className="auth__form">
+              <label className="field">
+                <span>{tr(language, 'phoneNumber')}</span>
+                <input
+                  type="tel"
+                  value={authPhone}
+                  onChange={(e) => setAuthPhone(e.target.value)}
+                  placeholder="e.g., +252901234567"
+                />
+              </label>
+              <label className="field">
+                <span>{tr(language, 'pinDigits')}</span>
+                <input
+                  type="password"
+                  value={authPin}
+                  onChange={(e) => setAuthPin(e.target.value)}
+                  inputMode="numeric"
+                  pattern="[0-9]*"
+                  placeholder="****"
+                />
+              </label>
+              {authError && <div className="banner banner--error">{authError}</div>}
+              <button className="primary auth__btn" onClick={handleLogin}>
+                {tr(language, 'signIn')}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const isAdmin = currentUser.role === 'admin'
+  const todayKey = localDateKey(new Date())
+  const loanIssues = isAdmin && tab === 'loans' ? loanConsistency(orders, loanCustomers) : []
+  const stockModalTarget = stockModalIngredient
+    ? {
+        label: stockModalIngredient.name,
+        stock: ingredientsById[stockModalIngredient.id]?.stock ?? stockModalIngredient.stock,
+        unit: stockModalIngredient.unit,
+      }
+    : stockModalItem
+      ? {
+          label: `${stockModalItem.name} · ${formatPrice(stockModalItem.price)}`,
+          stock: itemsById[stockModalItem.id]?.stock ?? stockModalItem.stock ?? 0,
+          unit: '',
+        }
+      : null
+  const shellClass = `mobile-shell${isAdmin ? ' admin-shell' : ''}`
+
+  return (
+    <div className={`${shellClass} ${isAdmin && sidebarOpen ? 'sidebar-open' : ''}`}>
+      {isAdmin && <div className="overlay" onClick={() => setSidebarOpen(false)} />}
+      <div className={`layout-shell ${isAdmin ? 'with-sidebar' : ''}`}>
+        {isAdmin && (
+          <aside className={`sidebar ${sidebarOpen ? 'open' : ''}`}>
+            <div className="sidebar__brand">
+              <FiGrid className="sidebar__brand-icon" aria-hidden />
+              <span>RestoDash</span>
+              <button className="icon-btn sidebar__close" onClick={() => setSidebarOpen(false)} aria-label="Close menu">
+                <FiX />
+              </button>
+            </div>
+            <nav className="sidebar__nav">
+              <button
+                className={`sidebar__item ${tab === 'dash' ? 'active' : ''}`}
+                onClick={() => { setTab('dash'); setSidebarOpen(false) }}
+              >
+                <FiHome /> <span>{tr(language, 'dashboardTitle')}</span>
+              </button>
+              <button
+                className={`sidebar__item ${tab === 'orders' ? 'active' : ''}`}
+                onClick={() => { setTab('orders'); setSidebarOpen(false) }}
+              >
+                <FiFileText /> <span>{tr(language, 'orders')}</span>
+              </button>
+              <button
+                className={`sidebar__item ${tab === 'kitchen' ? 'active' : ''}`}
+                onClick={() => { setTab('kitchen'); setSidebarOpen(false) }}
+              >
+                <FiCoffee /> <span>{tr(language, 'kitchen')}</span>
+              </button>
+              <button
+                className={`sidebar__item ${tab === 'loans' ? 'active' : ''}`}
+                onClick={() => { setTab('loans'); setSidebarOpen(false) }}
+              >
+                <FiDollarSign /> <span>{tr(language, 'loans')}</span>
+              </button>
+              <button
+                className={`sidebar__item ${tab === 'staff' ? 'active' : ''}`}
+                onClick={() => { setTab('staff'); setSidebarOpen(false) }}
+              >
+                <FiUsers /> <span>{tr(language, 'staff')}</span>
+              </button>
+              <button
+                className={`sidebar__item ${tab === 'items' ? 'active' : ''}`}
+                onClick={() => { setTab('items'); setSidebarOpen(false) }}
+              >
+                <FiBox /> <span>{tr(language, 'items')}</span>
+                {metrics.lowStock.length > 0 && <span className="nav-badge">{metrics.lowStock.length}</span>}
+              </button>
+              <button
+                className={`sidebar__item ${tab === 'purchases' ? 'active' : ''}`}
+                onClick={() => { setTab('purchases'); setSidebarOpen(false) }}
+              >
+                <FiTruck /> <span>{tr(language, 'purchases')}</span>
+              </button>
+              <button
+                className={`sidebar__item ${tab === 'reports' ? 'active' : ''}`}
                 onClick={() => { setTab('reports'); setSidebarOpen(false) }}
               >
-                <FiBarChart2 /> <span>{tr(language, 'reports')}</span>
-              </button>
-            </nav>
-          </aside>
-        )}
+                <FiBarChart2 /> <span>{tr(language, 'reports')}</span>
+              </button>
+              <button
+                className={`sidebar__item ${tab === 'settings' ? 'active' : ''}`}
+                onClick={() => { setTab('settings'); setSidebarOpen(false) }}
+              >
+                <FiSettings /> <span>{tr(language, 'settings')}</span>
+              </button>
+            </nav>
+          </aside>
+        )}
+
+        <div className="main-column">
+          <header className="topbar">
+            <div className="topbar__left">
+              {isAdmin && (
+                <button className="icon-btn ghost-btn" onClick={() => setSidebarOpen((v) => !v)} aria-label="Menu">
+                  {sidebarOpen ? <FiX /> : <FiMenu />}
+                </button>
+              )}
+              <div className={`brand ${isAdmin ? '' : 'brand--standalone'}`}>RestoDash</div>
+            </div>
+            <div className="topbar__user">
+              <div className="quick-actions">
+                {(!connected || syncQueue.length > 0) && (
+                  <button
+                    className={`sync-chip ${connected ? '' : 'sync-chip--offline'} ${
+                      syncQueue.some((a) => a.conflict) ? 'sync-chip--conflict' : ''
+                    }`}
+                    onClick={() => setSyncModalOpen(true)}
+                    aria-label="Sync status"
+                  >
+                    {connected ? <FiCloud /> : <FiCloudOff />}
+                    <span>{syncQueue.length > 0 ? syncQueue.length : tr(language, 'offline')}</span>
+                  </button>
+                )}
+                <button
+                  className="circle-btn notify-btn"
+                  onClick={() => setNotificationsOpen((v) => !v)}
+                  aria-label="Notifications"
+                >
+                  <FiBell />
+                  {unreadNotifications > 0 && <span className="notify-badge">{unreadNotifications}</span>}
+                </button>
+                <button
+                  className="lang-chip"
+                  onClick={() => setLanguage((prev) => (prev === 'en' ? 'so' : 'en'))}
+                  aria-label="Toggle language"
+                >
+                  {language === 'en' ? 'EN' : 'SO'}
+                </button>
+              </div>
+              <div className="topbar__meta">
+                <strong>{currentUser.name}</strong>
+                <span>{ROLE_LABEL[currentUser.role]}</span>
+              </div>
+              <button
+                ref={avatarRef}
+                className="avatar"
+                onClick={() => setProfileOpen((v) => !v)}
+                aria-label="Profile menu"
+              >
+                {currentUser.name.charAt(0)}
+              </button>
+              {notificationsOpen && (
+                <div className="profile-card notifications-card">
+                  <div className="panel__head">
+                    <p className="profile-name">{tr(language, 'notifications')}</p>
+                    {unreadNotifications > 0 && (
+                      <button className="text-btn" onClick={markNotificationsRead}>
+                        {tr(language, 'markAllRead')}
+                      </button>
+                    )}
+                  </div>
+                  {notifications.length === 0 && <p className="profile-meta">{tr(language, 'noNotifications')}</p>}
+                  <ul className="logs">
+                    {notifications.slice(0, 20).map((n) => (
+                      <li key={n.id} className={n.read ? '' : 'unread'}>
+                        <span className="logs__user">{n.message}</span>
+                        <span className="logs__time">{formatDateTime(n.time)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {profileOpen && (
+                <div className="profile-card" ref={profileCardRef}>
+                  <p className="profile-name">{currentUser.name}</p>
+                  <p className="profile-meta">{currentUser.phone}</p>
+                  <p className="profile-meta">{ROLE_LABEL[currentUser.role]}</p>
+                  <div className="profile-actions">
+                    <button
+                      className="text-btn"
+                      onClick={() => {
+                        closeOverlays()
+                        setActionWaiter(currentUser)
+                        setActionType('profile')
+                        setActionName(currentUser.name)
+                        setActionPhone(currentUser.phone)
+                        setActionRole(currentUser.role)
+                        setActionPin('')
+                        setProfileOpen(false)
+                      }}
+                    >
+                      Edit profile
+                    </button>
+                    <button className="signout-btn block" onClick={handleLogout}>
+                      Sign out
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </header>
+
+          <main className="content">
+            {tab === 'dash' && (
+              <>
+                <div className="page-title-row">
+                  <div>
+                    <h1 className="page-title">{tr(language, 'dashboardTitle')}</h1>
+                  </div>
+                </div>
+                {banner && <div className={`banner banner--${banner.type}`}>{banner.message}</div>}
+                <div className="card-grid">
+                  <div className="metric-card gradient">
+                    <p>Sales</p>
+                    <strong>{formatPrice(metrics.totalSales)}</strong>
+                    <FiDollarSign className="metric-icon" aria-hidden />
+                  </div>
+                  <div className="metric-card gradient">
+                    <p>Active Orders</p>
+                    <strong>{metrics.totalOrders}</strong>
+                    <FiList className="metric-icon" aria-hidden />
+                  </div>
+                  {isAdmin && (
+                    <div className="metric-card gradient">
+                      <p>Staff</p>
+                      <strong>{metrics.staffCount}</strong>
+                      <FiUserCheck className="metric-icon" aria-hidden />
+                    </div>
+                  )}
+                </div>
+                {metrics.lowStock.length > 0 && (
+                  <div className="panel light" style={{ marginBottom: 12 }}>
+                    <div className="panel__head">
+                      <h3>{tr(language, 'lowStock')}</h3>
+                      <button className="pill-btn" onClick={() => setTab('items')}>
+                        {tr(language, 'items')}
+                      </button>
+                    </div>
+                    <div className="loan-list">
+                      {metrics.lowStock.map((item) => (
+                        <div key={item.id} className="loan-row">
+                          <div>
+                            <p className="loan-order">{item.name}</p>
+                            <p className="order-meta">
+                              {tr(language, 'reorderLevel')}: {item.reorderLevel ?? 0}
+                            </p>
+                          </div>
+                          <span className={`status-chip ${(item.stock ?? 0) === 0 ? 'void' : 'pending'}`}>
+                            {(item.stock ?? 0) === 0 ? tr(language, 'outOfStock') : `${item.stock} ${tr(language, 'left')}`}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {(waiterCharts.length > 0 || logs.length > 0 || (!isAdmin && waiterStatusStats.total > 0)) && (
+                  <div className="chart-row">
+                    {isAdmin && waiterCharts.length > 0 && (
+                      <div className="panel light chart-panel">
+                        <Doughnut
+                          data={{
+                            labels: waiterCharts.map((w) => usersById[w.waiter.id]?.name ?? w.waiter.id),
+                            datasets: [
+                              {
+                                label: 'Orders',
+                                data: waiterCharts.map((w) => w.orders),
+                                backgroundColor: chartPalette,
+                              },
+                            ],
+                          }}
+                          options={{
+                            responsive: true,
+                            plugins: { legend: { position: 'bottom' } },
+                          }}
+                        />
+                      </div>
+                    )}
+                    {!isAdmin && waiterStatusStats.total > 0 && (
+                      <div className="panel light chart-panel">
+                        <Doughnut
+                          data={{
+                            labels: ['Paid', 'Loan', 'Pending'],
+                            datasets: [
+                              {
+                                data: [waiterStatusStats.paid, waiterStatusStats.loan, waiterStatusStats.pending],
+                                backgroundColor: ['#0ea44d', '#f59e0b', '#9ca3af'],
+                              },
+                            ],
+                          }}
+                          options={{
+                            responsive: true,
+                            plugins: { legend: { position: 'bottom' } },
+                          }}
+                        />
+                      </div>
+                    )}
+                    {logs.length > 0 && (
+                      <div className="panel light logs-panel">
+                        <div className="panel__head">
+                          <h3>Recents</h3>
+                        </div>
+                        <ul className="logs" style={{ maxHeight: '280px', overflowY: 'auto' }}>
+                          {logs.map((log) => (
+                            <li key={log.id}>
+                              <span className="logs__user">{renderLogMessage(log)}</span>
+                              <span className="logs__time">{formatDateTime(log.time)}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+
+            {tab === 'orders' && (
+              <>
+                <div className="page-title-row">
+                  <div>
+                    <h1 className="page-title">{tr(language, 'ordersTitle')}</h1>
+                  </div>
+                </div>
+                <div className="chip-row">
+                  {(['list', 'floor'] as const).map((view) => (
+                    <button
+                      key={view}
+                      className={`chip ${orderView === view ? 'active' : ''}`}
+                      onClick={() => setOrderView(view)}
+                    >
+                      {view === 'list' ? tr(language, 'orderList') : tr(language, 'floorPlan')}
+                    </button>
+                  ))}
+                </div>
+                {banner && <div className={`banner banner--${banner.type}`}>{banner.message}</div>}
+                {orderView === 'floor' && (
+                  <>
+                    {isAdmin && (
+                      <div className="toolbar">
+                        <button
+                          className="primary"
+                          onClick={() => {
+                            closeOverlays()
+                            setTableModalOpen(true)
+                          }}
+                        >
+                          {tr(language, 'addTable')}
+                        </button>
+                      </div>
+                    )}
+                    {tables.length === 0 && <div className="empty light">{tr(language, 'noTables')}</div>}
+                    {tablesByArea.map(([area, areaTables]) => (
+                      <div key={area} className="floor-area">
+                        <h3 className="floor-area__title">{area}</h3>
+                        <div className="floor-grid">
+                          {areaTables.map((table) => {
+                            const open = openOrdersByTable[table.id] ?? []
+                            const running = open.reduce((sum, o) => sum + orderTotal(o), 0)
+                            return (
+                              <div
+                                key={table.id}
+                                className={`table-card ${table.status}`}
+                                role="button"
+                                onClick={() => {
+                                  setViewTable(table)
+                                  setMergeTargetId('')
+                                }}
+                              >
+                                <div className="table-card__head">
+                                  <strong>T{table.number}</strong>
+                                  <span className="order-meta">
+                                    {table.seats} {tr(language, 'seats').toLowerCase()}
+                                  </span>
+                                </div>
+                                <span className={`table-status ${table.status}`}>{TABLE_STATUS_LABEL[table.status]}</span>
+                                <ul className="table-card__orders">
+                                  {open.map((o) => (
+                                    <li
+                                      key={o.dbId ?? o.id}
+                                      onClick={(e) => {
+                                        e.stopPropagation()
+                                        setViewOrder(o)
+                                      }}
+                                    >
+                                      <span>{o.id}</span>
+                                      <span>{formatPrice(orderTotal(o))}</span>
+                                    </li>
+                                  ))}
+                                </ul>
+                                <div className="table-card__total">
+                                  <span>{tr(language, 'total')}</span>
+                                  <strong>{formatPrice(running)}</strong>
+                                </div>
+                              </div>
+                            )
+                          })}
+                        </div>
+                      </div>
+                    ))}
+                  </>
+                )}
+                {orderView === 'list' && (
+                  <>
+              <input
+                className="search"
+                type="search"
+                placeholder={tr(language, 'searchOrders')}
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+                <div className="toolbar toolbar--inline" style={{ marginTop: 8 }}>
+                  <label className="field" style={{ minWidth: 200 }}>
+                    <span>Waiter</span>
+                    <select
+                      className="field-input"
+                      value={orderWaiterFilter}
+                      onChange={(e) => setOrderWaiterFilter(e.target.value)}
+                    >
+                      <option value="all">All waiters</option>
+                      {users
+                        .filter((u) => u.role === 'waiter')
+                        .map((w) => (
+                          <option key={w.id} value={w.id}>
+                            {w.name}
+                          </option>
+                        ))}
+                    </select>
+                  </label>
+                </div>
+                <div className="chip-row">
+                  {(['all', 'active', 'paid', 'loan', 'done'] as const).map((f) => (
+                    <button
+                      key={f}
+                      className={`chip ${orderFilter === f ? 'active' : ''}`}
+                      onClick={() => setOrderFilter(f)}
+                    >
+                      {f === 'all'
+                        ? tr(language, 'all')
+                        : f === 'active'
+                        ? tr(language, 'active')
+                        : f === 'paid'
+                        ? tr(language, 'paid')
+                        : f === 'loan'
+                        ? tr(language, 'loan')
+                        : tr(language, 'done')}
+                    </button>
+                  ))}
+                </div>
+              <div className="order-list-card">
+                {orderListSorted.length === 0 && <div className="empty light">{tr(language, 'noOrders')}</div>}
+                {orderListSorted.map((order, idx) => {
+                  const timeValid = !!order.time && !Number.isNaN(new Date(order.time).getTime())
+                  const timeLabel = timeValid ? formatDateTime(order.time) : ''
+                  const key = `${order.dbId ?? order.id}-${idx}`
+                  return (
+                  <div
+                    key={key}
+                    className="order-card light"
+                    onClick={() => setViewOrder(order)}
+                    role="button"
+                  >
+                    <div className="order-card__row">
+                            <div>
+                              <p className="order-id">
+                                {order.ticket && <span className="ticket-no">#{order.ticket}</span>} {orderTitle(order)}
+                              </p>
+                              <p className="order-meta">
+                                Served by: {usersById[order.waiterId]?.name ?? order.waiterId}{' '}
+                                ({usersById[order.waiterId] ? ROLE_LABEL[usersById[order.waiterId].role] : 'User'})
+                                {order.tableId && <> &middot; {tableLabel(order.tableId)}</>}
+                              </p>
+                            </div>
+                            <div className="order-amount">
+                              <div className="order-amount__top">
+                            <span className="order-price">
+                              {formatPrice(orderTotal(order))}
+                              {order.status === 'pending' && orderPaid(order) > 0 && (
+                                <small className="line-extras">
+                                  {formatPrice(orderBalance(order))} {tr(language, 'balance').toLowerCase()}
+                                </small>
+                              )}
+                            </span>
+          {order.status !== 'void' && (
+          <select
+            className="status-select"
+            value={order.status ?? 'pending'}
+            onChange={(e) => handleStatusChange(order, e.target.value as 'paid' | 'loan' | 'pending')}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <option value="pending">{tr(language, 'statusPending')}</option>
+            <option value="paid">{tr(language, 'statusPaid')}</option>
+            <option value="loan">{tr(language, 'statusLoan')}</option>
+          </select>
+          )}
+                          </div>
+                          <span className={`status-chip ${statusLabel(order.status).tone}`}>
+                            {statusLabel(order.status).text}
+                          </span>
+                        </div>
+                      </div>
+                      {timeValid && (
+                        <div className="order-card__meta">
+                          <span className="icon">🧾</span>
+                          <span className="order-time">{timeLabel}</span>
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+                </div>
+                  </>
+                )}
+              </>
+            )}
+
+            {tab === 'kitchen' && (currentUser.role === 'kitchen' || isAdmin) && (
+              <>
+                <div className="page-title-row">
+                  <div>
+                    <h1 className="page-title">{tr(language, 'kitchenTitle')}</h1>
+                  </div>
+                </div>
+                {banner && <div className={`banner banner--${banner.type}`}>{banner.message}</div>}
+                {kitchenOrders.length === 0 && <div className="empty light">{tr(language, 'noTickets')}</div>}
+                <div className="kitchen-grid">
+                  {kitchenOrders.map((order) => {
+                    const minutes = Math.max(0, Math.floor((clock - new Date(order.time).getTime()) / 60000))
+                    return (
+                      <div key={order.dbId ?? order.id} className={`ticket ${minutes >= 15 ? 'late' : ''}`}>
+                        <div className="ticket__head">
+                          <strong>{order.ticket ? `#${order.ticket}` : order.id}</strong>
+                          {order.tableId && <span className="table-status occupied">{tableLabel(order.tableId)}</span>}
+                          <span className="order-meta">{minutes} min</span>
+                        </div>
+                        <p className="order-meta">
+                          {tr(language, 'servedBy')} {usersById[order.waiterId]?.name ?? order.waiterId}
+                        </p>
+                        <ul className="ticket__lines">
+                          {order.items.map((line, idx) => {
+                            const prep = line.prep ?? 'queued'
+                            const extras = modifierLabel(line)
+                            return (
+                              <li key={line.key ?? idx} className={`prep-${prep}`}>
+                                <div>
+                                  <strong>
+                                    {line.qty} × {lineName(line, itemsById)}
+                                  </strong>
+                                  {extras && <small className="line-extras">{extras}</small>}
+                                </div>
+                                <button
+                                  className={`prep-btn ${prep}`}
+                                  disabled={prep === 'ready'}
+                                  onClick={() => updateLinePrep(order, line, NEXT_PREP[prep])}
+                                >
+                                  {PREP_LABEL[prep]}
+                                </button>
+                              </li>
+                            )
+                          })}
+                        </ul>
+                      </div>
+                    )
+                  })}
+                </div>
+              </>
+            )}
+
+            {tab === 'settings' && currentUser.role === 'admin' && (
+              <>
+                <div className="page-title-row">
+                  <div>
+                    <h1 className="page-title">{tr(language, 'settingsTitle')}</h1>
+                  </div>
+                </div>
+                {banner && <div className={`banner banner--${banner.type}`}>{banner.message}</div>}
+                <div className="panel light settings-panel">
+                  <div className="panel__head">
+                    <h3>{tr(language, 'orders')}</h3>
+                  </div>
+                  <label className="setting-row">
+                    <div>
+                      <strong>{tr(language, 'dailyTickets')}</strong>
+                      <p className="order-meta">{tr(language, 'dailyTicketsHint')}</p>
+                    </div>
+                    <input
+                      type="checkbox"
+                      checked={!!settings.dailyTickets}
+                      onChange={(e) => updateSettings({ dailyTickets: e.target.checked })}
+                    />
+                  </label>
+                  <div className="setting-row">
+                    <div>
+                      <strong>{tr(language, 'priceSnapshots')}</strong>
+                      <p className="order-meta">
+                        {settings.snapshotsBackfilledAt
+                          ? `${tr(language, 'priceSnapshotsDone')} ${new Date(settings.snapshotsBackfilledAt).toLocaleString()}`
+                          : tr(language, 'priceSnapshotsHint')}
+                        {linesMissingPrice > 0 && ` · ${linesMissingPrice} ${tr(language, 'linesMissingPrice')}`}
+                      </p>
+                    </div>
+                    <button className="pill-btn" disabled={linesMissingPrice === 0} onClick={backfillPriceSnapshots}>
+                      {tr(language, 'runBackfill')}
+                    </button>
+                  </div>
+                </div>
+                <div className="panel light settings-panel" style={{ marginTop: 12 }}>
+                  <div className="panel__head">
+                    <h3>{tr(language, 'taxAndCharges')}</h3>
+                  </div>
+                  <label className="field">
+                    <span>{tr(language, 'taxLabel')}</span>
+                    <input
+                      key={`taxLabel-${settings.taxLabel ?? ''}`}
+                      className="field-input"
+                      placeholder="VAT"
+                      defaultValue={settings.taxLabel ?? ''}
+                      onBlur={(e) => {
+                        if (e.target.value.trim() !== (settings.taxLabel ?? '')) updateSettings({ taxLabel: e.target.value.trim() })
+                      }}
+                    />
+                  </label>
+                  {(['taxRate', 'serviceRate', 'serviceMinGuests'] as const).map((field) => (
+                    <label key={field} className="field">
+                      <span>{tr(language, field)}</span>
+                      <input
+                        key={`${field}-${settings[field] ?? 0}`}
+                        className="field-input"
+                        type="number"
+                        min="0"
+                        step={field === 'serviceMinGuests' ? 1 : 0.5}
+                        defaultValue={settings[field] ?? 0}
+                        onBlur={(e) => saveNumericSetting(field, e.target.value)}
+                      />
+                    </label>
+                  ))}
+                </div>
+                <div className="panel light settings-panel" style={{ marginTop: 12 }}>
+                  <div className="panel__head">
+                    <h3>{tr(language, 'reminders')}</h3>
+                  </div>
+                  <label className="setting-row">
+                    <div>
+                      <strong>{tr(language, 'reminderAuto')}</strong>
+                      <p className="order-meta">{tr(language, 'reminderAutoHint')}</p>
+                    </div>
+                    <input
+                      type="checkbox"
+                      checked={!!settings.reminderAuto}
+                      onChange={(e) => updateSettings({ reminderAuto: e.target.checked })}
+                    />
+                  </label>
+                  {(['reminderDays', 'reminderEveryDays'] as const).map((field) => (
+                    <label key={field} className="field">
+                      <span>{tr(language, field)}</span>
+                      <input
+                        key={`${field}-${settings[field] ?? ''}`}
+                        className="field-input"
+                        type="number"
+                        min="0"
+                        step={1}
+                        defaultValue={settings[field] ?? (field === 'reminderDays' ? 30 : 7)}
+                        onBlur={(e) => saveNumericSetting(field, e.target.value)}
+                      />
+                    </label>
+                  ))}
+                  <label className="field">
+                    <span>{tr(language, 'reminderChannel')}</span>
+                    <select
+                      className="field-input"
+                      value={settings.reminderChannel ?? 'sms'}
+                      onChange={(e) => updateSettings({ reminderChannel: e.target.value as MessageChannel })}
+                    >
+                      <option value="sms">SMS</option>
+                      <option value="whatsapp">WhatsApp</option>
+                    </select>
+                  </label>
+                  <label className="field">
+                    <span>{tr(language, 'reminderProvider')}</span>
+                    <select
+                      className="field-input"
+                      value={settings.reminderProvider ?? 'fake'}
+                      onChange={(e) => updateSettings({ reminderProvider: e.target.value })}
+                    >
+                      {Object.values(MESSAGE_PROVIDERS).map((provider) => (
+                        <option key={provider.id} value={provider.id}>
+                          {provider.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  {(['reminderTemplateSo', 'reminderTemplateEn'] as const).map((field) => (
+                    <label key={field} className="field">
+                      <span>{tr(language, field)}</span>
+                      <textarea
+                        key={`${field}-${settings[field] ?? ''}`}
+                        className="field-input"
+                        rows={3}
+                        defaultValue={settings[field] || DEFAULT_REMINDER_TEMPLATES[field === 'reminderTemplateEn' ? 'en' : 'so']}
+                        onBlur={(e) => {
+                          if (e.target.value.trim() !== (settings[field] ?? '')) updateSettings({ [field]: e.target.value.trim() })
+                        }}
+                      />
+                    </label>
+                  ))}
+                  <p className="order-meta">{tr(language, 'templateHint')}</p>
+                </div>
+                <div className="panel light settings-panel" style={{ marginTop: 12 }}>
+                  <div className="panel__head">
+                    <h3>{tr(language, 'receipt')}</h3>
+                  </div>
+                  {(['receiptName', 'receiptAddress', 'receiptPhone', 'receiptFooter'] as const).map((field) => (
+                    <label key={field} className="field">
+                      <span>{tr(language, field)}</span>
+                      <input
+                        key={`${field}-${settings[field] ?? ''}`}
+                        className="field-input"
+                        placeholder={field === 'receiptName' ? 'RestoDash' : ''}
+                        defaultValue={settings[field] ?? ''}
+                        onBlur={(e) => {
+                          if (e.target.value.trim() !== (settings[field] ?? '')) updateSettings({ [field]: e.target.value.trim() })
+                        }}
+                      />
+                    </label>
+                  ))}
+                  <label className="field">
+                    <span>{tr(language, 'receiptWidth')}</span>
+                    <select
+                      className="field-input"
+                      value={settings.receiptWidth ?? 80}
+                      onChange={(e) => updateSettings({ receiptWidth: Number(e.target.value) as PaperWidth })}
+                    >
+                      <option value={58}>58 mm</option>
+                      <option value={80}>80 mm</option>
+                    </select>
+                  </label>
+                </div>
+              </>
+            )}
+
+            {tab === 'staff' && currentUser.role === 'admin' && (
+              <>
+                <div className="page-title-row">
+                  <div>
+                    <h1 className="page-title">{tr(language, 'staffTitle')}</h1>
+                  </div>
+                </div>
+                <div className="panel light staff-form">
+                  <div className="toolbar toolbar--inline">
+                    <input
+                      className="search"
+                      placeholder={tr(language, 'searchUsers')}
+                      value={waiterSearch}
+                      onChange={(e) => setWaiterSearch(e.target.value)}
+                    />
+                    <button
+                      className="primary"
+                      onClick={() => {
+                        closeOverlays()
+                        setWaiterModalOpen(true)
+                      }}
+                    >
+                      {tr(language, 'addUser')}
+                    </button>
+                  </div>
+                  <div className="table table--staff">
+                    <div className="table__head">
+                      <span>No.</span>
+                      <span>{tr(language, 'name')}</span>
+                      <span>{tr(language, 'phone')}</span>
+                      <span>{tr(language, 'statusActive')}</span>
+                      <span>{tr(language, 'actions')}</span>
+                    </div>
+                    {staffFiltered.length === 0 && <div className="empty light">{tr(language, 'noUsers')}</div>}
+                    {staffFiltered.map((waiter, idx) => {
+                      const isTargetAdmin = waiter.role === 'admin'
+                      const isSelf = waiter.id === currentUser.id
+                      return (
+                        <div key={waiter.id} className="table__row">
+                          <span>{idx + 1}.</span>
+                          <span>{waiter.name}</span>
+                          <span>{waiter.phone}</span>
+                          <span>{ROLE_LABEL[waiter.role]}</span>
+                          <span className="action-menu">
+                            {isTargetAdmin && !isSelf ? (
+                              <span className="order-meta">Locked</span>
+                            ) : (
+                              <button
+                                className="action-dots"
+                onClick={() => {
+                  setPendingDelete(null)
+                  setActionWaiter(waiter)
+                  setActionType(null)
+                  setActionRole(waiter.role)
+                  setActionPin('')
+                  setOpenAction(waiter.id)
+                }}
+                aria-haspopup="menu"
+              >
+                ⋮
+                              </button>
+                            )}
+                          </span>
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+              </>
+            )}
+
+            {tab === 'loans' && (
+              <>
+                <div className="page-title-row">
+                  <div>
+                    <h1 className="page-title">{tr(language, 'loanBook')}</h1>
+                  </div>
+                </div>
+                <div className="toolbar toolbar--inline">
+                    <input
+                      className="search"
+                      placeholder={tr(language, 'searchLoanCustomers')}
+                      value={loanCustomerSearch}
+                      onChange={(e) => setLoanCustomerSearch(e.target.value)}
+                    />
+                    <button
+                      className={`chip ${showArchivedCustomers ? 'active' : ''}`}
+                      onClick={() => setShowArchivedCustomers((v) => !v)}
+                    >
+                      {tr(language, 'showArchived')}
+                    </button>
+                    <div className="staff-manage__actions">
+                      <button
+                        className="primary"
+                        onClick={() => {
+                          closeOverlays()
+                          setLoanCustomerModalOpen(true)
+                        }}
+                      >
+                      {tr(language, 'addLoanCustomer')}
+                      </button>
+                      <button
+                        className="pill-btn"
+                        onClick={() => {
+                          closeOverlays()
+                          setLoanEntryModalOpen(true)
+                        }}
+                      >
+                      {tr(language, 'addLoanEntry')}
+                      </button>
+                    </div>
+                </div>
+                  <div className="card-grid">
+                    <div className="metric-card gradient">
+                    <p>{tr(language, 'loanOrders')}</p>
+                    <strong>{loanTotals.count}</strong>
+                    <FiList className="metric-icon" aria-hidden />
+                  </div>
+                  <div className="metric-card gradient">
+                    <p>{tr(language, 'loanAmount')}</p>
+                    <strong>{formatPrice(loanTotals.amount)}</strong>
+                    <FiDollarSign className="metric-icon" aria-hidden />
+                  </div>
+                  <div className="metric-card gradient">
+                    <p>{tr(language, 'outstanding')}</p>
+                    <strong>{formatPrice(loanOutstanding)}</strong>
+                    <FiDollarSign className="metric-icon" aria-hidden />
+                  </div>
+                </div>
+                {isAdmin && (
+                  <div className="panel light" style={{ marginBottom: 12 }}>
+                    <div className="panel__head">
+                      <h3>{tr(language, 'reminders')}</h3>
+                      <button className="pill-btn" disabled={remindersDue === 0} onClick={() => runLoanReminders()}>
+                        {tr(language, 'sendReminders')} ({remindersDue})
+                      </button>
+                    </div>
+                    <p className="order-meta">
+                      {tr(language, 'remindersHint')
+                        .replace('{days}', String(settings.reminderDays ?? 30))
+                        .replace('{every}', String(settings.reminderEveryDays ?? 7))}
+                    </p>
+                    <div className="loan-list" style={{ marginTop: 10 }}>
+                      {outbox.length === 0 && <div className="empty light">{tr(language, 'outboxEmpty')}</div>}
+                      {outbox.slice(0, 20).map((m) => (
+                        <div key={m.id} className="loan-row">
+                          <div>
+                            <p className="loan-order">
+                              {loanCustomers.find((c) => c.id === m.customerId)?.name ?? m.to} &middot; {m.to}
+                            </p>
+                            <p className="order-meta">{m.body}</p>
+                            <p className="order-meta">
+                              {m.channel.toUpperCase()} &middot; {formatDateTime(m.sentAt ?? m.createdAt)}
+                              {m.error ? ` · ${m.error}` : ''}
+                            </p>
+                          </div>
+                          <div className="chip-row">
+                            <span className={`status-chip ${OUTBOX_TONE[m.status]}`}>{tr(language, `outbox_${m.status}`)}</span>
+                            {m.status === 'failed' && (
+                              <button className="chip" onClick={() => retryOutboxMessage(m)}>
+                                {tr(language, 'retry')}
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {isAdmin && (
+                  <div className="panel light" style={{ marginBottom: 12 }}>
+                    <div className="panel__head">
+                      <h3>{tr(language, 'loanConsistency')}</h3>
+                      <span className={`status-chip ${loanIssues.length ? 'void' : 'done'}`}>{loanIssues.length}</span>
+                    </div>
+                    {loanIssues.length === 0 && <p className="order-meta">{tr(language, 'loanConsistencyOk')}</p>}
+                    <div className="loan-list">
+                      {loanIssues.map((issue) =>
+                        issue.kind === 'orphan' ? (
+                          <div key={`${issue.customer.id}-${issue.entry.id}`} className="loan-row">
+                            <div>
+                              <p className="loan-order">
+                                {tr(language, 'orphanedEntry')} &middot; {issue.entry.orderId}
+                              </p>
+                              <p className="order-meta">
+                                {issue.customer.name} &middot; {formatPrice(issue.entry.amount)} &middot; {issue.problem}
+                              </p>
+                            </div>
+                            <button className="chip" onClick={() => fixOrphanedLoan(issue)}>
+                              {issue.order?.status === 'paid' ? tr(language, 'paidAtCounter') : tr(language, 'removeEntry')}
+                            </button>
+                          </div>
+                        ) : (
+                          <div key={issue.order.dbId ?? issue.order.id} className="loan-row">
+                            <div>
+                              <p className="loan-order">
+                                {tr(language, 'unlinkedLoanOrder')} &middot; {issue.order.id}
+                              </p>
+                              <p className="order-meta">
+                                {orderTitle(issue.order)} &middot; {formatPrice(orderBalance(issue.order))}
+                              </p>
+                            </div>
+                            <button
+                              className="chip"
+                              onClick={() => {
+                                closeOverlays()
+                                setLoanEntryOrderId(issue.order.dbId ?? issue.order.id)
+                                setLoanEntryModalOpen(true)
+                              }}
+                            >
+                              {tr(language, 'assignCustomer')}
+                            </button>
+                          </div>
+                        )
+                      )}
+                    </div>
+                  </div>
+                )}
+                <div className="panel light" style={{ marginBottom: 12 }}>
+                  <div className="panel__head">
+                    <h3>{tr(language, 'loanAging')}</h3>
+                    <div className="chip-row">
+                      {(['total', 'oldest'] as const).map((key) => (
+                        <button
+                          key={key}
+                          className={`chip ${agingSort === key ? 'active' : ''}`}
+                          onClick={() => setAgingSort(key)}
+                        >
+                          {tr(language, key === 'total' ? 'sortByTotal' : 'sortByOldest')}
+                        </button>
+                      ))}
+                      <button className="pill-btn" onClick={exportAgingCSV}>
+                        CSV
+                      </button>
+                    </div>
+                  </div>
+                  <div className="table aging-table">
+                    <div className="table__head">
+                      <span>{tr(language, 'customer')}</span>
+                      {AGING_BUCKETS.map((b) => (
+                        <span key={b}>{b}</span>
+                      ))}
+                      <span>Total</span>
+                      <span>{tr(language, 'oldestDays')}</span>
+                    </div>
+                    {agingRows.length === 0 && <div className="empty light">{tr(language, 'nothingOwed')}</div>}
+                    {agingRows.map((row) => (
+                      <div
+                        key={row.customer.id}
+                        className="table__row"
+                        role="button"
+                        onClick={() => setViewLoanCustomer(row.customer)}
+                      >
+                        <span>{row.customer.name}</span>
+                        {row.buckets.map((b, idx) => (
+                          <span key={AGING_BUCKETS[idx]} className={b > 0 && idx === 3 ? 'aging-overdue' : ''}>
+                            {b > 0 ? formatPrice(b) : '—'}
+                          </span>
+                        ))}
+                        <span>{formatPrice(row.total)}</span>
+                        <span>{row.oldestDays}</span>
+                      </div>
+                    ))}
+                    {agingRows.length > 0 && (
+                      <div className="table__row total-row">
+                        <span>Total</span>
+                        {agingTotals.map((b, idx) => (
+                          <span key={AGING_BUCKETS[idx]}>{formatPrice(b)}</span>
+                        ))}
+                        <span>{formatPrice(agingTotals.reduce((sum, b) => sum + b, 0))}</span>
+                        <span />
+                      </div>
+                    )}
+                  </div>
+                </div>
+                <div className="panel light">
+                  {loanCustomersFiltered.length === 0 && <div className="empty light">{tr(language, 'noLoanCustomers')}</div>}
+                  {loanCustomersFiltered.map((cust) => {
+                    const { allocations, loaned, outstanding } = allocateRepayments(cust)
+                    const loanCount = allocations.filter((a) => a.outstanding > 0).length
+                    return (
+                      <div
+                        key={cust.id}
+                        className={`loan-card ${cust.archived ? 'loan-card--archived' : ''}`}
+                        role="button"
+                        onClick={() => setViewLoanCustomer(cust)}
+                      >
+                        <div className="loan-card__header">
+                          <div>
+                            <p className="loan-name">
+                              {cust.name}{' '}
+                              {cust.archived && <span className="status-chip void">{tr(language, 'archived')}</span>}
+                              {creditCheck(cust).problems.length > 0 && (
+                                <span className="blocked-badge">{tr(language, 'blocked')}</span>
+                              )}
+                            </p>
+                            <p className="order-meta">{cust.phone}</p>
+                          </div>
+                          <div className="loan-totals">
+                            {loanCount > 0 ? (
+                              <span className="loan-chip">
+                                <span className="dot" /> {loanCount} loan{loanCount === 1 ? '' : 's'}
+                              </span>
+                            ) : (
+                              <span className="order-meta">{allocations.length > 0 ? tr(language, 'settled') : 'No loans'}</span>
+                            )}
+                            <strong>{formatPrice(outstanding)}</strong>
+                            {outstanding !== loaned && (
+                              <span className="order-meta">
+                                {tr(language, 'of')} {formatPrice(loaned)}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              </>
+            )}
 
-        <div className="main-column">
-          <header className="topbar">
-            <div className="topbar__left">
-              {isAdmin && (
-                <button className="icon-btn ghost-btn" onClick={() => setSidebarOpen((v) => !v)} aria-label="Menu">
-                  {sidebarOpen ? <FiX /> : <FiMenu />}
-                </button>
-              )}
-              <div className={`brand ${isAdmin ? '' : 'brand--standalone'}`}>RestoDash</div>
-            </div>
-            <div className="topbar__user">
-              <div className="quick-actions">
-                <button
-                  className="lang-chip"
-                  onClick={() => setLanguage((prev) => (prev === 'en' ? 'so' : 'en'))}
-                  aria-label="Toggle language"
-                >
-                  {language === 'en' ? 'EN' : 'SO'}
-                </button>
-              </div>
-              <div className="topbar__meta">
-                <strong>{currentUser.name}</strong>
-                <span>{ROLE_LABEL[currentUser.role]}</span>
-              </div>
-              <button
-                ref={avatarRef}
-                className="avatar"
-                onClick={() => setProfileOpen((v) => !v)}
-                aria-label="Profile menu"
-              >
-                {currentUser.name.charAt(0)}
-              </button>
-              {profileOpen && (
-                <div className="profile-card" ref={profileCardRef}>
-                  <p className="profile-name">{currentUser.name}</p>
-                  <p className="profile-meta">{currentUser.phone}</p>
-                  <p className="profile-meta">{ROLE_LABEL[currentUser.role]}</p>
-                  <div className="profile-actions">
+            {tab === 'items' && (
+              <>
+                <div className="page-title-row">
+                  <div>
+                    <h1 className="page-title">{tr(language, 'itemsTitle')}</h1>
+                  </div>
+                </div>
+                <div className="panel light staff-form">
+                  <div className="toolbar toolbar--inline">
+                    <input
+                      className="search"
+                      placeholder={tr(language, 'searchItems')}
+                      value={itemManageSearch}
+                      onChange={(e) => setItemManageSearch(e.target.value)}
+                    />
+                    {currentUser.role === 'admin' && (
+                      <button
+                        className="primary"
+                        onClick={() => {
+                          closeOverlays()
+                          setItemModalOpen(true)
+                        }}
+                      >
+                        {tr(language, 'addItem')}
+                      </button>
+                    )}
+                    {currentUser.role === 'admin' && (
+                      <button className="pill-btn" onClick={checkStockDrift}>
+                        {tr(language, 'checkLedger')}
+                      </button>
+                    )}
+                  </div>
+                  {categories.length > 0 && (
+                    <div className="chip-row category-tabs">
+                      {[{ id: '', name: tr(language, 'all') }, ...categories].map((c) => (
+                        <button
+                          key={c.id || 'all'}
+                          className={`chip ${itemCategoryFilter === c.id ? 'active' : ''}`}
+                          onClick={() => setItemCategoryFilter(c.id)}
+                        >
+                          {c.name}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {stockDrift && (
+                    <div className="panel light" style={{ marginBottom: 12 }}>
+                      <div className="panel__head">
+                        <h3>{tr(language, 'stockDrift')}</h3>
+                        <button className="icon-btn" onClick={() => setStockDrift(null)} aria-label="Close">
+                          ✕
+                        </button>
+                      </div>
+                      {stockDrift.every((r) => r.drift === 0) && (
+                        <p className="order-meta">{tr(language, 'noStockDrift')}</p>
+                      )}
+                      <div className="loan-list">
+                        {stockDrift
+                          .filter((r) => r.drift !== 0)
+                          .map((r) => (
+                            <div key={r.item.id} className="loan-row">
+                              <div>
+                                <p className="loan-order">{r.item.name}</p>
+                                <p className="order-meta">
+                                  {tr(language, 'stock')} {r.item.stock ?? 0} &middot; {tr(language, 'ledger')} {r.ledger} (
+                                  {r.moves}) &middot; {r.drift > 0 ? '+' : ''}
+                                  {r.drift}
+                                </p>
+                              </div>
+                              <div className="chip-row">
+                                <button className="chip" onClick={() => resolveStockDrift(r, 'count')}>
+                                  {tr(language, 'keepCount')}
+                                </button>
+                                {r.moves > 0 && (
+                                  <button className="chip" onClick={() => resolveStockDrift(r, 'ledger')}>
+                                    {tr(language, 'useLedger')}
+                                  </button>
+                                )}
+                              </div>
+                            </div>
+                          ))}
+                      </div>
+                    </div>
+                  )}
+                  <div className="table table--items">
+                    <div className="table__head">
+                      <span>No.</span>
+                      <span>{tr(language, 'name')}</span>
+                      <span>{tr(language, 'price')}</span>
+                      <span>{tr(language, 'stock')}</span>
+                      {currentUser.role === 'admin' && <span>{tr(language, 'actions')}</span>}
+                    </div>
+                    {itemsFiltered.length === 0 && <div className="empty light">{tr(language, 'noItems')}</div>}
+                    {itemsFiltered.map((item, idx) => (
+                      <div
+                        key={item.id}
+                        className={`table__row ${isLowStock(item) ? 'table__row--low' : ''}`}
+                        role={currentUser.role !== 'admin' ? 'button' : undefined}
+                        onClick={() => {
+                          if (currentUser.role !== 'admin') {
+                            setStockModalItem(item)
+                            setStockModalMode('restock')
+                            setStockModalValue('')
+                          }
+                        }}
+                      >
+                        <span>{idx + 1}.</span>
+                        <span className="item-cell">
+                          {item.imageUrl && <img className="item-thumb" src={item.imageUrl} alt="" loading="lazy" />}
+                          <span>
+                            {item.name}
+                            <small className="line-extras">
+                              {categories.find((c) => c.id === item.categoryId)?.name ?? tr(language, 'uncategorised')}
+                            </small>
+                            <button
+                              className={`chip ${isAvailableOn(item, todayKey) ? 'active' : ''}`}
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                toggleItemAvailable(item)
+                              }}
+                            >
+                              {isAvailableOn(item, todayKey) ? tr(language, 'availableToday') : tr(language, 'unavailableToday')}
+                            </button>
+                          </span>
+                        </span>
+                        <span>{formatPrice(item.price)}</span>
+                        <span>
+                          {item.stock ?? 0}
+                          {isLowStock(item) && (
+                            <span className="blocked-badge">
+                              {(item.stock ?? 0) === 0 ? tr(language, 'outOfStock') : tr(language, 'lowStock')}
+                            </span>
+                          )}
+                        </span>
+                        {currentUser.role === 'admin' ? (
+                          <div className="action-menu">
+                            <button
+                              className="action-dots"
+                              onClick={() => {
+                                setOpenItemAction(item.id)
+                                setItemActionItem(item)
+                                setItemActionName(item.name)
+                                setItemActionPrice(String(item.price))
+                                setItemActionStock(String(item.stock ?? 0))
+                                setItemActionReorder(String(item.reorderLevel ?? 0))
+                                setModifierDrafts(
+                                  (item.modifierGroups ?? []).map((g) => ({
+                                    id: g.id,
+                                    name: g.name,
+                                    required: g.required,
+                                    multi: g.multi,
+                                    optionsText: formatModifierOptions(g.options),
+                                  }))
+                                )
+                                setRecipeDrafts(
+                                  Object.entries(item.recipe ?? {}).map(([ingredientId, qty]) => ({
+                                    ingredientId,
+                                    qty: String(qty),
+                                  }))
+                                )
+                                setItemCostDraft(String(item.cost ?? 0))
+                                setItemCostSource(item.costSource ?? 'manual')
+                                setItemCategoryDraft(item.categoryId ?? '')
+                                setItemImageFile(null)
+                                setItemImageRemove(false)
+                                setPendingItemDelete(null)
+                              }}
+                              aria-haspopup="menu"
+                            >
+                              ⋮
+                            </button>
+                          </div>
+                        ) : null}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                {currentUser.role === 'admin' && (
+                  <div className="panel light staff-form" style={{ marginTop: 12 }}>
+                    <div className="panel__head">
+                      <h3>{tr(language, 'categories')}</h3>
+                    </div>
+                    <div className="toolbar toolbar--inline">
+                      <input
+                        className="field-input"
+                        placeholder={tr(language, 'name')}
+                        value={newCategoryName}
+                        onChange={(e) => setNewCategoryName(e.target.value)}
+                      />
+                      <button className="primary" onClick={addCategory}>
+                        {tr(language, 'addCategory')}
+                      </button>
+                    </div>
+                    <div className="loan-list">
+                      {categories.length === 0 && <div className="empty light">{tr(language, 'noCategories')}</div>}
+                      {categories.map((c, idx) => (
+                        <div key={c.id} className="loan-row">
+                          <div>
+                            <p className="loan-order">{c.name}</p>
+                            <p className="order-meta">
+                              {items.filter((item) => item.categoryId === c.id).length} {tr(language, 'items').toLowerCase()}
+                            </p>
+                          </div>
+                          <div className="chip-row">
+                            <button className="chip" disabled={idx === 0} onClick={() => moveCategory(c, -1)} aria-label="Move up">
+                              ↑
+                            </button>
+                            <button
+                              className="chip"
+                              disabled={idx === categories.length - 1}
+                              onClick={() => moveCategory(c, 1)}
+                              aria-label="Move down"
+                            >
+                              ↓
+                            </button>
+                            <button className="chip" onClick={() => deleteCategory(c)}>
+                              {tr(language, 'delete')}
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <div className="panel light staff-form" style={{ marginTop: 12 }}>
+                  <div className="panel__head">
+                    <h3>{tr(language, 'ingredients')}</h3>
+                  </div>
+                  {currentUser.role === 'admin' && (
+                    <div className="toolbar toolbar--inline">
+                      <input
+                        className="field-input"
+                        placeholder={tr(language, 'name')}
+                        value={newIngredientName}
+                        onChange={(e) => setNewIngredientName(e.target.value)}
+                      />
+                      <select
+                        className="field-input"
+                        value={newIngredientUnit}
+                        onChange={(e) => setNewIngredientUnit(e.target.value as IngredientUnit)}
+                      >
+                        {INGREDIENT_UNITS.map((unit) => (
+                          <option key={unit} value={unit}>
+                            {tr(language, `unit_${unit}`)}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        className="field-input"
+                        type="number"
+                        min="0"
+                        step="any"
+                        placeholder={tr(language, 'stock')}
+                        value={newIngredientStock}
+                        onChange={(e) => setNewIngredientStock(e.target.value)}
+                      />
+                      <button className="primary" onClick={addIngredient}>
+                        {tr(language, 'addIngredient')}
+                      </button>
+                    </div>
+                  )}
+                  <div className="table table--compact">
+                    {ingredients.length === 0 && <div className="empty light">{tr(language, 'noIngredients')}</div>}
+                    {ingredients.map((ing) => (
+                      <div
+                        key={ing.id}
+                        className={`table__row ${ing.stock <= 0 ? 'table__row--low' : ''}`}
+                        role="button"
+                        onClick={() => {
+                          closeOverlays()
+                          setStockModalIngredient(ing)
+                          setStockModalMode('restock')
+                          setStockModalValue('')
+                        }}
+                      >
+                        <span>{ing.name}</span>
+                        <span>
+                          {ing.stock} {tr(language, `unit_${ing.unit}`)}
+                          {ing.stock <= 0 && <span className="blocked-badge">{tr(language, 'outOfStock')}</span>}
+                        </span>
+                        <span className="order-meta">
+                          {items.filter((item) => (item.recipe ?? {})[ing.id]).map((item) => item.name).join(', ')}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+
+            {tab === 'purchases' && currentUser.role === 'admin' && (
+              <>
+                <div className="page-title-row">
+                  <div>
+                    <h1 className="page-title">{tr(language, 'purchases')}</h1>
+                  </div>
+                </div>
+                <div className="toolbar toolbar--inline">
+                  <div className="staff-manage__actions">
                     <button
-                      className="text-btn"
+                      className="primary"
                       onClick={() => {
                         closeOverlays()
-                        setActionWaiter(currentUser)
-                        setActionType('profile')
-                        setActionName(currentUser.name)
-                        setActionPhone(currentUser.phone)
-                        setActionRole(currentUser.role)
-                        setActionPin('')
-                        setProfileOpen(false)
+                        setPurchaseModalOpen(true)
+                        setPurchaseLines([{ target: '', qty: '', unitCost: '' }])
+                      }}
+                    >
+                      {tr(language, 'newPurchaseOrder')}
+                    </button>
+                    <button
+                      className="pill-btn"
+                      onClick={() => {
+                        closeOverlays()
+                        setSupplierModalOpen(true)
                       }}
                     >
-                      Edit profile
+                      {tr(language, 'addSupplier')}
+                    </button>
+                  </div>
+                </div>
+                <div className="card-grid">
+                  <div className="metric-card gradient">
+                    <p>{tr(language, 'openPurchaseOrders')}</p>
+                    <strong>{purchaseOrders.filter((po) => po.status === 'open').length}</strong>
+                    <FiTruck className="metric-icon" aria-hidden />
+                  </div>
+                  <div className="metric-card gradient">
+                    <p>{tr(language, 'owedToSuppliers')}</p>
+                    <strong>
+                      {formatPrice(suppliers.reduce((sum, sup) => sum + supplierBalance(sup, purchaseOrders).owed, 0))}
+                    </strong>
+                    <FiDollarSign className="metric-icon" aria-hidden />
+                  </div>
+                </div>
+                <div className="panel light" style={{ marginBottom: 12 }}>
+                  <div className="panel__head">
+                    <h3>{tr(language, 'suppliers')}</h3>
+                  </div>
+                  <div className="loan-list">
+                    {suppliers.length === 0 && <div className="empty light">{tr(language, 'noSuppliers')}</div>}
+                    {suppliers.map((sup) => {
+                      const balance = supplierBalance(sup, purchaseOrders)
+                      return (
+                        <div key={sup.id} className="loan-row">
+                          <div>
+                            <p className="loan-order">
+                              {sup.name}
+                              {sup.phone ? ` · ${sup.phone}` : ''}
+                            </p>
+                            <p className="order-meta">
+                              {tr(language, 'received')} {formatPrice(balance.received)} &middot; {tr(language, 'paid')}{' '}
+                              {formatPrice(balance.paid)}
+                            </p>
+                          </div>
+                          <div className="chip-row">
+                            <span className={`status-chip ${balance.owed > 0 ? 'pending' : 'done'}`}>
+                              {formatPrice(balance.owed)}
+                            </span>
+                            {balance.owed > 0 && (
+                              <button
+                                className="chip"
+                                onClick={() => {
+                                  closeOverlays()
+                                  setPaySupplier(sup)
+                                }}
+                              >
+                                {tr(language, 'paySupplier')}
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+                <div className="panel light">
+                  <div className="panel__head">
+                    <h3>{tr(language, 'purchaseOrders')}</h3>
+                  </div>
+                  <div className="loan-list">
+                    {purchaseOrders.length === 0 && <div className="empty light">{tr(language, 'noPurchaseOrders')}</div>}
+                    {purchaseOrders.map((po) => (
+                      <div key={po.id} className="loan-row">
+                        <div>
+                          <p className="loan-order">
+                            {po.number} &middot; {suppliers.find((sup) => sup.id === po.supplierId)?.name ?? po.supplierId}
+                          </p>
+                          <p className="order-meta">
+                            {po.lines.map((l) => `${l.receivedQty ?? l.qty} ${l.name}`).join(', ')}
+                          </p>
+                          <p className="order-meta">
+                            {formatDateTime(po.receivedAt ?? po.createdAt)} &middot; {po.receivedBy ?? po.createdBy}
+                            {po.note ? ` · ${po.note}` : ''}
+                          </p>
+                        </div>
+                        <div className="chip-row">
+                          <strong>{formatPrice(purchaseTotal(po))}</strong>
+                          <span className={`status-chip ${PURCHASE_TONE[po.status]}`}>{tr(language, `purchase_${po.status}`)}</span>
+                          {po.status === 'open' && (
+                            <>
+                              <button className="chip" onClick={() => openReceivePurchase(po)}>
+                                {tr(language, 'receiveGoods')}
+                              </button>
+                              <button className="chip" onClick={() => cancelPurchaseOrder(po)}>
+                                {tr(language, 'cancel')}
+                              </button>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+
+            {tab === 'reports' && currentUser.role === 'admin' && (
+              <>
+                <div className="page-title-row">
+                  <div>
+                    <h1 className="page-title">{tr(language, 'reportsTitle')}</h1>
+                  </div>
+                </div>
+                <div className="report-tabs">
+                  {(['daily', 'weekly', 'monthly', 'yearly'] as const).map((tabKey) => (
+                    <button
+                      key={tabKey}
+                      className={`pill-btn ${reportTab === tabKey ? 'active' : ''}`}
+                      onClick={() => setReportTab(tabKey)}
+                    >
+                      {tabKey.charAt(0).toUpperCase() + tabKey.slice(1)}
                     </button>
-                    <button className="signout-btn block" onClick={handleLogout}>
-                      Sign out
+                  ))}
+                </div>
+                <div className="report-actions">
+                  <div className="date-filters">
+                    <input
+                      type="date"
+                      value={reportStart}
+                      placeholder="Start date"
+                      onChange={(e) => setReportStart(e.target.value)}
+                    />
+                    <input
+                      type="date"
+                      value={reportEnd}
+                      placeholder="End date"
+                      onChange={(e) => setReportEnd(e.target.value)}
+                    />
+                  </div>
+                  <div className="chip-row report-status">
+                    {(['all', 'paid', 'loan'] as const).map((status) => (
+                      <button
+                        key={status}
+                        className={`chip ${reportStatus === status ? 'active' : ''}`}
+                        onClick={() => setReportStatus(status)}
+                      >
+                        {status === 'all' ? 'All' : status === 'paid' ? 'Paid' : 'Loan'}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="export-btns">
+                    <button className="pill-btn" onClick={printReport}>
+                      Print / PDF
+                    </button>
+                    <button className="pill-btn" onClick={exportReportCSV}>
+                      Excel (CSV)
                     </button>
                   </div>
                 </div>
-              )}
-            </div>
-          </header>
-
-          <main className="content">
-            {tab === 'dash' && (
-              <>
-                <div className="page-title-row">
-                  <div>
-                    <h1 className="page-title">{tr(language, 'dashboardTitle')}</h1>
+                <div className="panel light">
+                  <div className="table reports-table">
+                    <div className="table__head">
+                      <span>Period</span>
+                      {REPORT_COLUMNS.map((c) => (
+                        <span key={c.key}>{c.label}</span>
+                      ))}
+                    </div>
+                    {reportRows.length === 0 && <div className="empty light">{tr(language, 'noOrders')}</div>}
+                    {reportRows.map((row) => (
+                      <div key={row.label} className="table__row">
+                        <span>{row.label}</span>
+                        {REPORT_COLUMNS.map((c) => (
+                          <span key={c.key}>{c.money ? formatPrice(row[c.key] ?? 0) : reportCell(row, c)}</span>
+                        ))}
+                      </div>
+                    ))}
+                    <div className="table__row total-row">
+                      <span>Total</span>
+                      {REPORT_COLUMNS.map((c) => (
+                        <span key={c.key}>{c.money ? formatPrice(reportTotals[c.key]) : reportCell(reportTotals, c)}</span>
+                      ))}
+                    </div>
                   </div>
                 </div>
-                {banner && <div className={`banner banner--${banner.type}`}>{banner.message}</div>}
-                <div className="card-grid">
-                  <div className="metric-card gradient">
-                    <p>Sales</p>
-                    <strong>{formatPrice(metrics.totalSales)}</strong>
-                    <FiDollarSign className="metric-icon" aria-hidden />
-                  </div>
-                  <div className="metric-card gradient">
-                    <p>Active Orders</p>
-                    <strong>{metrics.totalOrders}</strong>
-                    <FiList className="metric-icon" aria-hidden />
+                <div className="panel light" style={{ marginTop: 12 }}>
+                  <div className="panel__head">
+                    <h3>{tr(language, 'profitByItem')}</h3>
                   </div>
-                  {isAdmin && (
-                    <div className="metric-card gradient">
-                      <p>Staff</p>
-                      <strong>{metrics.staffCount}</strong>
-                      <FiUserCheck className="metric-icon" aria-hidden />
+                  <div className="table table--profit">
+                    <div className="table__head">
+                      <span>{tr(language, 'name')}</span>
+                      <span>{tr(language, 'quantity')}</span>
+                      <span>Net</span>
+                      <span>{tr(language, 'costOfGoods')}</span>
+                      <span>{tr(language, 'grossProfit')}</span>
+                      <span>{tr(language, 'margin')}</span>
                     </div>
-                  )}
+                    {itemProfit.length === 0 && <div className="empty light">{tr(language, 'noOrders')}</div>}
+                    {itemProfit.map((r) => (
+                      <div key={r.itemId} className="table__row">
+                        <span>{r.name}</span>
+                        <span>{r.qty}</span>
+                        <span>{formatPrice(r.net)}</span>
+                        <span>{formatPrice(r.cogs)}</span>
+                        <span className={r.profit < 0 ? 'stock-delta--out' : undefined}>{formatPrice(r.profit)}</span>
+                        <span>{r.margin.toFixed(1)}%</span>
+                      </div>
+                    ))}
+                  </div>
                 </div>
-                {(waiterCharts.length > 0 || logs.length > 0 || (!isAdmin && waiterStatusStats.total > 0)) && (
-                  <div className="chart-row">
-                    {isAdmin && waiterCharts.length > 0 && (
-                      <div className="panel light chart-panel">
-                        <Doughnut
-                          data={{
-                            labels: waiterCharts.map((w) => usersById[w.waiter.id]?.name ?? w.waiter.id),
-                            datasets: [
-                              {
-                                label: 'Orders',
-                                data: waiterCharts.map((w) => w.orders),
-                                backgroundColor: chartPalette,
-                              },
-                            ],
-                          }}
-                          options={{
-                            responsive: true,
-                            plugins: { legend: { position: 'bottom' } },
-                          }}
-                        />
+                <div className="panel light" style={{ marginTop: 12 }}>
+                  <div className="panel__head">
+                    <h3>{tr(language, 'paymentMethods')}</h3>
+                  </div>
+                  <div className="table table--compact">
+                    <div className="table__head">
+                      <span>{tr(language, 'method')}</span>
+                      <span>{tr(language, 'payments')}</span>
+                      <span>{tr(language, 'total')}</span>
+                    </div>
+                    {paymentBreakdown.length === 0 && <div className="empty light">{tr(language, 'noOrders')}</div>}
+                    {paymentBreakdown.map((p) => (
+                      <div key={p.method} className="table__row">
+                        <span>{PAYMENT_METHOD_LABEL[p.method] ?? p.method}</span>
+                        <span>{p.count}</span>
+                        <span>{formatPrice(p.amount)}</span>
                       </div>
-                    )}
-                    {!isAdmin && waiterStatusStats.total > 0 && (
-                      <div className="panel light chart-panel">
-                        <Doughnut
-                          data={{
-                            labels: ['Paid', 'Loan', 'Pending'],
-                            datasets: [
-                              {
-                                data: [waiterStatusStats.paid, waiterStatusStats.loan, waiterStatusStats.pending],
-                                backgroundColor: ['#0ea44d', '#f59e0b', '#9ca3af'],
-                              },
-                            ],
-                          }}
-                          options={{
-                            responsive: true,
-                            plugins: { legend: { position: 'bottom' } },
-                          }}
-                        />
+                    ))}
+                    {paymentBreakdown.length > 0 && (
+                      <div className="table__row total-row">
+                        <span>Total</span>
+                        <span>{paymentBreakdown.reduce((s, p) => s + p.count, 0)}</span>
+                        <span>{formatPrice(paymentBreakdown.reduce((s, p) => s + p.amount, 0))}</span>
                       </div>
                     )}
-                    {logs.length > 0 && (
-                      <div className="panel light logs-panel">
-                        <div className="panel__head">
-                          <h3>Recents</h3>
-                        </div>
-                        <ul className="logs" style={{ maxHeight: '280px', overflowY: 'auto' }}>
-                          {logs.map((log) => (
-                            <li key={log.id}>
-                              <span className="logs__user">{renderLogMessage(log)}</span>
-                              <span className="logs__time">{formatDateTime(log.time)}</span>
-                            </li>
-                          ))}
-                        </ul>
+                  </div>
+                </div>
+                <div className="panel light" style={{ marginTop: 12 }}>
+                  <div className="panel__head">
+                    <h3>{tr(language, 'badDebt')}</h3>
+                    <strong>{formatPrice(badDebt.total)}</strong>
+                  </div>
+                  <div className="table table--compact">
+                    <div className="table__row">
+                      <span>{tr(language, 'writtenOff')}</span>
+                      <span />
+                      <span>{formatPrice(badDebt.writeoff)}</span>
+                    </div>
+                    <div className="table__row">
+                      <span>{tr(language, 'settlementDiscount')}</span>
+                      <span />
+                      <span>{formatPrice(badDebt.settlement)}</span>
+                    </div>
+                  </div>
+                </div>
+                <div className="panel light" style={{ marginTop: 12 }}>
+                  <div className="panel__head">
+                    <h3>{tr(language, 'purchases')}</h3>
+                    <strong>{formatPrice(purchasesReport.total)}</strong>
+                  </div>
+                  <div className="table table--compact">
+                    {purchasesReport.rows.length === 0 && <div className="empty light">{tr(language, 'noPurchaseOrders')}</div>}
+                    {purchasesReport.rows.map((r) => (
+                      <div key={r.supplierId} className="table__row">
+                        <span>{r.name}</span>
+                        <span>{r.count}</span>
+                        <span>{formatPrice(r.amount)}</span>
                       </div>
-                    )}
+                    ))}
+                  </div>
+                </div>
+                {ingredientUsage.length > 0 && (
+                  <div className="panel light" style={{ marginTop: 12 }}>
+                    <div className="panel__head">
+                      <h3>{tr(language, 'ingredientUsage')}</h3>
+                    </div>
+                    <div className="table table--usage">
+                      <div className="table__head">
+                        <span>{tr(language, 'name')}</span>
+                        <span>{tr(language, 'theoretical')}</span>
+                        <span>{tr(language, 'actual')}</span>
+                        <span>{tr(language, 'variance')}</span>
+                      </div>
+                      {ingredientUsage.map((u) => (
+                        <div key={u.ingredient.id} className="table__row">
+                          <span>{u.ingredient.name}</span>
+                          <span>
+                            {u.theoretical} {u.ingredient.unit}
+                          </span>
+                          <span>
+                            {u.actual} {u.ingredient.unit}
+                          </span>
+                          <span className={u.variance > 0 ? 'stock-delta--out' : undefined}>
+                            {u.variance > 0 ? '+' : ''}
+                            {u.variance}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
                   </div>
                 )}
               </>
             )}
+          </main>
+        </div>
+      </div>
 
-            {tab === 'orders' && (
-              <>
-                <div className="page-title-row">
-                  <div>
-                    <h1 className="page-title">{tr(language, 'ordersTitle')}</h1>
-                  </div>
-                </div>
-              <input
-                className="search"
-                type="search"
-                placeholder={tr(language, 'searchOrders')}
-                value={search}
-                onChange={(e) => setSearch(e.target.value)}
-              />
-                <div className="toolbar toolbar--inline" style={{ marginTop: 8 }}>
-                  <label className="field" style={{ minWidth: 200 }}>
-                    <span>Waiter</span>
-                    <select
-                      className="field-input"
-                      value={orderWaiterFilter}
-                      onChange={(e) => setOrderWaiterFilter(e.target.value)}
-                    >
-                      <option value="all">All waiters</option>
-                      {users
-                        .filter((u) => u.role === 'waiter')
-                        .map((w) => (
-                          <option key={w.id} value={w.id}>
-                            {w.name}
-                          </option>
-                        ))}
-                    </select>
-                  </label>
-                </div>
-                <div className="chip-row">
-                  {(['all', 'active', 'paid', 'loan', 'done'] as const).map((f) => (
-                    <button
-                      key={f}
-                      className={`chip ${orderFilter === f ? 'active' : ''}`}
-                      onClick={() => setOrderFilter(f)}
-                    >
-                      {f === 'all'
-                        ? tr(language, 'all')
-                        : f === 'active'
-                        ? tr(language, 'active')
-                        : f === 'paid'
-                        ? tr(language, 'paid')
-                        : f === 'loan'
-                        ? tr(language, 'loan')
-                        : tr(language, 'done')}
-                    </button>
+      {!isAdmin && currentUser.role !== 'kitchen' && (
+        <button className="fab" onClick={() => setShowOrderModal(true)} aria-label="Add order">
+          +
+        </button>
+      )}
+
+      {!isAdmin && currentUser.role === 'kitchen' && (
+        <nav className="tabbar">
+          <button className={`tabbar__btn ${tab === 'kitchen' ? 'active' : ''}`} onClick={() => setTab('kitchen')}>
+            <FiCoffee />
+            <span>{tr(language, 'kitchen')}</span>
+          </button>
+          <button className={`tabbar__btn ${tab === 'items' ? 'active' : ''}`} onClick={() => setTab('items')}>
+            <FiBox />
+            <span>{tr(language, 'items')}</span>
+            {metrics.lowStock.length > 0 && <span className="nav-badge">{metrics.lowStock.length}</span>}
+          </button>
+        </nav>
+      )}
+
+      {!isAdmin && currentUser.role !== 'kitchen' && (
+        <nav className="tabbar">
+          <button className={`tabbar__btn ${tab === 'dash' ? 'active' : ''}`} onClick={() => setTab('dash')}>
+            <FiHome />
+            <span>{tr(language, 'dash')}</span>
+          </button>
+          <button className={`tabbar__btn ${tab === 'orders' ? 'active' : ''}`} onClick={() => setTab('orders')}>
+            <FiFileText />
+            <span>{tr(language, 'orders')}</span>
+          </button>
+          <button className={`tabbar__btn ${tab === 'items' ? 'active' : ''}`} onClick={() => setTab('items')}>
+            <FiBox />
+            <span>{tr(language, 'items')}</span>
+            {metrics.lowStock.length > 0 && <span className="nav-badge">{metrics.lowStock.length}</span>}
+          </button>
+          <button className={`tabbar__btn ${tab === 'loans' ? 'active' : ''}`} onClick={() => setTab('loans')}>
+            <FiDollarSign />
+            <span>{tr(language, 'loans')}</span>
+          </button>
+          {currentUser.role === 'admin' && (
+            <button className={`tabbar__btn ${tab === 'staff' ? 'active' : ''}`} onClick={() => setTab('staff')}>
+              <FiUsers />
+              <span>{tr(language, 'staff')}</span>
+            </button>
+          )}
+        </nav>
+      )}
+
+      {showOrderModal && (
+        <div className="modal">
+          <div className="modal__content">
+            <div className="modal__head">
+              <h3>{tr(language, 'newOrderTitle')}</h3>
+              <button className="icon-btn" onClick={() => setShowOrderModal(false)} aria-label="Close">
+                ✕
+              </button>
+            </div>
+            {tables.length > 0 && (
+              <label className="field">
+                <span>{tr(language, 'table')}</span>
+                <select className="field-input" value={draftTable} onChange={(e) => setDraftTable(e.target.value)}>
+                  <option value="">{tr(language, 'noTable')}</option>
+                  {tablesByArea.map(([area, areaTables]) => (
+                    <optgroup key={area} label={area}>
+                      {areaTables.map((t) => (
+                        <option key={t.id} value={t.id}>
+                          T{t.number} · {t.seats} {tr(language, 'seats').toLowerCase()} · {TABLE_STATUS_LABEL[t.status]}
+                        </option>
+                      ))}
+                    </optgroup>
                   ))}
-                </div>
-              <div className="order-list-card">
-                {orderListSorted.length === 0 && <div className="empty light">{tr(language, 'noOrders')}</div>}
-                {orderListSorted.map((order, idx) => {
-                  const timeValid = !!order.time && !Number.isNaN(new Date(order.time).getTime())
-                  const timeLabel = timeValid ? formatDateTime(order.time) : ''
-                  const key = `${order.dbId ?? order.id}-${idx}`
-                  return (
-                  <div
-                    key={key}
-                    className="order-card light"
-                    onClick={() => setViewOrder(order)}
-                    role="button"
+                </select>
+              </label>
+            )}
+            <input
+              className="search"
+              type="search"
+              placeholder={tr(language, 'searchMenu')}
+              value={itemSearch}
+              onChange={(e) => setItemSearch(e.target.value)}
+            />
+            {categories.length > 0 && !itemSearch.trim() && (
+              <div className="chip-row category-tabs">
+                {[{ id: '', name: tr(language, 'all') }, ...categories].map((c) => (
+                  <button
+                    key={c.id || 'all'}
+                    className={`chip ${orderCategory === c.id ? 'active' : ''}`}
+                    onClick={() => setOrderCategory(c.id)}
                   >
-                    <div className="order-card__row">
-                            <div>
-                              <p className="order-id">{orderTitle(order)}</p>
-                              <p className="order-meta">
-                                Served by: {usersById[order.waiterId]?.name ?? order.waiterId}{' '}
-                                ({usersById[order.waiterId] ? ROLE_LABEL[usersById[order.waiterId].role] : 'User'})
-                              </p>
-                            </div>
-                            <div className="order-amount">
-                              <div className="order-amount__top">
-                            <span className="order-price">{formatPrice(orderTotal(order))}</span>
-          <select
-            className="status-select"
-            value={order.status ?? 'pending'}
-            onChange={(e) => handleStatusChange(order, e.target.value as 'paid' | 'loan' | 'pending')}
-            onClick={(e) => e.stopPropagation()}
-          >
-            <option value="pending">{tr(language, 'statusPending')}</option>
-            <option value="paid">{tr(language, 'statusPaid')}</option>
-            <option value="loan">{tr(language, 'statusLoan')}</option>
-          </select>
-                          </div>
-                          <span className={`status-chip ${statusLabel(order.status).tone}`}>
-                            {statusLabel(order.status).text}
-                          </span>
-                        </div>
+                    {c.name}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="modal__items">
+              {menuItems
+                .filter((item) =>
+                  itemSearch.trim()
+                    ? item.name.toLowerCase().includes(itemSearch.trim().toLowerCase())
+                    : !orderCategory || item.categoryId === orderCategory
+                )
+                .map((item) => {
+                  const qty = draftQty[item.id] ?? 0
+                  const totalQty = draftItemQty(item.id)
+                  const available = isAvailableOn(item, todayKey)
+                  const stock = available
+                    ? Math.min(typeof item.stock === 'number' ? item.stock : Infinity, recipeCapacity(item, ingredientsById))
+                    : 0
+                  const remaining = stock === Infinity ? '∞' : Math.max(0, stock - totalQty)
+                  const atCap = stock !== Infinity && totalQty >= stock
+                  const hasModifiers = (item.modifierGroups ?? []).length > 0
+                  const needsChoice = (item.modifierGroups ?? []).some((g) => g.required)
+                  return (
+                    <div key={item.id} className={`item-row ${stock === 0 ? 'item-row--out' : ''}`}>
+                      {item.imageUrl && <img className="item-thumb" src={item.imageUrl} alt="" loading="lazy" />}
+                      <div className="item-row__body">
+                        <p className="item-name">{item.name}</p>
+                        <p className="item-meta">
+                          {formatPrice(item.price)}{' '}
+                          {!available ? (
+                            <span>· {tr(language, 'unavailableToday')}</span>
+                          ) : stock === 0 ? (
+                            <span>· {tr(language, 'outOfStock')}</span>
+                          ) : (
+                            stock !== Infinity && <span>· Stock left: {remaining}</span>
+                          )}
+                        </p>
+                        {hasModifiers && (
+                          <button className="text-btn" onClick={() => openCustomize(item)} disabled={atCap}>
+                            {tr(language, 'customize')}
+                          </button>
+                        )}
+                      </div>
+                      <div className="qty-changer">
+                        <button
+                          className="qty-btn"
+                          onClick={() => updateDraftQty(item.id, Math.max(0, qty - 1))}
+                          disabled={qty === 0}
+                        >
+                          −
+                        </button>
+                        <span className="qty">{qty}</span>
+                        <button
+                          className="qty-btn plus"
+                          onClick={() => (needsChoice ? openCustomize(item) : updateDraftQty(item.id, qty + 1))}
+                          disabled={atCap}
+                        >
+                          +
+                        </button>
                       </div>
-                      {timeValid && (
-                        <div className="order-card__meta">
-                          <span className="icon">🧾</span>
-                          <span className="order-time">{timeLabel}</span>
-                        </div>
-                      )}
                     </div>
                   )
                 })}
-                </div>
-              </>
+            </div>
+            {draftLines.length > 0 && (
+              <div className="loan-list">
+                <span className="order-meta">
+                  <strong>{tr(language, 'customLines')}</strong>
+                </span>
+                {draftLines.map((line) => (
+                  <div key={line.key} className="loan-row">
+                    <div>
+                      <p className="loan-order">
+                        {line.qty} × {lineName(line, itemsById)}
+                      </p>
+                      <p className="order-meta">{modifierLabel(line)}</p>
+                    </div>
+                    <div className="qty-changer">
+                      <span className="loan-amount">{formatPrice(line.qty * lineUnitPrice(line))}</span>
+                      <button
+                        className="qty-btn"
+                        onClick={() => setDraftLines((prev) => prev.filter((l) => l.key !== line.key))}
+                        aria-label="Remove line"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
             )}
+            <details className="order-extras">
+              <summary>{tr(language, 'discountAndGuests')}</summary>
+              {renderDiscountFields(
+                draftDiscountType,
+                setDraftDiscountType,
+                draftDiscountValue,
+                setDraftDiscountValue,
+                draftDiscountReason,
+                setDraftDiscountReason
+              )}
+              <label className="field">
+                <span>{tr(language, 'guests')}</span>
+                <input
+                  className="field-input"
+                  type="number"
+                  min="0"
+                  value={draftGuests}
+                  onChange={(e) => setDraftGuests(e.target.value)}
+                />
+              </label>
+            </details>
+            {renderBreakdown(draftBreakdown)}
+            <div className="modal__total">
+              <span>{tr(language, 'total')}:</span>
+              <strong>{formatPrice(draftBreakdown.total)}</strong>
+            </div>
+            {banner && <div className={`banner banner--${banner.type}`}>{banner.message}</div>}
+            <button className="primary block" onClick={handleCreateOrder}>
+              <span className="btn-icon"><FiClipboard aria-hidden /></span> {tr(language, 'submitOrder')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {customizeItem && (
+        <div className="modal" onClick={() => setCustomizeItem(null)}>
+          <div className="modal__content" onClick={(e) => e.stopPropagation()}>
+            <div className="modal__head">
+              <h3>{customizeItem.name}</h3>
+              <button className="icon-btn" onClick={() => setCustomizeItem(null)} aria-label="Close">
+                ✕
+              </button>
+            </div>
+            <div className="modal__items">
+              {(customizeItem.modifierGroups ?? []).map((group) => (
+                <div key={group.id} className="modifier-group">
+                  <p className="order-meta">
+                    <strong>{group.name}</strong> {group.required ? '(required)' : '(optional)'}
+                    {group.multi ? ' · choose any' : ' · choose one'}
+                  </p>
+                  <div className="chip-row">
+                    {group.options.map((option) => (
+                      <button
+                        key={option.id}
+                        className={`chip ${(customizeChoice[group.id] ?? []).includes(option.id) ? 'active' : ''}`}
+                        onClick={() => toggleModifier(group, option.id)}
+                      >
+                        {option.name}
+                        {option.price ? ` +${formatPrice(option.price)}` : ''}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <label className="field">
+                <span>{tr(language, 'note')}</span>
+                <input
+                  className="field-input"
+                  placeholder="e.g., well done"
+                  value={customizeNote}
+                  onChange={(e) => setCustomizeNote(e.target.value)}
+                />
+              </label>
+              {renderDiscountFields(
+                customizeDiscountType,
+                setCustomizeDiscountType,
+                customizeDiscountValue,
+                setCustomizeDiscountValue,
+                customizeDiscountReason,
+                setCustomizeDiscountReason
+              )}
+              <div className="qty-changer">
+                <button className="qty-btn" onClick={() => setCustomizeQty((q) => Math.max(1, q - 1))}>
+                  −
+                </button>
+                <span className="qty">{customizeQty}</span>
+                <button className="qty-btn plus" onClick={() => setCustomizeQty((q) => q + 1)}>
+                  +
+                </button>
+              </div>
+            </div>
+            <button className="primary block" onClick={addCustomLine}>
+              {tr(language, 'addLine')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {waiterModalOpen && (
+        <div className="modal">
+          <div className="modal__content">
+            <div className="modal__head">
+              <h3>Add User</h3>
+              <button className="icon-btn" onClick={() => setWaiterModalOpen(false)} aria-label="Close">
+                ✕
+              </button>
+            </div>
+            <div className="modal__items">
+              <input
+                className="field-input"
+                placeholder="Name"
+                value={newWaiterName}
+                onChange={(e) => setNewWaiterName(e.target.value)}
+              />
+              <input
+                className="field-input"
+                placeholder="Phone"
+                value={newWaiterPhone}
+                onChange={(e) => setNewWaiterPhone(e.target.value)}
+                type="tel"
+              />
+              <label className="field">
+                <span>Role</span>
+                <select className="field-input" value={newWaiterRole} onChange={(e) => setNewWaiterRole(e.target.value as Role)}>
+                  <option value="waiter">Waiter</option>
+                  <option value="collector">Collector</option>
+                  <option value="kitchen">Kitchen</option>
+                  <option value="admin">Admin</option>
+                </select>
+              </label>
+            </div>
+            <p className="order-meta">Default PIN: 4321</p>
+            <button className="primary block" onClick={addWaiter}>
+              {tr(language, 'addUser')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {pendingDelete && (
+        <div className="modal">
+          <div className="modal__content">
+            <div className="modal__head">
+              <h3>Confirm delete</h3>
+            </div>
+            <p className="order-meta">
+              Are you sure you want to delete <strong>{pendingDelete.name}</strong>?
+            </p>
+            <div className="confirm-actions">
+              <button className="pill-btn" onClick={() => setPendingDelete(null)}>
+                Cancel
+              </button>
+              <button
+                className="pill-btn danger"
+                onClick={() => {
+                  deleteWaiter(pendingDelete.id)
+                  setPendingDelete(null)
+                }}
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {itemModalOpen && (
+        <div className="modal">
+          <div className="modal__content">
+            <div className="modal__head">
+              <h3>Add Item</h3>
+              <button className="icon-btn" onClick={() => setItemModalOpen(false)} aria-label="Close">
+                ✕
+              </button>
+            </div>
+              <p className="order-meta">Set the item name and price.</p>
+              <div className="modal__items">
+                <label className="field">
+                  <span>Item name</span>
+                  <input
+                    className="field-input"
+                  placeholder="Item name"
+                  value={newItemName}
+                  onChange={(e) => setNewItemName(e.target.value)}
+                />
+              </label>
+                <label className="field">
+                  <span>Price</span>
+                  <input
+                    className="field-input"
+                    placeholder="Price"
+                    type="number"
+                    value={newItemPrice}
+                    onChange={(e) => setNewItemPrice(e.target.value)}
+                  />
+                </label>
+                <label className="field">
+                  <span>Stock</span>
+                  <input
+                    className="field-input"
+                    placeholder="0"
+                    type="number"
+                    value={newItemStock}
+                    min="0"
+                    onChange={(e) => setNewItemStock(e.target.value)}
+                  />
+                </label>
+                <label className="field">
+                  <span>{tr(language, 'reorderLevel')}</span>
+                  <input
+                    className="field-input"
+                    placeholder="0"
+                    type="number"
+                    value={newItemReorder}
+                    min="0"
+                    onChange={(e) => setNewItemReorder(e.target.value)}
+                  />
+                </label>
+                {menuFields}
+                {costEditor}
+                {modifierEditor}
+                {recipeEditor}
+            </div>
+            <button className="primary block" onClick={addItem}>
+              {tr(language, 'addItem')}
+            </button>
+          </div>
+        </div>
+      )}
 
-            {tab === 'staff' && currentUser.role === 'admin' && (
-              <>
-                <div className="page-title-row">
+      {viewItem && (
+        <div className="modal">
+          <div className="modal__content">
+            <div className="modal__head">
+              <h3>Item Details</h3>
+              <button className="icon-btn" onClick={() => setViewItem(null)} aria-label="Close">
+                ✕
+              </button>
+            </div>
+            <div className="modal__items">
+              <p className="order-meta"><strong>Name:</strong> {viewItem.name}</p>
+              <p className="order-meta"><strong>Price:</strong> {formatPrice(viewItem.price)}</p>
+              <p className="order-meta">
+                <strong>{tr(language, 'stock')}:</strong> {itemsById[viewItem.id]?.stock ?? 0}
+              </p>
+            </div>
+            <div className="loan-list">
+              <span className="order-meta">
+                <strong>{tr(language, 'stockHistory')}</strong>
+              </span>
+              {itemMoves.length === 0 && <div className="empty light">{tr(language, 'noStockMoves')}</div>}
+              {itemMoves.slice(0, 50).map((m) => (
+                <div key={m.id} className="loan-row">
                   <div>
-                    <h1 className="page-title">{tr(language, 'staffTitle')}</h1>
+                    <p className="loan-order">
+                      {tr(language, `move_${m.kind}`)}
+                      {m.orderRef ? ` · ${orders.find((o) => (o.dbId ?? o.id) === m.orderRef)?.id ?? m.orderRef}` : ''}
+                      {m.note ? ` · ${m.note}` : ''}
+                    </p>
+                    <p className="order-meta">
+                      {usersById[m.userId]?.name ?? m.userId} &middot; {formatDateTime(m.time)}
+                    </p>
                   </div>
-                </div>
-                <div className="panel light staff-form">
-                  <div className="toolbar toolbar--inline">
-                    <input
-                      className="search"
-                      placeholder={tr(language, 'searchUsers')}
-                      value={waiterSearch}
-                      onChange={(e) => setWaiterSearch(e.target.value)}
-                    />
-                    <button
-                      className="primary"
-                      onClick={() => {
-                        closeOverlays()
-                        setWaiterModalOpen(true)
-                      }}
-                    >
-                      {tr(language, 'addUser')}
-                    </button>
+                  <div className="loan-totals">
+                    <strong className={m.delta < 0 ? 'stock-delta--out' : 'stock-delta--in'}>
+                      {m.delta > 0 ? '+' : ''}
+                      {m.delta}
+                    </strong>
+                    <span className="order-meta">= {m.balance}</span>
                   </div>
-                  <div className="table table--staff">
-                    <div className="table__head">
-                      <span>No.</span>
-                      <span>{tr(language, 'name')}</span>
-                      <span>{tr(language, 'phone')}</span>
-                      <span>{tr(language, 'statusActive')}</span>
-                      <span>{tr(language, 'actions')}</span>
-                    </div>
-                    {staffFiltered.length === 0 && <div className="empty light">{tr(language, 'noUsers')}</div>}
-                    {staffFiltered.map((waiter, idx) => {
-                      const isTargetAdmin = waiter.role === 'admin'
-                      const isSelf = waiter.id === currentUser.id
-                      return (
-                        <div key={waiter.id} className="table__row">
-                          <span>{idx + 1}.</span>
-                          <span>{waiter.name}</span>
-                          <span>{waiter.phone}</span>
-                          <span>{ROLE_LABEL[waiter.role]}</span>
-                          <span className="action-menu">
-                            {isTargetAdmin && !isSelf ? (
-                              <span className="order-meta">Locked</span>
-                            ) : (
-                              <button
-                                className="action-dots"
+                </div>
+              ))}
+            </div>
+            <div className="confirm-actions">
+              <button
+                className="pill-btn"
                 onClick={() => {
-                  setPendingDelete(null)
-                  setActionWaiter(waiter)
-                  setActionType(null)
-                  setActionRole(waiter.role)
-                  setActionPin('')
-                  setOpenAction(waiter.id)
+                  setStockModalItem(viewItem)
+                  setStockModalMode('restock')
+                  setStockModalValue('')
+                  setViewItem(null)
                 }}
-                aria-haspopup="menu"
               >
-                ⋮
-                              </button>
-                            )}
-                          </span>
-                        </div>
-                      )
-                    })}
-                  </div>
-                </div>
-              </>
-            )}
+                {tr(language, 'updateStock')}
+              </button>
+              <button className="pill-btn" onClick={() => setViewItem(null)}>
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
 
-            {tab === 'loans' && (
-              <>
-                <div className="page-title-row">
-                  <div>
-                    <h1 className="page-title">{tr(language, 'loanBook')}</h1>
-                  </div>
-                </div>
-                <div className="toolbar toolbar--inline">
-                    <input
-                      className="search"
-                      placeholder={tr(language, 'searchLoanCustomers')}
-                      value={loanCustomerSearch}
-                      onChange={(e) => setLoanCustomerSearch(e.target.value)}
-                    />
-                    <div className="staff-manage__actions">
-                      <button
-                        className="primary"
-                        onClick={() => {
-                          closeOverlays()
-                          setLoanCustomerModalOpen(true)
-                        }}
-                      >
-                      {tr(language, 'addLoanCustomer')}
-                      </button>
-                      <button
-                        className="pill-btn"
-                        onClick={() => {
-                          closeOverlays()
-                          setLoanEntryModalOpen(true)
-                        }}
-                      >
-                      {tr(language, 'addLoanEntry')}
-                      </button>
-                    </div>
-                </div>
-                  <div className="card-grid">
-                    <div className="metric-card gradient">
-                    <p>{tr(language, 'loanOrders')}</p>
-                    <strong>{loanTotals.count}</strong>
-                    <FiList className="metric-icon" aria-hidden />
-                  </div>
-                  <div className="metric-card gradient">
-                    <p>{tr(language, 'loanAmount')}</p>
-                    <strong>{formatPrice(loanTotals.amount)}</strong>
-                    <FiDollarSign className="metric-icon" aria-hidden />
-                  </div>
-                </div>
-                <div className="panel light">
-                  {loanCustomersFiltered.length === 0 && <div className="empty light">{tr(language, 'noLoanCustomers')}</div>}
-                  {loanCustomersFiltered.map((cust) => {
-                    const loans = Object.values(cust.loans ?? {})
-                    const totalLoan = loans.reduce((sum, l) => sum + l.amount, 0)
-                    const loanCount = loans.length
-                    return (
-                      <div
-                        key={cust.id}
-                        className="loan-card"
-                        role="button"
-                        onClick={() => setViewLoanCustomer(cust)}
-                      >
-                        <div className="loan-card__header">
-                          <div>
-                            <p className="loan-name">{cust.name}</p>
-                            <p className="order-meta">{cust.phone}</p>
-                          </div>
-                          <div className="loan-totals">
-                            {loanCount > 0 ? (
-                              <span className="loan-chip">
-                                <span className="dot" /> {loanCount} loan{loanCount === 1 ? '' : 's'}
-                              </span>
-                            ) : (
-                              <span className="order-meta">No loans</span>
-                            )}
-                            <strong>{formatPrice(totalLoan)}</strong>
-                          </div>
-                        </div>
-                      </div>
-                    )
-                  })}
-                </div>
-              </>
+      {shownOrder && (
+        <div className="modal" onClick={() => setViewOrder(null)}>
+          <div className="modal__content" onClick={(e) => e.stopPropagation()}>
+            <div className="modal__head">
+              <h3>{orderTitle(shownOrder)}</h3>
+              <button className="icon-btn" onClick={() => setViewOrder(null)} aria-label="Close">
+                ✕
+              </button>
+            </div>
+            <p className="order-meta">
+              Served by:{' '}
+              <strong>
+                {usersById[shownOrder.waiterId]?.name ?? 'Unknown'} (
+                {usersById[shownOrder.waiterId] ? ROLE_LABEL[usersById[shownOrder.waiterId].role] : 'User'})
+              </strong>
+            </p>
+            {shownOrder.collector && (
+              <p className="order-meta">
+                Collected by: <strong>{shownOrder.collector}</strong>
+              </p>
             )}
-
-            {tab === 'items' && (
-              <>
-                <div className="page-title-row">
-                  <div>
-                    <h1 className="page-title">{tr(language, 'itemsTitle')}</h1>
-                  </div>
-                </div>
-                <div className="panel light staff-form">
-                  <div className="toolbar toolbar--inline">
-                    <input
-                      className="search"
-                      placeholder={tr(language, 'searchItems')}
-                      value={itemManageSearch}
-                      onChange={(e) => setItemManageSearch(e.target.value)}
-                    />
-                    {currentUser.role === 'admin' && (
-                      <button
-                        className="primary"
-                        onClick={() => {
-                          closeOverlays()
-                          setItemModalOpen(true)
-                        }}
-                      >
-                        {tr(language, 'addItem')}
-                      </button>
-                    )}
+            <p className="order-meta">Time: {formatDateTime(shownOrder.time)}</p>
+            {shownOrder.status === 'void' && (
+              <div className="banner banner--error">
+                {tr(language, 'statusVoid')} {shownOrder.voidedAt ? formatDateTime(shownOrder.voidedAt) : ''} by{' '}
+                {usersById[shownOrder.voidedBy ?? '']?.name ?? shownOrder.voidedBy ?? 'Unknown'}: {shownOrder.voidReason}
+              </div>
+            )}
+            {tables.length > 0 && (
+              <label className="field">
+                <span>{shownOrder.status === 'pending' ? tr(language, 'moveToTable') : tr(language, 'table')}</span>
+                <select
+                  className="field-input"
+                  value={shownOrder.tableId ?? ''}
+                  disabled={shownOrder.status !== 'pending'}
+                  onChange={(e) => moveOrderToTable(shownOrder, e.target.value)}
+                >
+                  <option value="">{tr(language, 'noTable')}</option>
+                  {tables.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      T{t.number} ({t.area})
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <div className="table">
+              <div className="table__head">
+                <span>Item</span>
+                <span>Qty</span>
+                <span>Price</span>
+                <span>Total</span>
+              </div>
+              {shownOrder.items.map((it, idx) => {
+                const unitPrice = lineUnitPrice(it)
+                const lineTotal = unitPrice * it.qty
+                const extras = modifierLabel(it)
+                return (
+                  <div key={`${it.itemId}-${idx}`} className="table__row">
+                    <span>
+                      {lineName(it, itemsById)}
+                      {extras && <small className="line-extras">{extras}</small>}
+                      {shownOrder.status === 'pending' && (
+                        <small className="line-extras">{PREP_LABEL[it.prep ?? 'queued']}</small>
+                      )}
+                    </span>
+                    <span>{it.qty}</span>
+                    <span>{formatPrice(unitPrice)}</span>
+                    <span>{formatPrice(lineTotal)}</span>
                   </div>
-                  <div className="table table--items">
-                    <div className="table__head">
-                      <span>No.</span>
-                      <span>{tr(language, 'name')}</span>
-                      <span>{tr(language, 'price')}</span>
-                      <span>{tr(language, 'stock')}</span>
-                      {currentUser.role === 'admin' && <span>{tr(language, 'actions')}</span>}
+                )
+              })}
+              <div className="table__row total-row">
+                <span>Total</span>
+                <span />
+                <span />
+                <span>{formatPrice(orderTotal(shownOrder))}</span>
+              </div>
+            </div>
+            {shownOrder.discount && <p className="order-meta">{discountLabel(shownOrder.discount)}</p>}
+            {renderBreakdown(orderBreakdown(shownOrder, itemsById))}
+            {(shownOrder.payments ?? []).length > 0 && (
+              <div className="loan-list" style={{ marginTop: 10 }}>
+                <span className="order-meta">
+                  <strong>{tr(language, 'payments')}</strong>
+                </span>
+                {(shownOrder.payments ?? []).map((p) => (
+                  <div key={p.id} className="loan-row">
+                    <div>
+                      <p className="loan-order">
+                        {PAYMENT_METHOD_LABEL[p.method] ?? p.method}
+                        {p.payer ? ` · ${p.payer}` : ''}
+                      </p>
+                      <p className="order-meta">
+                        {usersById[p.collectorId]?.name ?? p.collectorId} &middot; {formatDateTime(p.time)}
+                      </p>
                     </div>
-                    {itemsFiltered.length === 0 && <div className="empty light">{tr(language, 'noItems')}</div>}
-                    {itemsFiltered.map((item, idx) => (
-                      <div
-                        key={item.id}
-                        className="table__row"
-                        role={currentUser.role !== 'admin' ? 'button' : undefined}
-                        onClick={() => {
-                          if (currentUser.role !== 'admin') {
-                            setStockModalItem(item)
-                            setStockModalValue(String(item.stock ?? 0))
-                          }
-                        }}
-                      >
-                        <span>{idx + 1}.</span>
-                        <span>{item.name}</span>
-                        <span>{formatPrice(item.price)}</span>
-                        <span>{item.stock ?? 0}</span>
-                        {currentUser.role === 'admin' ? (
-                          <div className="action-menu">
-                            <button
-                              className="action-dots"
-                              onClick={() => {
-                                setOpenItemAction(item.id)
-                                setItemActionItem(item)
-                                setItemActionName(item.name)
-                                setItemActionPrice(String(item.price))
-                                setItemActionStock(String(item.stock ?? 0))
-                                setPendingItemDelete(null)
-                              }}
-                              aria-haspopup="menu"
-                            >
-                              ⋮
-                            </button>
-                          </div>
-                        ) : null}
-                      </div>
-                    ))}
+                    <span className="loan-amount">{formatPrice(p.amount)}</span>
                   </div>
+                ))}
+                <div className="modal__total">
+                  <span>{tr(language, 'balance')}:</span>
+                  <strong>{formatPrice(orderBalance(shownOrder))}</strong>
                 </div>
-              </>
+              </div>
             )}
-
-            {tab === 'reports' && currentUser.role === 'admin' && (
-              <>
-                <div className="page-title-row">
-                  <div>
-                    <h1 className="page-title">{tr(language, 'reportsTitle')}</h1>
-                  </div>
-                </div>
-                <div className="report-tabs">
-                  {(['daily', 'weekly', 'monthly', 'yearly'] as const).map((tabKey) => (
-                    <button
-                      key={tabKey}
-                      className={`pill-btn ${reportTab === tabKey ? 'active' : ''}`}
-                      onClick={() => setReportTab(tabKey)}
-                    >
-                      {tabKey.charAt(0).toUpperCase() + tabKey.slice(1)}
+            {shownOrder.status === 'pending' && currentUser.role !== 'kitchen' && orderBalance(shownOrder) > 0 && (
+              <div className="payment-form">
+                <span className="order-meta">
+                  <strong>{tr(language, 'takePayment')}</strong>
+                </span>
+                <div className="chip-row">
+                  {[1, 2, 3, 4].map((parts) => (
+                    <button key={parts} className="chip" onClick={() => startPayment(shownOrder, parts)}>
+                      {parts === 1 ? tr(language, 'fullBalance') : `1/${parts}`}
                     </button>
                   ))}
                 </div>
-                <div className="report-actions">
-                  <div className="date-filters">
-                    <input
-                      type="date"
-                      value={reportStart}
-                      placeholder="Start date"
-                      onChange={(e) => setReportStart(e.target.value)}
-                    />
-                    <input
-                      type="date"
-                      value={reportEnd}
-                      placeholder="End date"
-                      onChange={(e) => setReportEnd(e.target.value)}
-                    />
-                  </div>
-                  <div className="chip-row report-status">
-                    {(['all', 'paid', 'loan'] as const).map((status) => (
-                      <button
-                        key={status}
-                        className={`chip ${reportStatus === status ? 'active' : ''}`}
-                        onClick={() => setReportStatus(status)}
-                      >
-                        {status === 'all' ? 'All' : status === 'paid' ? 'Paid' : 'Loan'}
-                      </button>
+                <div className="toolbar toolbar--inline">
+                  <input
+                    className="field-input"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder={formatPrice(orderBalance(shownOrder))}
+                    value={paymentAmount}
+                    onChange={(e) => setPaymentAmount(e.target.value)}
+                  />
+                  <select
+                    className="field-input"
+                    value={paymentMethod}
+                    onChange={(e) => setPaymentMethod(e.target.value as PaymentMethod)}
+                  >
+                    {(Object.keys(PAYMENT_METHOD_LABEL) as PaymentMethod[]).map((method) => (
+                      <option key={method} value={method}>
+                        {PAYMENT_METHOD_LABEL[method]}
+                      </option>
                     ))}
-                  </div>
-                  <div className="export-btns">
-                    <button className="pill-btn" onClick={printReport}>
-                      Print / PDF
-                    </button>
-                    <button className="pill-btn" onClick={exportReportCSV}>
-                      Excel (CSV)
-                    </button>
-                  </div>
+                  </select>
                 </div>
-                <div className="panel light">
-                  <div className="table reports-table">
-                    <div className="table__head">
-                      <span>Period</span>
-                      <span>Orders</span>
-                      <span>Items</span>
-                      <span>Sales</span>
-                      <span>Paid</span>
-                      <span>Loan</span>
-                      <span>Pending</span>
-                    </div>
-                    {reportRows.length === 0 && <div className="empty light">{tr(language, 'noOrders')}</div>}
-                    {reportRows.map((row) => (
-                      <div key={row.label} className="table__row">
-                        <span>{row.label}</span>
-                        <span>{row.ordersCount}</span>
-                        <span>{row.itemsCount}</span>
-                        <span>{formatPrice(row.sales)}</span>
-                        <span>{row.paid}</span>
-                        <span>{row.loan}</span>
-                        <span>{row.pending ?? 0}</span>
-                      </div>
-                    ))}
-                    <div className="table__row total-row">
-                      <span>Total</span>
-                      <span>{reportRows.reduce((s, r) => s + r.ordersCount, 0)}</span>
-                      <span>{reportRows.reduce((s, r) => s + r.itemsCount, 0)}</span>
-                      <span>
-                        {formatPrice(reportRows.reduce((s, r) => s + r.sales, 0))}
-                      </span>
-                      <span>{reportRows.reduce((s, r) => s + r.paid, 0)}</span>
-                      <span>{reportRows.reduce((s, r) => s + r.loan, 0)}</span>
-                      <span>{reportRows.reduce((s, r) => s + (r.pending ?? 0), 0)}</span>
-                    </div>
-                  </div>
+                <input
+                  className="field-input"
+                  placeholder={tr(language, 'payerOptional')}
+                  value={paymentPayer}
+                  onChange={(e) => setPaymentPayer(e.target.value)}
+                />
+                {banner && <div className={`banner banner--${banner.type}`}>{banner.message}</div>}
+                <div className="confirm-actions">
+                  {orderPaid(shownOrder) > 0 && (
+                    <button className="pill-btn warn" onClick={() => handleStatusChange(shownOrder, 'loan')}>
+                      {tr(language, 'balanceToLoan')}
+                    </button>
+                  )}
+                  <button className="primary" onClick={() => recordPayment(shownOrder)}>
+                    {tr(language, 'recordPayment')}
+                  </button>
                 </div>
-              </>
+              </div>
             )}
-          </main>
+            {currentUser.role !== 'kitchen' && (
+              <div className="chip-row receipt-actions">
+                <button className="chip" onClick={() => printReceipt(shownOrder)}>
+                  {tr(language, 'printReceipt')}
+                </button>
+                <button className="chip" onClick={() => printThermalReceipt(shownOrder)}>
+                  {tr(language, 'thermalReceipt')}
+                </button>
+                <button className="chip" onClick={() => shareReceipt(shownOrder)}>
+                  {tr(language, 'shareReceipt')}
+                </button>
+              </div>
+            )}
+            <div className="confirm-actions">
+              {shownOrder.status === 'pending' && currentUser.role !== 'kitchen' && (
+                <button className="pill-btn" onClick={() => openEditOrder(shownOrder)}>
+                  {tr(language, 'editOrder')}
+                </button>
+              )}
+              {(shownOrder.status === 'pending' || (isAdmin && shownOrder.status === 'paid')) &&
+                currentUser.role !== 'kitchen' && (
+                  <button
+                    className="pill-btn danger"
+                    onClick={() => {
+                      setVoidOrder(shownOrder)
+                      setVoidReason('')
+                      setViewOrder(null)
+                    }}
+                  >
+                    {tr(language, 'voidOrder')}
+                  </button>
+                )}
+              <button className="pill-btn" onClick={() => setViewOrder(null)}>
+                Close
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {openAction && actionWaiter && (
+        <div className="modal" onClick={() => setOpenAction(null)}>
+          <div className="modal__content" onClick={(e) => e.stopPropagation()}>
+            <div className="modal__head">
+              <h3>Staff Actions</h3>
+              <button className="icon-btn" onClick={() => setOpenAction(null)} aria-label="Close">
+                ✕
+              </button>
+            </div>
+            <p className="order-meta">
+              {actionWaiter.name} &middot; {ROLE_LABEL[actionWaiter.role]}
+            </p>
+            <div className="modal__items">
+              <button
+                className="pill-btn"
+                onClick={() => {
+                  setActionWaiter(actionWaiter)
+                  setActionType('profile')
+                  setActionName(actionWaiter.name)
+                  setActionPhone(actionWaiter.phone)
+                  setActionRole(actionWaiter.role)
+                  setOpenAction(null)
+                }}
+              >
+                Update
+              </button>
+              <button
+                className="pill-btn warn"
+                onClick={() => {
+                  setActionWaiter(actionWaiter)
+                  setActionType('reset')
+                  setOpenAction(null)
+                }}
+              >
+                Reset PIN
+              </button>
+              <button
+                className="pill-btn danger"
+                onClick={() => {
+                  setPendingDelete(actionWaiter)
+                  setOpenAction(null)
+                }}
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {openItemAction && itemActionItem && (
+        <div className="modal" onClick={() => setOpenItemAction(null)}>
+          <div className="modal__content" onClick={(e) => e.stopPropagation()}>
+            <div className="modal__head">
+              <h3>Item Actions</h3>
+              <button className="icon-btn" onClick={() => setOpenItemAction(null)} aria-label="Close">
+                ✕
+              </button>
+            </div>
+            <p className="order-meta">{itemActionItem.name}</p>
+            <div className="modal__items">
+              <button
+                className="pill-btn"
+                onClick={() => {
+                  setViewItem(itemActionItem)
+                  setOpenItemAction(null)
+                }}
+              >
+                View
+              </button>
+              <button
+                className="pill-btn"
+                onClick={() => {
+                  setItemActionItem(itemActionItem)
+                  setOpenItemAction(null)
+                }}
+              >
+                Edit
+              </button>
+              <button
+                className="pill-btn danger"
+                onClick={() => {
+                  setPendingItemDelete(itemActionItem)
+                  setOpenItemAction(null)
+                }}
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {itemActionItem && (
+        <div className="modal">
+          <div className="modal__content">
+            <div className="modal__head">
+              <h3>Edit Item</h3>
+              <button
+                className="icon-btn"
+                onClick={() => {
+                  setItemActionItem(null)
+                  setOpenItemAction(null)
+                }}
+              >
+                ✕
+              </button>
+            </div>
+            <p className="order-meta">Update item name or price below.</p>
+            <div className="modal__items">
+              <label className="field">
+                <span>Name</span>
+                <input
+                  className="field-input"
+                  placeholder="Name"
+                  value={itemActionName}
+                  onChange={(e) => setItemActionName(e.target.value)}
+                />
+              </label>
+              <label className="field">
+                <span>Price</span>
+                <input
+                  className="field-input"
+                  placeholder="Price"
+                  type="number"
+                  value={itemActionPrice}
+                  onChange={(e) => setItemActionPrice(e.target.value)}
+                />
+              </label>
+              <label className="field">
+                <span>Stock</span>
+                <input
+                  className="field-input"
+                  placeholder="0"
+                  type="number"
+                  min="0"
+                  value={itemActionStock}
+                  onChange={(e) => setItemActionStock(e.target.value)}
+                />
+              </label>
+              <label className="field">
+                <span>{tr(language, 'reorderLevel')}</span>
+                <input
+                  className="field-input"
+                  placeholder="0"
+                  type="number"
+                  min="0"
+                  value={itemActionReorder}
+                  onChange={(e) => setItemActionReorder(e.target.value)}
+                />
+              </label>
+              {menuFields}
+              {costEditor}
+              {modifierEditor}
+              {recipeEditor}
+            </div>
+            <div className="confirm-actions">
+              <button
+                className="pill-btn"
+                onClick={() => {
+                  setItemActionItem(null)
+                  setOpenItemAction(null)
+                }}
+              >
+                Cancel
+              </button>
+              <button className="primary" onClick={updateItem}>
+                Save
+              </button>
+            </div>
+          </div>
         </div>
-      </div>
+      )}
 
-      {!isAdmin && (
-        <button className="fab" onClick={() => setShowOrderModal(true)} aria-label="Add order">
-          +
-        </button>
+      {stockModalTarget && (
+        <div className="modal" onClick={closeStockModal}>
+          <div className="modal__content" onClick={(e) => e.stopPropagation()}>
+            <div className="modal__head">
+              <h3>Update Stock</h3>
+              <button className="icon-btn" onClick={closeStockModal} aria-label="Close">
+                ✕
+              </button>
+            </div>
+            <p className="order-meta">
+              {stockModalTarget.label} &middot; {tr(language, 'stock')}: {stockModalTarget.stock} {stockModalTarget.unit}
+            </p>
+            <div className="chip-row">
+              {(['restock', 'waste', 'adjust'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  className={`chip ${stockModalMode === mode ? 'active' : ''}`}
+                  onClick={() => {
+                    setStockModalMode(mode)
+                    setStockModalValue(mode === 'adjust' ? String(stockModalTarget.stock) : '')
+                  }}
+                >
+                  {tr(language, `move_${mode}`)}
+                </button>
+              ))}
+            </div>
+            <div className="modal__items">
+              <label className="field">
+                <span>{stockModalMode === 'adjust' ? tr(language, 'countedStock') : tr(language, 'quantity')}</span>
+                <input
+                  className="field-input"
+                  type="number"
+                  min="0"
+                  step={stockModalIngredient ? 'any' : undefined}
+                  value={stockModalValue}
+                  onChange={(e) => setStockModalValue(e.target.value)}
+                />
+              </label>
+              <input
+                className="field-input"
+                placeholder={tr(language, 'noteOptional')}
+                value={stockModalNote}
+                onChange={(e) => setStockModalNote(e.target.value)}
+              />
+            </div>
+            {banner && <div className={`banner banner--${banner.type}`}>{banner.message}</div>}
+            <div className="confirm-actions">
+              <button className="pill-btn" onClick={closeStockModal}>
+                Cancel
+              </button>
+              <button className="primary" onClick={updateStock}>
+                Save
+              </button>
+            </div>
+          </div>
+        </div>
       )}
 
-      {!isAdmin && (
-        <nav className="tabbar">
-          <button className={`tabbar__btn ${tab === 'dash' ? 'active' : ''}`} onClick={() => setTab('dash')}>
-            <FiHome />
-            <span>{tr(language, 'dash')}</span>
-          </button>
-          <button className={`tabbar__btn ${tab === 'orders' ? 'active' : ''}`} onClick={() => setTab('orders')}>
-            <FiFileText />
-            <span>{tr(language, 'orders')}</span>
-          </button>
-          <button className={`tabbar__btn ${tab === 'items' ? 'active' : ''}`} onClick={() => setTab('items')}>
-            <FiBox />
-            <span>{tr(language, 'items')}</span>
-          </button>
-          <button className={`tabbar__btn ${tab === 'loans' ? 'active' : ''}`} onClick={() => setTab('loans')}>
-            <FiDollarSign />
-            <span>{tr(language, 'loans')}</span>
-          </button>
-          {currentUser.role === 'admin' && (
-            <button className={`tabbar__btn ${tab === 'staff' ? 'active' : ''}`} onClick={() => setTab('staff')}>
-              <FiUsers />
-              <span>{tr(language, 'staff')}</span>
-            </button>
-          )}
-        </nav>
+      {pendingItemDelete && (
+        <div className="modal">
+          <div className="modal__content">
+            <div className="modal__head">
+              <h3>Confirm delete</h3>
+            </div>
+            <p className="order-meta">
+              Are you sure you want to delete <strong>{pendingItemDelete.name}</strong>?
+            </p>
+            <div className="confirm-actions">
+              <button className="pill-btn" onClick={() => setPendingItemDelete(null)}>
+                Cancel
+              </button>
+              <button
+                className="pill-btn danger"
+                onClick={() => {
+                  deleteItem(pendingItemDelete.id)
+                  setPendingItemDelete(null)
+                }}
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
       )}
 
-      {showOrderModal && (
+      {actionWaiter && actionType === 'reset' && (
         <div className="modal">
           <div className="modal__content">
             <div className="modal__head">
-              <h3>{tr(language, 'newOrderTitle')}</h3>
-              <button className="icon-btn" onClick={() => setShowOrderModal(false)} aria-label="Close">
+              <h3>Reset PIN</h3>
+              <button className="icon-btn" onClick={() => { setActionWaiter(null); setActionType(null) }}>
+                ✕
+              </button>
+            </div>
+            <p className="order-meta">
+              Reset PIN for <strong>{actionWaiter.name}</strong> to 0000?
+            </p>
+            <div className="confirm-actions">
+              <button className="pill-btn" onClick={() => { setActionWaiter(null); setActionType(null) }}>
+                Cancel
+              </button>
+              <button
+                className="pill-btn warn"
+                onClick={() => {
+                  resetWaiterPin(actionWaiter.id)
+                  setActionWaiter(null)
+                  setActionType(null)
+                }}
+              >
+                Reset
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {actionWaiter && actionType === 'profile' && (
+        <div className="modal">
+          <div className="modal__content">
+            <div className="modal__head">
+              <h3>Edit Staff</h3>
+              <button className="icon-btn" onClick={() => { setActionWaiter(null); setActionType(null) }}>
                 ✕
               </button>
             </div>
-            <input
-              className="search"
-              type="search"
-              placeholder={tr(language, 'searchMenu')}
-              value={itemSearch}
-              onChange={(e) => setItemSearch(e.target.value)}
-            />
             <div className="modal__items">
-              {items
-                .filter((item) => item.name.toLowerCase().includes(itemSearch.trim().toLowerCase()))
-                .map((item) => {
-                  const qty = draftQty[item.id] ?? 0
-                  const stock = typeof item.stock === 'number' ? item.stock : Infinity
-                  const remaining = stock === Infinity ? '∞' : Math.max(0, stock - qty)
-                  const atCap = stock !== Infinity && qty >= stock
-                  return (
-                    <div key={item.id} className="item-row">
-                      <div>
-                        <p className="item-name">{item.name}</p>
-                        <p className="item-meta">
-                          {formatPrice(item.price)} {stock !== Infinity && <span>· Stock left: {remaining}</span>}
-                        </p>
-                      </div>
-                      <div className="qty-changer">
-                        <button
-                          className="qty-btn"
-                          onClick={() => updateDraftQty(item.id, Math.max(0, qty - 1))}
-                          disabled={qty === 0}
-                        >
-                          −
-                        </button>
-                        <span className="qty">{qty}</span>
-                        <button
-                          className="qty-btn plus"
-                          onClick={() => updateDraftQty(item.id, stock === Infinity ? qty + 1 : Math.min(stock, qty + 1))}
-                          disabled={atCap}
-                        >
-                          +
-                        </button>
-                      </div>
-                    </div>
-                  )
-                })}
+              <input
+                className="field-input"
+                placeholder="Name"
+                value={actionName}
+                onChange={(e) => setActionName(e.target.value)}
+              />
+              <input
+                className="field-input"
+                placeholder="Phone"
+                value={actionPhone}
+                onChange={(e) => setActionPhone(e.target.value)}
+              />
+              <label className="field">
+                <span>New PIN (optional)</span>
+                <input
+                  className="field-input"
+                  placeholder="4 digits"
+                  type="password"
+                  inputMode="numeric"
+                  pattern="[0-9]*"
+                  value={actionPin}
+                  onChange={(e) => setActionPin(e.target.value)}
+                />
+              </label>
             </div>
-            <div className="modal__total">
-              <span>{tr(language, 'total')}:</span>
-              <strong>{formatPrice(draftTotal)}</strong>
+            <div className="confirm-actions">
+              <button className="pill-btn" onClick={() => { setActionWaiter(null); setActionType(null) }}>
+                Cancel
+              </button>
+              <button
+                className="primary"
+                onClick={() => {
+                  updateWaiterProfile(actionWaiter.id, actionName, actionPhone, actionRole, actionPin)
+                  setActionWaiter(null)
+                  setActionType(null)
+                  setActionPin('')
+                }}
+              >
+                Save
+              </button>
             </div>
-            <button className="primary block" onClick={handleCreateOrder}>
-              <span className="btn-icon"><FiClipboard aria-hidden /></span> {tr(language, 'submitOrder')}
-            </button>
           </div>
         </div>
       )}
 
-      {waiterModalOpen && (
+      {supplierModalOpen && (
         <div className="modal">
           <div className="modal__content">
             <div className="modal__head">
-              <h3>Add User</h3>
-              <button className="icon-btn" onClick={() => setWaiterModalOpen(false)} aria-label="Close">
+              <h3>{tr(language, 'addSupplier')}</h3>
+              <button className="icon-btn" onClick={() => setSupplierModalOpen(false)} aria-label="Close">
                 ✕
               </button>
             </div>
             <div className="modal__items">
               <input
                 className="field-input"
-                placeholder="Name"
-                value={newWaiterName}
-                onChange={(e) => setNewWaiterName(e.target.value)}
+                placeholder="Supplier name"
+                value={newSupplierName}
+                onChange={(e) => setNewSupplierName(e.target.value)}
               />
               <input
                 className="field-input"
                 placeholder="Phone"
-                value={newWaiterPhone}
-                onChange={(e) => setNewWaiterPhone(e.target.value)}
+                value={newSupplierPhone}
+                onChange={(e) => setNewSupplierPhone(e.target.value)}
                 type="tel"
               />
-              <label className="field">
-                <span>Role</span>
-                <select className="field-input" value={newWaiterRole} onChange={(e) => setNewWaiterRole(e.target.value as Role)}>
-                  <option value="waiter">Waiter</option>
-                  <option value="collector">Collector</option>
-                  <option value="admin">Admin</option>
-                </select>
-              </label>
             </div>
-            <p className="order-meta">Default PIN: 4321</p>
-            <button className="primary block" onClick={addWaiter}>
-              {tr(language, 'addUser')}
+            {banner && <div className={`banner banner--${banner.type}`}>{banner.message}</div>}
+            <button className="primary block" onClick={addSupplier}>
+              {tr(language, 'addSupplier')}
             </button>
           </div>
         </div>
       )}
 
-      {pendingDelete && (
-        <div className="modal">
-          <div className="modal__content">
+      {paySupplier && (
+        <div className="modal" onClick={() => setPaySupplier(null)}>
+          <div className="modal__content" onClick={(e) => e.stopPropagation()}>
             <div className="modal__head">
-              <h3>Confirm delete</h3>
+              <h3>{tr(language, 'paySupplier')}</h3>
+              <button className="icon-btn" onClick={() => setPaySupplier(null)} aria-label="Close">
+                ✕
+              </button>
             </div>
             <p className="order-meta">
-              Are you sure you want to delete <strong>{pendingDelete.name}</strong>?
+              {paySupplier.name} &middot; {tr(language, 'outstanding')}{' '}
+              {formatPrice(supplierBalance(paySupplier, purchaseOrders).owed)}
             </p>
+            <div className="toolbar toolbar--inline">
+              <input
+                className="field-input"
+                type="number"
+                min="0"
+                step="0.01"
+                value={supplierPayAmount}
+                onChange={(e) => setSupplierPayAmount(e.target.value)}
+              />
+              <select
+                className="field-input"
+                value={supplierPayMethod}
+                onChange={(e) => setSupplierPayMethod(e.target.value as PaymentMethod)}
+              >
+                {(Object.keys(PAYMENT_METHOD_LABEL) as PaymentMethod[]).map((method) => (
+                  <option key={method} value={method}>
+                    {PAYMENT_METHOD_LABEL[method]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <input
+              className="field-input"
+              placeholder={tr(language, 'noteOptional')}
+              value={supplierPayNote}
+              onChange={(e) => setSupplierPayNote(e.target.value)}
+            />
+            <div className="loan-list">
+              {Object.values(paySupplier.payments ?? {})
+                .sort((a, b) => b.date.localeCompare(a.date))
+                .map((p) => (
+                  <div key={p.id} className="loan-row">
+                    <div>
+                      <p className="loan-order">{formatDateTime(p.date)}</p>
+                      <p className="order-meta">
+                        {PAYMENT_METHOD_LABEL[p.method] ?? p.method} &middot; {p.paidBy}
+                        {p.note ? ` · ${p.note}` : ''}
+                      </p>
+                    </div>
+                    <span className="loan-amount">{formatPrice(p.amount)}</span>
+                  </div>
+                ))}
+            </div>
+            {banner && <div className={`banner banner--${banner.type}`}>{banner.message}</div>}
             <div className="confirm-actions">
-              <button className="pill-btn" onClick={() => setPendingDelete(null)}>
-                Cancel
-              </button>
               <button
-                className="pill-btn danger"
-                onClick={() => {
-                  deleteWaiter(pendingDelete.id)
-                  setPendingDelete(null)
-                }}
+                className="pill-btn"
+                onClick={() => setSupplierPayAmount(supplierBalance(paySupplier, purchaseOrders).owed.toFixed(2))}
               >
-                Delete
+                {tr(language, 'fullBalance')}
+              </button>
+              <button className="primary" onClick={() => recordSupplierPayment(paySupplier)}>
+                Save
               </button>
             </div>
           </div>
         </div>
       )}
 
-      {itemModalOpen && (
+      {purchaseModalOpen && (
         <div className="modal">
           <div className="modal__content">
             <div className="modal__head">
-              <h3>Add Item</h3>
-              <button className="icon-btn" onClick={() => setItemModalOpen(false)} aria-label="Close">
+              <h3>{tr(language, 'newPurchaseOrder')}</h3>
+              <button className="icon-btn" onClick={() => setPurchaseModalOpen(false)} aria-label="Close">
                 ✕
               </button>
             </div>
-              <p className="order-meta">Set the item name and price.</p>
-              <div className="modal__items">
-                <label className="field">
-                  <span>Item name</span>
-                  <input
+            <div className="modal__items">
+              <select
+                className="field-input"
+                value={purchaseSupplierId}
+                onChange={(e) => setPurchaseSupplierId(e.target.value)}
+              >
+                <option value="">{tr(language, 'selectSupplier')}</option>
+                {suppliers.map((sup) => (
+                  <option key={sup.id} value={sup.id}>
+                    {sup.name}
+                  </option>
+                ))}
+              </select>
+              {purchaseLines.map((d, idx) => (
+                <div key={idx} className="toolbar toolbar--inline">
+                  <select
                     className="field-input"
-                  placeholder="Item name"
-                  value={newItemName}
-                  onChange={(e) => setNewItemName(e.target.value)}
-                />
-              </label>
-                <label className="field">
-                  <span>Price</span>
+                    value={d.target}
+                    onChange={(e) =>
+                      setPurchaseLines((prev) => prev.map((l, i) => (i === idx ? { ...l, target: e.target.value } : l)))
+                    }
+                  >
+                    <option value="">{tr(language, 'selectProduct')}</option>
+                    <optgroup label={tr(language, 'items')}>
+                      {items.map((item) => (
+                        <option key={item.id} value={`item:${item.id}`}>
+                          {item.name}
+                        </option>
+                      ))}
+                    </optgroup>
+                    {ingredients.length > 0 && (
+                      <optgroup label={tr(language, 'ingredients')}>
+                        {ingredients.map((ing) => (
+                          <option key={ing.id} value={`ingredient:${ing.id}`}>
+                            {ing.name} ({ing.unit})
+                          </option>
+                        ))}
+                      </optgroup>
+                    )}
+                  </select>
                   <input
                     className="field-input"
-                    placeholder="Price"
                     type="number"
-                    value={newItemPrice}
-                    onChange={(e) => setNewItemPrice(e.target.value)}
+                    min="0"
+                    step="any"
+                    placeholder={tr(language, 'quantity')}
+                    value={d.qty}
+                    onChange={(e) =>
+                      setPurchaseLines((prev) => prev.map((l, i) => (i === idx ? { ...l, qty: e.target.value } : l)))
+                    }
                   />
-                </label>
-                <label className="field">
-                  <span>Stock</span>
                   <input
                     className="field-input"
-                    placeholder="0"
                     type="number"
-                    value={newItemStock}
                     min="0"
-                    onChange={(e) => setNewItemStock(e.target.value)}
+                    step="0.01"
+                    placeholder={tr(language, 'unitCost')}
+                    value={d.unitCost}
+                    onChange={(e) =>
+                      setPurchaseLines((prev) => prev.map((l, i) => (i === idx ? { ...l, unitCost: e.target.value } : l)))
+                    }
                   />
-                </label>
-            </div>
-            <button className="primary block" onClick={addItem}>
-              {tr(language, 'addItem')}
-            </button>
-          </div>
-        </div>
-      )}
-
-      {viewItem && (
-        <div className="modal">
-          <div className="modal__content">
-            <div className="modal__head">
-              <h3>Item Details</h3>
-              <button className="icon-btn" onClick={() => setViewItem(null)} aria-label="Close">
-                ✕
-              </button>
-            </div>
-            <div className="modal__items">
-              <p className="order-meta"><strong>Name:</strong> {viewItem.name}</p>
-              <p className="order-meta"><strong>Price:</strong> {formatPrice(viewItem.price)}</p>
-            </div>
-            <div className="confirm-actions">
-              <button className="pill-btn" onClick={() => setViewItem(null)}>
-                Close
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
-
-      {viewOrder && (
-        <div className="modal" onClick={() => setViewOrder(null)}>
-          <div className="modal__content" onClick={(e) => e.stopPropagation()}>
-            <div className="modal__head">
-              <h3>{orderTitle(viewOrder)}</h3>
-              <button className="icon-btn" onClick={() => setViewOrder(null)} aria-label="Close">
-                ✕
+                  <button
+                    className="pill-btn danger"
+                    type="button"
+                    onClick={() => setPurchaseLines((prev) => prev.filter((_, i) => i !== idx))}
+                  >
+                    {tr(language, 'delete')}
+                  </button>
+                </div>
+              ))}
+              <button
+                className="pill-btn"
+                type="button"
+                onClick={() => setPurchaseLines((prev) => [...prev, { target: '', qty: '', unitCost: '' }])}
+              >
+                {tr(language, 'addPurchaseLine')}
               </button>
-            </div>
-            <p className="order-meta">
-              Served by:{' '}
-              <strong>
-                {usersById[viewOrder.waiterId]?.name ?? 'Unknown'} (
-                {usersById[viewOrder.waiterId] ? ROLE_LABEL[usersById[viewOrder.waiterId].role] : 'User'})
-              </strong>
-            </p>
-            {viewOrder.collector && (
+              <input
+                className="field-input"
+                placeholder={tr(language, 'noteOptional')}
+                value={purchaseNote}
+                onChange={(e) => setPurchaseNote(e.target.value)}
+              />
               <p className="order-meta">
-                Collected by: <strong>{viewOrder.collector}</strong>
+                {tr(language, 'expectedTotal')}:{' '}
+                {formatPrice(
+                  purchaseLines.reduce((sum, d) => sum + (Number(d.qty) || 0) * (Number(d.unitCost) || 0), 0)
+                )}
               </p>
-            )}
-            <p className="order-meta">Time: {formatDateTime(viewOrder.time)}</p>
-            <div className="table">
-              <div className="table__head">
-                <span>Item</span>
-                <span>Qty</span>
-                <span>Price</span>
-                <span>Total</span>
-              </div>
-              {viewOrder.items.map((it) => {
-                const item = itemsById[it.itemId]
-                const lineTotal = (item?.price ?? 0) * it.qty
-                return (
-                  <div key={it.itemId} className="table__row">
-                    <span>{item?.name ?? it.itemId}</span>
-                    <span>{it.qty}</span>
-                    <span>{formatPrice(item?.price ?? 0)}</span>
-                    <span>{formatPrice(lineTotal)}</span>
-                  </div>
-                )
-              })}
-              <div className="table__row total-row">
-                <span>Total</span>
-                <span />
-                <span />
-                <span>{formatPrice(orderTotal(viewOrder))}</span>
-              </div>
-            </div>
-            <div className="confirm-actions">
-              <button className="pill-btn" onClick={() => setViewOrder(null)}>
-                Close
-              </button>
             </div>
+            {banner && <div className={`banner banner--${banner.type}`}>{banner.message}</div>}
+            <button className="primary block" onClick={createPurchaseOrder}>
+              {tr(language, 'newPurchaseOrder')}
+            </button>
           </div>
         </div>
       )}
 
-      {openAction && actionWaiter && (
-        <div className="modal" onClick={() => setOpenAction(null)}>
+      {receivePurchase && (
+        <div className="modal" onClick={() => setReceivePurchase(null)}>
           <div className="modal__content" onClick={(e) => e.stopPropagation()}>
             <div className="modal__head">
-              <h3>Staff Actions</h3>
-              <button className="icon-btn" onClick={() => setOpenAction(null)} aria-label="Close">
+              <h3>
+                {tr(language, 'receiveGoods')} &middot; {receivePurchase.number}
+              </h3>
+              <button className="icon-btn" onClick={() => setReceivePurchase(null)} aria-label="Close">
                 ✕
               </button>
             </div>
-            <p className="order-meta">
-              {actionWaiter.name} &middot; {ROLE_LABEL[actionWaiter.role]}
-            </p>
+            <p className="order-meta">{tr(language, 'receiveHint')}</p>
             <div className="modal__items">
-              <button
-                className="pill-btn"
-                onClick={() => {
-                  setActionWaiter(actionWaiter)
-                  setActionType('profile')
-                  setActionName(actionWaiter.name)
-                  setActionPhone(actionWaiter.phone)
-                  setActionRole(actionWaiter.role)
-                  setOpenAction(null)
-                }}
-              >
-                Update
-              </button>
-              <button
-                className="pill-btn warn"
-                onClick={() => {
-                  setActionWaiter(actionWaiter)
-                  setActionType('reset')
-                  setOpenAction(null)
-                }}
-              >
-                Reset PIN
+              {receivePurchase.lines.map((line, idx) => (
+                <div key={`${line.kind}-${line.targetId}-${idx}`} className="field">
+                  <span>
+                    {line.name} &middot; {tr(language, 'ordered')} {line.qty} @ {formatPrice(line.unitCost)}
+                  </span>
+                  <div className="toolbar toolbar--inline">
+                    <input
+                      className="field-input"
+                      type="number"
+                      min="0"
+                      step="any"
+                      aria-label={tr(language, 'quantity')}
+                      value={receiveLines[idx]?.qty ?? ''}
+                      onChange={(e) =>
+                        setReceiveLines((prev) => prev.map((l, i) => (i === idx ? { ...l, qty: e.target.value } : l)))
+                      }
+                    />
+                    <input
+                      className="field-input"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      aria-label={tr(language, 'unitCost')}
+                      value={receiveLines[idx]?.unitCost ?? ''}
+                      onChange={(e) =>
+                        setReceiveLines((prev) =>
+                          prev.map((l, i) => (i === idx ? { ...l, unitCost: e.target.value } : l))
+                        )
+                      }
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+            {banner && <div className={`banner banner--${banner.type}`}>{banner.message}</div>}
+            <div className="confirm-actions">
+              <button className="pill-btn" onClick={() => setReceivePurchase(null)}>
+                Cancel
               </button>
-              <button
-                className="pill-btn danger"
-                onClick={() => {
-                  setPendingDelete(actionWaiter)
-                  setOpenAction(null)
-                }}
-              >
-                Delete
+              <button className="primary" onClick={() => receivePurchaseOrder(receivePurchase)}>
+                {tr(language, 'confirmReceipt')}
               </button>
             </div>
           </div>
         </div>
       )}
 
-      {openItemAction && itemActionItem && (
-        <div className="modal" onClick={() => setOpenItemAction(null)}>
-          <div className="modal__content" onClick={(e) => e.stopPropagation()}>
+      {loanCustomerModalOpen && (
+        <div className="modal">
+          <div className="modal__content">
             <div className="modal__head">
-              <h3>Item Actions</h3>
-              <button className="icon-btn" onClick={() => setOpenItemAction(null)} aria-label="Close">
+              <h3>{tr(language, 'addLoanCustomer')}</h3>
+              <button className="icon-btn" onClick={() => setLoanCustomerModalOpen(false)} aria-label="Close">
                 ✕
               </button>
             </div>
-            <p className="order-meta">{itemActionItem.name}</p>
             <div className="modal__items">
-              <button
-                className="pill-btn"
-                onClick={() => {
-                  setViewItem(itemActionItem)
-                  setOpenItemAction(null)
-                }}
-              >
-                View
-              </button>
-              <button
-                className="pill-btn"
-                onClick={() => {
-                  setItemActionItem(itemActionItem)
-                  setOpenItemAction(null)
-                }}
-              >
-                Edit
-              </button>
-              <button
-                className="pill-btn danger"
-                onClick={() => {
-                  setPendingItemDelete(itemActionItem)
-                  setOpenItemAction(null)
-                }}
-              >
-                Delete
-              </button>
+              <input
+                className="field-input"
+                placeholder="Customer name"
+                value={newLoanCustomerName}
+                onChange={(e) => setNewLoanCustomerName(e.target.value)}
+              />
+              <input
+                className="field-input"
+                placeholder="Phone"
+                value={newLoanCustomerPhone}
+                onChange={(e) => setNewLoanCustomerPhone(e.target.value)}
+                type="tel"
+              />
+              {newLoanCustomerDuplicate && (
+                <div className="banner banner--warn">
+                  {tr(language, 'alreadyRegistered')}: {newLoanCustomerDuplicate.name} ({newLoanCustomerDuplicate.phone})
+                  {newLoanCustomerDuplicate.archived ? ` · ${tr(language, 'archived')}` : ''}
+                </div>
+              )}
             </div>
+            <button className="primary block" onClick={addLoanCustomer}>
+              {tr(language, 'addLoanCustomer')}
+            </button>
           </div>
         </div>
       )}
 
-      {itemActionItem && (
+      {loanEntryModalOpen && (
         <div className="modal">
           <div className="modal__content">
             <div className="modal__head">
-              <h3>Edit Item</h3>
-              <button
-                className="icon-btn"
-                onClick={() => {
-                  setItemActionItem(null)
-                  setOpenItemAction(null)
-                }}
-              >
+              <h3>{tr(language, 'addLoanEntry')}</h3>
+              <button className="icon-btn" onClick={() => setLoanEntryModalOpen(false)} aria-label="Close">
                 ✕
               </button>
             </div>
-            <p className="order-meta">Update item name or price below.</p>
             <div className="modal__items">
               <label className="field">
-                <span>Name</span>
-                <input
-                  className="field-input"
-                  placeholder="Name"
-                  value={itemActionName}
-                  onChange={(e) => setItemActionName(e.target.value)}
-                />
-              </label>
-              <label className="field">
-                <span>Price</span>
-                <input
+                <span>Customer</span>
+                <select
                   className="field-input"
-                  placeholder="Price"
-                  type="number"
-                  value={itemActionPrice}
-                  onChange={(e) => setItemActionPrice(e.target.value)}
-                />
+                  value={loanEntryCustomerId}
+                  onChange={(e) => setLoanEntryCustomerId(e.target.value)}
+                >
+                  <option value="">Select customer</option>
+                  {activeLoanCustomers.map((c) => (
+                    <option key={c.id} value={c.id}>
+                      {c.name} ({c.phone})
+                    </option>
+                  ))}
+                </select>
               </label>
               <label className="field">
-                <span>Stock</span>
-                <input
+                <span>Loan order</span>
+                <select
                   className="field-input"
-                  placeholder="0"
-                  type="number"
-                  min="0"
-                  value={itemActionStock}
-                  onChange={(e) => setItemActionStock(e.target.value)}
-                />
+                  value={loanEntryOrderId}
+                  onChange={(e) => setLoanEntryOrderId(e.target.value)}
+                >
+                  <option value="">Select order</option>
+                  {loanOrders.map((o, idx) => (
+                    <option key={o.dbId ?? `${o.id}-${idx}`} value={o.dbId ?? o.id}>
+                      {o.id} - {orderTitle(o)} ({formatPrice(orderTotal(o))})
+                    </option>
+                  ))}
+                </select>
               </label>
             </div>
+            <button className="primary block" onClick={addLoanEntry}>
+              {tr(language, 'addLoanEntry')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loanStatusModalOpen && (
+        <div className="modal">
+          <div className="modal__content">
+            <div className="modal__head">
+              <h3>Select loan customer</h3>
+              <button className="icon-btn" onClick={() => setLoanStatusModalOpen(false)} aria-label="Close">
+                ✕
+              </button>
+            </div>
+            <input
+              className="search"
+              placeholder={tr(language, 'searchLoanCustomers')}
+              value={loanStatusSearch}
+              onChange={(e) => setLoanStatusSearch(e.target.value)}
+            />
+            <div className="loan-list" style={{ maxHeight: 280, overflowY: 'auto', marginTop: 10 }}>
+              {loanCustomersModalFiltered.length === 0 && <div className="empty light">No customers found.</div>}
+              {loanCustomersModalFiltered.map((c) => {
+                const check = creditCheck(c, loanStatusOrder ? orderBalance(loanStatusOrder) : 0)
+                return (
+                  <label key={c.id} className="loan-row" style={{ cursor: 'pointer' }}>
+                    <div>
+                      <p className="loan-order" style={{ marginBottom: 2 }}>
+                        {c.name} {creditCheck(c).problems.length > 0 && <span className="blocked-badge">{tr(language, 'blocked')}</span>}
+                      </p>
+                      <p className="order-meta">{c.phone}</p>
+                      {c.creditLimit ? (
+                        <p className="order-meta">
+                          {tr(language, 'creditLimit')} {formatPrice(c.creditLimit)}
+                        </p>
+                      ) : null}
+                    </div>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
+                      <span className={`loan-amount ${check.problems.length > 0 ? 'loan-amount--over' : ''}`}>
+                        {formatPrice(check.outstanding)}
+                      </span>
+                      <input
+                        type="radio"
+                        name="loan-customer"
+                        checked={loanStatusCustomerId === c.id}
+                        onChange={() => setLoanStatusCustomerId(c.id)}
+                      />
+                    </div>
+                  </label>
+                )
+              })}
+            </div>
+            {loanStatusCheck && loanStatusCheck.problems.length > 0 && (
+              <div className={`banner ${loanStatusCheck.blocked ? 'banner--error' : 'banner--warn'}`}>
+                {loanStatusCheck.blocked ? tr(language, 'creditBlocked') : tr(language, 'creditWarning')}:{' '}
+                {loanStatusCheck.problems.join('; ')}.
+              </div>
+            )}
+            {loanStatusCheck?.blocked && isAdmin && (
+              <input
+                className="field-input"
+                placeholder={tr(language, 'overrideReason')}
+                value={loanOverrideReason}
+                onChange={(e) => setLoanOverrideReason(e.target.value)}
+              />
+            )}
             <div className="confirm-actions">
-              <button
-                className="pill-btn"
-                onClick={() => {
-                  setItemActionItem(null)
-                  setOpenItemAction(null)
-                }}
-              >
+              <button className="pill-btn" onClick={() => setLoanStatusModalOpen(false)}>
                 Cancel
               </button>
-              <button className="primary" onClick={updateItem}>
-                Save
+              <button
+                className="primary"
+                disabled={!!loanStatusCheck?.blocked && (!isAdmin || !loanOverrideReason.trim())}
+                onClick={confirmLoanStatus}
+              >
+                {loanStatusCheck?.blocked && isAdmin ? tr(language, 'overrideAndConfirm') : 'Confirm'}
               </button>
             </div>
           </div>
         </div>
       )}
 
-      {stockModalItem && (
-        <div className="modal" onClick={() => setStockModalItem(null)}>
+      {shownLoanCustomer && (
+        <div className="modal" onClick={() => setViewLoanCustomer(null)}>
           <div className="modal__content" onClick={(e) => e.stopPropagation()}>
             <div className="modal__head">
-              <h3>Update Stock</h3>
-              <button className="icon-btn" onClick={() => setStockModalItem(null)} aria-label="Close">
+              <h3>Loan details</h3>
+              <button className="icon-btn" onClick={() => setViewLoanCustomer(null)} aria-label="Close">
                 ✕
               </button>
             </div>
-            <p className="order-meta">
-              {stockModalItem.name} &middot; {formatPrice(stockModalItem.price)}
-            </p>
-            <div className="modal__items">
-              <label className="field">
-                <span>Stock</span>
+            {loanEditing ? (
+              <div className="payment-form">
                 <input
                   className="field-input"
-                  type="number"
-                  min="0"
-                  value={stockModalValue}
-                  onChange={(e) => setStockModalValue(e.target.value)}
+                  value={loanEditName}
+                  onChange={(e) => setLoanEditName(e.target.value)}
+                  placeholder="Customer name"
                 />
-              </label>
+                <input
+                  className="field-input"
+                  value={loanEditPhone}
+                  onChange={(e) => setLoanEditPhone(e.target.value)}
+                  type="tel"
+                />
+                {banner && <div className={`banner banner--${banner.type}`}>{banner.message}</div>}
+                <div className="confirm-actions">
+                  <button className="pill-btn" onClick={() => setLoanEditing(false)}>
+                    Cancel
+                  </button>
+                  <button className="primary" onClick={() => saveLoanCustomerEdit(shownLoanCustomer)}>
+                    Save
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <p className="loan-name" style={{ marginBottom: 4 }}>
+                  {shownLoanCustomer.name}{' '}
+                  {shownLoanCustomer.archived && <span className="status-chip void">{tr(language, 'archived')}</span>}
+                </p>
+                <p className="order-meta">{shownLoanCustomer.phone}</p>
+                {shownLoanCustomer.mergedInto && (
+                  <p className="order-meta">
+                    {tr(language, 'mergedInto')}:{' '}
+                    {loanCustomers.find((c) => c.id === shownLoanCustomer.mergedInto)?.name ?? shownLoanCustomer.mergedInto}
+                  </p>
+                )}
+              </>
+            )}
+            <div className="loan-summary">
+              <div>
+                <span className="order-meta">{tr(language, 'loanAmount')}</span>
+                <strong>{formatPrice(viewLoanSummary.loaned)}</strong>
+              </div>
+              <div>
+                <span className="order-meta">{tr(language, 'repaid')}</span>
+                <strong>{formatPrice(viewLoanSummary.repaid)}</strong>
+              </div>
+              {viewLoanSummary.writtenOff > 0 && (
+                <div>
+                  <span className="order-meta">{tr(language, 'writtenOff')}</span>
+                  <strong>{formatPrice(viewLoanSummary.writtenOff)}</strong>
+                </div>
+              )}
+              <div>
+                <span className="order-meta">{tr(language, 'outstanding')}</span>
+                <strong>{formatPrice(viewLoanSummary.outstanding)}</strong>
+              </div>
+            </div>
+            <div className="loan-list" style={{ marginTop: 10 }}>
+              {viewLoanSummary.allocations.length === 0 && <div className="empty light">{tr(language, 'noLoansYet')}</div>}
+              {viewLoanSummary.allocations.map(({ entry: l, paid, outstanding }) => (
+                <div key={l.id} className="loan-row">
+                  <div>
+                    <p className="loan-order">Order {l.orderId}</p>
+                    <p className="order-meta">
+                      {tr(language, 'servedBy')} {l.servedBy} &middot; {formatDateTime(l.date)}
+                    </p>
+                    {paid > 0 && (
+                      <p className="order-meta">
+                        {outstanding === 0
+                          ? tr(language, 'settled')
+                          : `${tr(language, 'repaid')} ${formatPrice(paid)} · ${formatPrice(outstanding)} ${tr(language, 'left')}`}
+                      </p>
+                    )}
+                  </div>
+                  <span className={`loan-amount ${outstanding === 0 ? 'loan-amount--settled' : ''}`}>
+                    {formatPrice(l.amount)}
+                  </span>
+                </div>
+              ))}
+            </div>
+            {Object.keys(shownLoanCustomer.repayments ?? {}).length > 0 && (
+              <div className="loan-list" style={{ marginTop: 10 }}>
+                <span className="order-meta">
+                  <strong>{tr(language, 'repayments')}</strong>
+                </span>
+                {Object.values(shownLoanCustomer.repayments ?? {})
+                  .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+                  .map((r) => (
+                    <div key={r.id} className="loan-row">
+                      <div>
+                        <p className="loan-order">
+                          {PAYMENT_METHOD_LABEL[r.method] ?? r.method}
+                          {r.note ? ` · ${r.note}` : ''}
+                        </p>
+                        <p className="order-meta">
+                          {r.receivedBy} &middot; {formatDateTime(r.date)}
+                        </p>
+                      </div>
+                      <span className="loan-amount">{formatPrice(r.amount)}</span>
+                    </div>
+                  ))}
+              </div>
+            )}
+            {Object.keys(shownLoanCustomer.writeOffs ?? {}).length > 0 && (
+              <div className="loan-list" style={{ marginTop: 10 }}>
+                <span className="order-meta">
+                  <strong>{tr(language, 'writeOffs')}</strong>
+                </span>
+                {Object.values(shownLoanCustomer.writeOffs ?? {})
+                  .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+                  .map((w) => (
+                    <div key={w.id} className="loan-row">
+                      <div>
+                        <p className="loan-order">
+                          {tr(language, w.kind === 'settlement' ? 'settlementDiscount' : 'writtenOff')} &middot; {w.reason}
+                        </p>
+                        <p className="order-meta">
+                          {w.approvedBy} &middot; {formatDateTime(w.date)}
+                        </p>
+                      </div>
+                      <span className="loan-amount loan-amount--writeoff">{formatPrice(w.amount)}</span>
+                    </div>
+                  ))}
+              </div>
+            )}
+            <div className="payment-form">
+              <span className="order-meta">
+                <strong>{tr(language, 'statement')}</strong>
+              </span>
+              <div className="date-filters">
+                <input type="date" value={statementFrom} onChange={(e) => setStatementFrom(e.target.value)} />
+                <input type="date" value={statementTo} onChange={(e) => setStatementTo(e.target.value)} />
+              </div>
+              <div className="chip-row">
+                <button className="chip" onClick={() => printStatement(shownLoanCustomer)}>
+                  {tr(language, 'print')}
+                </button>
+                <button className="chip" onClick={() => exportStatementCSV(shownLoanCustomer)}>
+                  CSV
+                </button>
+                <button className="chip" onClick={() => exportStatementPDF(shownLoanCustomer)}>
+                  PDF
+                </button>
+              </div>
             </div>
+            {isAdmin && (
+              <div className="payment-form">
+                <span className="order-meta">
+                  <strong>{tr(language, 'creditControl')}</strong>
+                </span>
+                <div className="toolbar toolbar--inline">
+                  {(['creditLimit', 'maxDays'] as const).map((field) => (
+                    <label key={field} className="field">
+                      <span>{tr(language, field)}</span>
+                      <input
+                        key={`${field}-${shownLoanCustomer[field] ?? 0}`}
+                        className="field-input"
+                        type="number"
+                        min="0"
+                        step={field === 'maxDays' ? 1 : 0.01}
+                        placeholder={tr(language, 'noLimit')}
+                        defaultValue={shownLoanCustomer[field] || ''}
+                        onBlur={(e) => saveCreditSetting(shownLoanCustomer, field, e.target.value)}
+                      />
+                    </label>
+                  ))}
+                </div>
+                <label className="field">
+                  <span>{tr(language, 'reminderLanguage')}</span>
+                  <select
+                    className="field-input"
+                    value={shownLoanCustomer.language ?? 'so'}
+                    onChange={(e) => updateCreditSettings(shownLoanCustomer, { language: e.target.value })}
+                  >
+                    <option value="so">Soomaali</option>
+                    <option value="en">English</option>
+                  </select>
+                </label>
+                {shownLoanCustomer.lastReminderAt && (
+                  <p className="order-meta">
+                    {tr(language, 'lastReminder')}: {formatDateTime(shownLoanCustomer.lastReminderAt)}
+                  </p>
+                )}
+                <label className="setting-row">
+                  <span>{tr(language, 'blockOverLimit')}</span>
+                  <input
+                    type="checkbox"
+                    checked={!!shownLoanCustomer.blockOverLimit}
+                    onChange={(e) => updateCreditSettings(shownLoanCustomer, { blockOverLimit: e.target.checked })}
+                  />
+                </label>
+              </div>
+            )}
+            {isAdmin && !shownLoanCustomer.mergedInto && (
+              <div className="payment-form">
+                <span className="order-meta">
+                  <strong>{tr(language, 'manageCustomer')}</strong>
+                </span>
+                <div className="chip-row">
+                  <button className="chip" onClick={() => startLoanCustomerEdit(shownLoanCustomer)}>
+                    {tr(language, 'edit')}
+                  </button>
+                  <button
+                    className="chip"
+                    disabled={!shownLoanCustomer.archived && viewLoanSummary.outstanding > 0}
+                    onClick={() => setLoanCustomerArchived(shownLoanCustomer, !shownLoanCustomer.archived)}
+                  >
+                    {tr(language, shownLoanCustomer.archived ? 'restore' : 'archive')}
+                  </button>
+                </div>
+                <div className="toolbar toolbar--inline">
+                  <select
+                    className="field-input"
+                    value={mergeLoanTargetId}
+                    onChange={(e) => setMergeLoanTargetId(e.target.value)}
+                  >
+                    <option value="">{tr(language, 'mergeCustomerInto')}</option>
+                    {activeLoanCustomers
+                      .filter((c) => c.id !== shownLoanCustomer.id)
+                      .map((c) => (
+                        <option key={c.id} value={c.id}>
+                          {c.name} ({c.phone})
+                        </option>
+                      ))}
+                  </select>
+                  <button
+                    className="pill-btn"
+                    disabled={!mergeLoanTargetId}
+                    onClick={() => mergeLoanCustomer(shownLoanCustomer)}
+                  >
+                    {tr(language, 'merge')}
+                  </button>
+                </div>
+                <p className="order-meta">{tr(language, 'mergeHint')}</p>
+              </div>
+            )}
+            {viewLoanSummary.outstanding > 0 && currentUser.role !== 'kitchen' && (
+              <div className="payment-form">
+                <span className="order-meta">
+                  <strong>{tr(language, 'recordRepayment')}</strong>
+                </span>
+                <div className="toolbar toolbar--inline">
+                  <input
+                    className="field-input"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder={formatPrice(viewLoanSummary.outstanding)}
+                    value={repayAmount}
+                    onChange={(e) => setRepayAmount(e.target.value)}
+                  />
+                  <select
+                    className="field-input"
+                    value={repayMethod}
+                    onChange={(e) => setRepayMethod(e.target.value as PaymentMethod)}
+                  >
+                    {(Object.keys(PAYMENT_METHOD_LABEL) as PaymentMethod[]).map((method) => (
+                      <option key={method} value={method}>
+                        {PAYMENT_METHOD_LABEL[method]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <input
+                  className="field-input"
+                  placeholder={tr(language, 'noteOptional')}
+                  value={repayNote}
+                  onChange={(e) => setRepayNote(e.target.value)}
+                />
+                {banner && <div className={`banner banner--${banner.type}`}>{banner.message}</div>}
+                <div className="confirm-actions">
+                  <button className="pill-btn" onClick={() => setRepayAmount(viewLoanSummary.outstanding.toFixed(2))}>
+                    {tr(language, 'fullBalance')}
+                  </button>
+                  <button className="primary" onClick={() => recordRepayment(shownLoanCustomer)}>
+                    {tr(language, 'recordRepayment')}
+                  </button>
+                </div>
+              </div>
+            )}
+            {viewLoanSummary.outstanding > 0 && isAdmin && (
+              <div className="payment-form">
+                <div className="chip-row">
+                  {(['writeoff', 'settlement'] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      className={`chip ${writeOffMode === mode ? 'active' : ''}`}
+                      onClick={() => {
+                        setWriteOffMode(mode)
+                        setWriteOffAmount('')
+                      }}
+                    >
+                      {tr(language, mode === 'writeoff' ? 'writeOff' : 'settleForLess')}
+                    </button>
+                  ))}
+                </div>
+                <label className="field">
+                  <span>{tr(language, writeOffMode === 'writeoff' ? 'amountToWriteOff' : 'amountPaid')}</span>
+                  <input
+                    className="field-input"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder={writeOffMode === 'writeoff' ? formatPrice(viewLoanSummary.outstanding) : '0.00'}
+                    value={writeOffAmount}
+                    onChange={(e) => setWriteOffAmount(e.target.value)}
+                  />
+                </label>
+                {writeOffMode === 'settlement' && (
+                  <p className="order-meta">
+                    {tr(language, 'settlementDiscount')}:{' '}
+                    {formatPrice(Math.max(0, viewLoanSummary.outstanding - (Number(writeOffAmount) || 0)))} &middot;{' '}
+                    {PAYMENT_METHOD_LABEL[repayMethod]}
+                  </p>
+                )}
+                <input
+                  className="field-input"
+                  placeholder={tr(language, 'writeOffReason')}
+                  value={writeOffReason}
+                  onChange={(e) => setWriteOffReason(e.target.value)}
+                />
+                <div className="confirm-actions">
+                  <button className="primary" onClick={() => writeOffLoan(shownLoanCustomer)}>
+                    {tr(language, writeOffMode === 'writeoff' ? 'writeOff' : 'settleForLess')}
+                  </button>
+                </div>
+              </div>
+            )}
             <div className="confirm-actions">
-              <button className="pill-btn" onClick={() => setStockModalItem(null)}>
-                Cancel
-              </button>
-              <button
-                className="primary"
-                onClick={() => {
-                  updateItemStock(stockModalItem.id, stockModalValue || '0')
-                  setStockModalItem(null)
-                }}
-              >
-                Save
+              <button className="pill-btn" onClick={() => setViewLoanCustomer(null)}>
+                Close
               </button>
             </div>
           </div>
         </div>
       )}
 
-      {pendingItemDelete && (
+      {editOrder && (
         <div className="modal">
           <div className="modal__content">
             <div className="modal__head">
-              <h3>Confirm delete</h3>
+              <h3>
+                {tr(language, 'editOrder')} {editOrder.id}
+              </h3>
+              <button className="icon-btn" onClick={() => setEditOrder(null)} aria-label="Close">
+                ✕
+              </button>
             </div>
-            <p className="order-meta">
-              Are you sure you want to delete <strong>{pendingItemDelete.name}</strong>?
-            </p>
+            <div className="modal__items">
+              {editLines.map((line, idx) => {
+                const extras = modifierLabel(line)
+                return (
+                  <div key={line.key ?? `new-${idx}`} className="item-row">
+                    <div>
+                      <p className="item-name">{lineName(line, itemsById)}</p>
+                      <p className="item-meta">
+                        {formatPrice(lineUnitPrice(line))}
+                        {extras && <span> · {extras}</span>}
+                      </p>
+                    </div>
+                    <div className="qty-changer">
+                      <button className="qty-btn" onClick={() => changeEditQty(idx, line.qty - 1)} disabled={line.qty === 0}>
+                        −
+                      </button>
+                      <span className="qty">{line.qty}</span>
+                      <button className="qty-btn plus" onClick={() => changeEditQty(idx, line.qty + 1)}>
+                        +
+                      </button>
+                    </div>
+                  </div>
+                )
+              })}
+              <div className="toolbar toolbar--inline">
+                <select className="field-input" value={editAddItemId} onChange={(e) => setEditAddItemId(e.target.value)}>
+                  <option value="">{tr(language, 'addToOrder')}</option>
+                  {items
+                    .filter((item) => !(item.modifierGroups ?? []).some((g) => g.required))
+                    .map((item) => (
+                      <option key={item.id} value={item.id}>
+                        {item.name} ({formatPrice(item.price)})
+                      </option>
+                    ))}
+                </select>
+                <button className="pill-btn" onClick={addEditLine} disabled={!editAddItemId}>
+                  +
+                </button>
+              </div>
+            </div>
+            <div className="modal__total">
+              <span>{tr(language, 'total')}:</span>
+              <strong>{formatPrice(orderBreakdown({ ...editOrder, items: editLines }, itemsById).total)}</strong>
+            </div>
+            {banner && <div className={`banner banner--${banner.type}`}>{banner.message}</div>}
             <div className="confirm-actions">
-              <button className="pill-btn" onClick={() => setPendingItemDelete(null)}>
-                Cancel
+              <button className="pill-btn" onClick={() => setEditOrder(null)}>
+                {tr(language, 'cancel')}
               </button>
-              <button
-                className="pill-btn danger"
-                onClick={() => {
-                  deleteItem(pendingItemDelete.id)
-                  setPendingItemDelete(null)
-                }}
-              >
-                Delete
+              <button className="primary" onClick={saveOrderEdit}>
+                Save
               </button>
             </div>
           </div>
         </div>
       )}
 
-      {actionWaiter && actionType === 'reset' && (
+      {voidOrder && (
         <div className="modal">
           <div className="modal__content">
             <div className="modal__head">
-              <h3>Reset PIN</h3>
-              <button className="icon-btn" onClick={() => { setActionWaiter(null); setActionType(null) }}>
+              <h3>
+                {tr(language, 'voidOrder')} {voidOrder.id}
+              </h3>
+              <button className="icon-btn" onClick={() => setVoidOrder(null)} aria-label="Close">
                 ✕
               </button>
             </div>
             <p className="order-meta">
-              Reset PIN for <strong>{actionWaiter.name}</strong> to 0000?
+              {formatPrice(orderTotal(voidOrder))} &middot; stock for every line will be returned.
             </p>
+            <label className="field">
+              <span>{tr(language, 'voidReason')}</span>
+              <textarea
+                className="field-input"
+                rows={3}
+                value={voidReason}
+                onChange={(e) => setVoidReason(e.target.value)}
+                placeholder="e.g., entered on the wrong table"
+              />
+            </label>
+            {banner && <div className={`banner banner--${banner.type}`}>{banner.message}</div>}
             <div className="confirm-actions">
-              <button className="pill-btn" onClick={() => { setActionWaiter(null); setActionType(null) }}>
-                Cancel
+              <button className="pill-btn" onClick={() => setVoidOrder(null)}>
+                {tr(language, 'cancel')}
               </button>
-              <button
-                className="pill-btn warn"
-                onClick={() => {
-                  resetWaiterPin(actionWaiter.id)
-                  setActionWaiter(null)
-                  setActionType(null)
-                }}
-              >
-                Reset
+              <button className="pill-btn danger" onClick={confirmVoidOrder} disabled={!voidReason.trim()}>
+                {tr(language, 'voidOrder')}
               </button>
             </div>
           </div>
         </div>
       )}
 
-      {actionWaiter && actionType === 'profile' && (
+      {syncModalOpen && (
         <div className="modal">
           <div className="modal__content">
             <div className="modal__head">
-              <h3>Edit Staff</h3>
-              <button className="icon-btn" onClick={() => { setActionWaiter(null); setActionType(null) }}>
+              <h3>{tr(language, 'pendingSync')}</h3>
+              <button className="icon-btn" onClick={() => setSyncModalOpen(false)} aria-label="Close">
                 ✕
               </button>
             </div>
-            <div className="modal__items">
-              <input
-                className="field-input"
-                placeholder="Name"
-                value={actionName}
-                onChange={(e) => setActionName(e.target.value)}
-              />
-              <input
-                className="field-input"
-                placeholder="Phone"
-                value={actionPhone}
-                onChange={(e) => setActionPhone(e.target.value)}
-              />
-              <label className="field">
-                <span>New PIN (optional)</span>
-                <input
-                  className="field-input"
-                  placeholder="4 digits"
-                  type="password"
-                  inputMode="numeric"
-                  pattern="[0-9]*"
-                  value={actionPin}
-                  onChange={(e) => setActionPin(e.target.value)}
-                />
-              </label>
+            <p className="order-meta">{connected ? tr(language, 'online') : tr(language, 'offline')}</p>
+            {syncQueue.length === 0 && <div className="empty light">{tr(language, 'nothingToSync')}</div>}
+            <div className="loan-list">
+              {syncQueue.map((action) => (
+                <div key={action.id} className={`loan-row ${action.conflict ? 'sync-conflict' : ''}`}>
+                  <div>
+                    <p className="loan-order">{action.label}</p>
+                    <p className="order-meta">
+                      {usersById[action.userId]?.name ?? action.userId} &middot; {formatDateTime(action.createdAt)}
+                    </p>
+                    {action.conflict && <p className="order-meta sync-conflict__reason">{action.conflict}</p>}
+                  </div>
+                  {action.conflict && (
+                    <div className="chip-row">
+                      <button className="chip" disabled={!connected || syncing} onClick={() => retryQueued(action)}>
+                        {tr(language, 'retry')}
+                      </button>
+                      <button className="chip" onClick={() => discardQueued(action)}>
+                        {tr(language, 'discard')}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
             </div>
             <div className="confirm-actions">
-              <button className="pill-btn" onClick={() => { setActionWaiter(null); setActionType(null) }}>
-                Cancel
-              </button>
               <button
                 className="primary"
-                onClick={() => {
-                  updateWaiterProfile(actionWaiter.id, actionName, actionPhone, actionRole, actionPin)
-                  setActionWaiter(null)
-                  setActionType(null)
-                  setActionPin('')
-                }}
+                disabled={!connected || syncing || syncQueue.every((a) => a.conflict)}
+                onClick={replayQueue}
               >
-                Save
+                {syncing ? tr(language, 'syncing') : tr(language, 'syncNow')}
               </button>
-            </div>
-          </div>
-        </div>
-      )}
-
-      {loanCustomerModalOpen && (
-        <div className="modal">
-          <div className="modal__content">
-            <div className="modal__head">
-              <h3>{tr(language, 'addLoanCustomer')}</h3>
-              <button className="icon-btn" onClick={() => setLoanCustomerModalOpen(false)} aria-label="Close">
-                ✕
+              <button className="pill-btn" onClick={() => setSyncModalOpen(false)}>
+                Close
               </button>
             </div>
-            <div className="modal__items">
-              <input
-                className="field-input"
-                placeholder="Customer name"
-                value={newLoanCustomerName}
-                onChange={(e) => setNewLoanCustomerName(e.target.value)}
-              />
-              <input
-                className="field-input"
-                placeholder="Phone"
-                value={newLoanCustomerPhone}
-                onChange={(e) => setNewLoanCustomerPhone(e.target.value)}
-                type="tel"
-              />
-            </div>
-            <button className="primary block" onClick={addLoanCustomer}>
-              {tr(language, 'addLoanCustomer')}
-            </button>
           </div>
         </div>
       )}
 
-      {loanEntryModalOpen && (
+      {tableModalOpen && (
         <div className="modal">
           <div className="modal__content">
             <div className="modal__head">
-              <h3>{tr(language, 'addLoanEntry')}</h3>
-              <button className="icon-btn" onClick={() => setLoanEntryModalOpen(false)} aria-label="Close">
+              <h3>{tr(language, 'addTableTitle')}</h3>
+              <button className="icon-btn" onClick={() => setTableModalOpen(false)} aria-label="Close">
                 ✕
               </button>
             </div>
             <div className="modal__items">
               <label className="field">
-                <span>Customer</span>
-                <select
+                <span>{tr(language, 'table')}</span>
+                <input
                   className="field-input"
-                  value={loanEntryCustomerId}
-                  onChange={(e) => setLoanEntryCustomerId(e.target.value)}
-                >
-                  <option value="">Select customer</option>
-                  {loanCustomers.map((c) => (
-                    <option key={c.id} value={c.id}>
-                      {c.name} ({c.phone})
-                    </option>
-                  ))}
-                </select>
+                  placeholder="e.g., 12"
+                  type="number"
+                  min="1"
+                  value={newTableNumber}
+                  onChange={(e) => setNewTableNumber(e.target.value)}
+                />
               </label>
               <label className="field">
-                <span>Loan order</span>
-                <select
+                <span>{tr(language, 'area')}</span>
+                <input
                   className="field-input"
-                  value={loanEntryOrderId}
-                  onChange={(e) => setLoanEntryOrderId(e.target.value)}
-                >
-                  <option value="">Select order</option>
-                  {loanOrders.map((o, idx) => (
-                    <option key={o.dbId ?? `${o.id}-${idx}`} value={o.dbId ?? o.id}>
-                      {o.id} - {orderTitle(o)} ({formatPrice(orderTotal(o))})
-                    </option>
-                  ))}
-                </select>
+                  placeholder="Hall, Terrace, VIP..."
+                  value={newTableArea}
+                  onChange={(e) => setNewTableArea(e.target.value)}
+                />
+              </label>
+              <label className="field">
+                <span>{tr(language, 'seats')}</span>
+                <input
+                  className="field-input"
+                  type="number"
+                  min="1"
+                  value={newTableSeats}
+                  onChange={(e) => setNewTableSeats(e.target.value)}
+                />
               </label>
             </div>
-            <button className="primary block" onClick={addLoanEntry}>
-              {tr(language, 'addLoanEntry')}
+            <button className="primary block" onClick={addTable}>
+              {tr(language, 'addTable')}
             </button>
           </div>
         </div>
       )}
 
-      {loanStatusModalOpen && (
-        <div className="modal">
-          <div className="modal__content">
-            <div className="modal__head">
-              <h3>Select loan customer</h3>
-              <button className="icon-btn" onClick={() => setLoanStatusModalOpen(false)} aria-label="Close">
-                ✕
-              </button>
-            </div>
-            <input
-              className="search"
-              placeholder={tr(language, 'searchLoanCustomers')}
-              value={loanStatusSearch}
-              onChange={(e) => setLoanStatusSearch(e.target.value)}
-            />
-            <div className="loan-list" style={{ maxHeight: 280, overflowY: 'auto', marginTop: 10 }}>
-              {loanCustomersModalFiltered.length === 0 && <div className="empty light">No customers found.</div>}
-              {loanCustomersModalFiltered.map((c) => {
-                const total = Object.values(c.loans ?? {}).reduce((s, l) => s + l.amount, 0)
-                return (
-                  <label key={c.id} className="loan-row" style={{ cursor: 'pointer' }}>
-                    <div>
-                      <p className="loan-order" style={{ marginBottom: 2 }}>{c.name}</p>
-                      <p className="order-meta">{c.phone}</p>
-                    </div>
-                    <div style={{ display: 'flex', alignItems: 'center', gap: 10 }}>
-                      <span className="loan-amount">{formatPrice(total)}</span>
-                      <input
-                        type="radio"
-                        name="loan-customer"
-                        checked={loanStatusCustomerId === c.id}
-                        onChange={() => setLoanStatusCustomerId(c.id)}
-                      />
-                    </div>
-                  </label>
-                )
-              })}
-            </div>
-            <div className="confirm-actions">
-              <button className="pill-btn" onClick={() => setLoanStatusModalOpen(false)}>
-                Cancel
-              </button>
-              <button className="primary" onClick={confirmLoanStatus}>
-                Confirm
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
-
-      {viewLoanCustomer && (
-        <div className="modal" onClick={() => setViewLoanCustomer(null)}>
+      {viewTable && (
+        <div className="modal" onClick={() => setViewTable(null)}>
           <div className="modal__content" onClick={(e) => e.stopPropagation()}>
             <div className="modal__head">
-              <h3>Loan details</h3>
-              <button className="icon-btn" onClick={() => setViewLoanCustomer(null)} aria-label="Close">
+              <h3>
+                {tr(language, 'table')} {viewTable.number}
+              </h3>
+              <button className="icon-btn" onClick={() => setViewTable(null)} aria-label="Close">
                 ✕
               </button>
             </div>
-            <p className="loan-name" style={{ marginBottom: 4 }}>{viewLoanCustomer.name}</p>
-            <p className="order-meta">{viewLoanCustomer.phone}</p>
-            <div className="loan-totals" style={{ alignItems: 'flex-start', marginTop: 8 }}>
-              <span className="loan-chip">
-                <span className="dot" /> {Object.keys(viewLoanCustomer.loans ?? {}).length} {tr(language, 'loan')}
-                {Object.keys(viewLoanCustomer.loans ?? {}).length === 1 ? '' : 's'}
-              </span>
-              <strong>
-                {formatPrice(
-                  Object.values(viewLoanCustomer.loans ?? {}).reduce((s, l) => s + l.amount, 0)
-                )}
-              </strong>
+            <p className="order-meta">
+              {viewTable.area} &middot; {viewTable.seats} {tr(language, 'seats').toLowerCase()}
+            </p>
+            <div className="chip-row">
+              {(['free', 'occupied', 'needs-bill'] as const).map((status) => (
+                <button
+                  key={status}
+                  className={`chip ${(tablesById[viewTable.id]?.status ?? viewTable.status) === status ? 'active' : ''}`}
+                  onClick={() => updateTableStatus(viewTable, status)}
+                >
+                  {TABLE_STATUS_LABEL[status]}
+                </button>
+              ))}
             </div>
-            <div className="loan-list" style={{ marginTop: 10 }}>
-              {Object.keys(viewLoanCustomer.loans ?? {}).length === 0 && (
-                <div className="empty light">{tr(language, 'noLoansYet')}</div>
+            <p className="order-meta">
+              <strong>{tr(language, 'openOrders')}</strong>
+            </p>
+            <div className="loan-list">
+              {(openOrdersByTable[viewTable.id] ?? []).length === 0 && (
+                <div className="empty light">{tr(language, 'noOrders')}</div>
               )}
-              {Object.values(viewLoanCustomer.loans ?? {}).map((l) => (
-                <div key={l.id} className="loan-row">
+              {(openOrdersByTable[viewTable.id] ?? []).map((o) => (
+                <div
+                  key={o.dbId ?? o.id}
+                  className="loan-row"
+                  role="button"
+                  onClick={() => {
+                    setViewTable(null)
+                    setViewOrder(o)
+                  }}
+                >
                   <div>
-                    <p className="loan-order">Order {l.orderId}</p>
+                    <p className="loan-order">{orderTitle(o)}</p>
                     <p className="order-meta">
-                      {tr(language, 'servedBy')} {l.servedBy} &middot; {formatDateTime(l.date)}
+                      {tr(language, 'servedBy')} {usersById[o.waiterId]?.name ?? o.waiterId} &middot; {formatDateTime(o.time)}
                     </p>
                   </div>
-                  <span className="loan-amount">{formatPrice(l.amount)}</span>
+                  <span className="loan-amount">{formatPrice(orderTotal(o))}</span>
                 </div>
               ))}
             </div>
+            {(openOrdersByTable[viewTable.id] ?? []).length > 0 && (
+              <div className="toolbar toolbar--inline" style={{ marginTop: 12 }}>
+                <label className="field" style={{ flex: 1 }}>
+                  <span>{tr(language, 'mergeInto')}</span>
+                  <select className="field-input" value={mergeTargetId} onChange={(e) => setMergeTargetId(e.target.value)}>
+                    <option value="">{tr(language, 'table')}</option>
+                    {tables
+                      .filter((t) => t.id !== viewTable.id)
+                      .map((t) => (
+                        <option key={t.id} value={t.id}>
+                          T{t.number} ({t.area})
+                        </option>
+                      ))}
+                  </select>
+                </label>
+                <button className="pill-btn" onClick={() => mergeTables(viewTable, mergeTargetId)}>
+                  {tr(language, 'mergeInto')}
+                </button>
+              </div>
+            )}
             <div className="confirm-actions">
-              <button className="pill-btn" onClick={() => setViewLoanCustomer(null)}>
+              <button className="pill-btn" onClick={() => setViewTable(null)}>
                 Close
               </button>
             </div>
@@ -0,0 +1,27 @@
+// Menu item photos live in Firebase Storage under items/<itemId>/; the item record keeps the
+// download URL for display and the object path so a replaced or removed photo can be deleted.
+import { deleteObject, getDownloadURL, getStorage, ref, uploadBytes } from 'firebase/storage'
+import { app } from './firebase'
+
+type ItemImage = { url: string; path: string }
+
+const MAX_IMAGE_BYTES = 2 * 1024 * 1024
+
+const storage = getStorage(app)
+
+const uploadItemImage = (itemId: string, file: File): Promise<ItemImage> => {
+  if (!file.type.startsWith('image/')) return Promise.reject(new Error('Choose an image file.'))
+  if (file.size > MAX_IMAGE_BYTES) return Promise.reject(new Error('Images must be 2 MB or smaller.'))
+  const path = `items/${itemId}/${Date.now()}-${file.name.replace(/[^\w.-]/g, '_')}`
+  const target = ref(storage, path)
+  return uploadBytes(target, file, { contentType: file.type })
+    .then(() => getDownloadURL(target))
+    .then((url) => ({ url, path }))
+}
+
+// A photo that is already gone is not an error worth showing.
+const deleteItemImage = (path?: string) =>
+  path ? deleteObject(ref(storage, path)).catch(() => undefined) : Promise.resolve(undefined)
+
+export { deleteItemImage, uploadItemImage }
+export type { ItemImage }
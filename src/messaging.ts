@@ -0,0 +1,49 @@
+// Outbound SMS/WhatsApp. Real gateways plug in as another MessageProvider; the app only sees this interface.
+
+type MessageChannel = 'sms' | 'whatsapp'
+
+type OutgoingMessage = {
+  to: string
+  body: string
+  channel: MessageChannel
+}
+
+type SendResult = { ok: true; providerRef?: string } | { ok: false; error: string }
+
+type MessageProvider = {
+  id: string
+  label: string
+  send: (message: OutgoingMessage) => Promise<SendResult>
+}
+
+// Keeps messages in memory and rejects numbers that cannot be Somali mobiles, so both paths can be exercised.
+const createFakeProvider = (): MessageProvider & { sent: OutgoingMessage[] } => {
+  const sent: OutgoingMessage[] = []
+  return {
+    id: 'fake',
+    label: 'Local test (no messages leave the device)',
+    sent,
+    send: (message) => {
+      const digits = message.to.replace(/\D/g, '')
+      if (digits.length < 7) return Promise.resolve({ ok: false, error: `Invalid phone number "${message.to}"` })
+      sent.push(message)
+      return Promise.resolve({ ok: true, providerRef: `fake-${sent.length}` })
+    },
+  }
+}
+
+const MESSAGE_PROVIDERS: Record<string, MessageProvider> = {
+  fake: createFakeProvider(),
+}
+
+const DEFAULT_REMINDER_TEMPLATES = {
+  en: 'Hello {name}, this is {restaurant}. Your balance of {amount} has been outstanding for {days} days. Please settle it at your earliest convenience. Thank you.',
+  so: 'Salaan {name}, waa {restaurant}. Deyntaada oo ah {amount} waxay taagan tahay {days} maalmood. Fadlan iska bixi markaad awoodo. Mahadsanid.',
+}
+
+// Replaces {placeholders}; unknown ones are left as written so a typo is visible in the outbox.
+const renderTemplate = (template: string, values: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match)
+
+export { MESSAGE_PROVIDERS, DEFAULT_REMINDER_TEMPLATES, createFakeProvider, renderTemplate }
+export type { MessageChannel, MessageProvider, OutgoingMessage, SendResult }
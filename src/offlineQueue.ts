@@ -0,0 +1,51 @@
+// Actions captured while the database is unreachable. Firebase only buffers writes in memory,
+// so anything a waiter enters offline is lost on reload unless it is kept here until replayed.
+
+type Queued = { id: string; createdAt: string }
+
+const DB_NAME = 'rms-offline'
+const STORE = 'actions'
+
+let openPromise: Promise<IDBDatabase> | null = null
+
+const openQueue = () => {
+  if (!openPromise) {
+    openPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1)
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE, { keyPath: 'id' })
+      }
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => {
+        openPromise = null
+        reject(req.error)
+      }
+    })
+  }
+  return openPromise
+}
+
+const run = <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) =>
+  openQueue().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(STORE, mode)
+        const req = fn(tx.objectStore(STORE))
+        tx.oncomplete = () => resolve(req.result)
+        tx.onerror = () => reject(tx.error)
+        tx.onabort = () => reject(tx.error)
+      })
+  )
+
+// Oldest first, which is also the order actions are replayed in.
+const listQueued = <T extends Queued>() =>
+  run<T[]>('readonly', (store) => store.getAll()).then((list) =>
+    [...list].sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.id.localeCompare(b.id))
+  )
+
+const putQueued = <T extends Queued>(action: T) => run('readwrite', (store) => store.put(action)).then(() => undefined)
+
+const removeQueued = (id: string) => run('readwrite', (store) => store.delete(id)).then(() => undefined)
+
+export { listQueued, putQueued, removeQueued }
+export type { Queued }
@@ -0,0 +1,79 @@
+// Text-only PDF writer: A4 pages in Courier, enough for statements without pulling in a PDF library.
+
+type PdfLine = { text: string; bold?: boolean }
+
+const PAGE_WIDTH = 595
+const PAGE_HEIGHT = 842
+const MARGIN = 40
+const FONT_SIZE = 9
+const LEADING = 12
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - MARGIN * 2) / LEADING)
+
+// WinAnsi is Latin-1 plus typographic marks in 0x80-0x9f; these are the ones statements and receipts use.
+const WIN_ANSI_EXTRA: Record<string, number> = {
+  '€': 0x80,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+}
+
+// Non-ASCII goes out as octal escapes so the file stays ASCII; what the fonts can't draw prints as '?'.
+// The document title is PDFDocEncoding, which only agrees with WinAnsi on Latin-1, so it skips the extras.
+const escapePdf = (text: string, extra = WIN_ANSI_EXTRA) =>
+  text.replace(/([\\()])/g, '\\$1').replace(/[^\x20-\x7e]/g, (ch) => {
+    const code = ch.charCodeAt(0)
+    const byte = code >= 0xa0 && code <= 0xff ? code : extra[ch]
+    return byte ? `\\${byte.toString(8)}` : '?'
+  })
+
+const pageStream = (lines: PdfLine[]) => {
+  const body = lines
+    .map((line) => `/${line.bold ? 'F2' : 'F1'} ${FONT_SIZE} Tf (${escapePdf(line.text)}) Tj T*`)
+    .join('\n')
+  return `BT\n${LEADING} TL\n${MARGIN} ${PAGE_HEIGHT - MARGIN - FONT_SIZE} Td\n${body}\nET`
+}
+
+const textPdf = (lines: PdfLine[], title: string) => {
+  const pages: PdfLine[][] = []
+  for (let i = 0; i < lines.length; i += LINES_PER_PAGE) pages.push(lines.slice(i, i + LINES_PER_PAGE))
+  if (pages.length === 0) pages.push([])
+
+  // Fixed objects first (catalog, page tree, fonts, info), then a page and its content stream per page.
+  const pageIds = pages.map((_, idx) => 6 + idx * 2)
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Courier-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title (${escapePdf(title, {})}) /Producer (RestoDash) >>`,
+  ]
+  pages.forEach((page, idx) => {
+    const stream = pageStream(page)
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[idx] + 1} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    )
+  })
+
+  // Every character is ASCII after escaping, so string offsets are byte offsets.
+  let pdf = '%PDF-1.4\n'
+  const offsets = objects.map((obj, idx) => {
+    const offset = pdf.length
+    pdf += `${idx + 1} 0 obj\n${obj}\nendobj\n`
+    return offset
+  })
+  const xref = pdf.length
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF`
+  return new Blob([pdf], { type: 'application/pdf' })
+}
+
+export { textPdf }
+export type { PdfLine }
@@ -0,0 +1,220 @@
+import QRCode from 'qrcode'
+
+type PaperWidth = 58 | 80
+
+type ReceiptLine = {
+  name: string
+  qty: number
+  unitPrice: number
+  total: number
+  extras?: string
+}
+
+type ReceiptData = {
+  shopName: string
+  shopAddress?: string
+  shopPhone?: string
+  footer?: string
+  orderId: string
+  ticket?: number
+  time: string
+  waiter: string
+  table?: string
+  lines: ReceiptLine[]
+  totals: { label: string; amount: number; strong?: boolean }[]
+  status: string
+  paid: number
+  balance: number
+  collector?: string
+  qrText: string
+}
+
+// Characters per line in the printer's default font.
+const COLUMNS: Record<PaperWidth, number> = { 58: 32, 80: 48 }
+
+const money = (value: number) => `$${value.toFixed(2)}`
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const padRow = (left: string, right: string, cols: number) => {
+  const room = cols - right.length - 1
+  const head = left.length > room ? left.slice(0, Math.max(0, room)) : left
+  return `${head}${' '.repeat(Math.max(1, cols - head.length - right.length))}${right}`
+}
+
+const center = (text: string, cols: number) => {
+  const cut = text.slice(0, cols)
+  return `${' '.repeat(Math.floor((cols - cut.length) / 2))}${cut}`
+}
+
+const wrap = (text: string, cols: number) => {
+  const out: string[] = []
+  let line = ''
+  text.split(/\s+/).filter(Boolean).forEach((word) => {
+    if (line && line.length + word.length + 1 > cols) {
+      out.push(line)
+      line = ''
+    }
+    line = line ? `${line} ${word}` : word.slice(0, cols)
+  })
+  if (line) out.push(line)
+  return out
+}
+
+type TextRow = { text: string; bold?: boolean; big?: boolean; center?: boolean }
+
+const receiptRows = (data: ReceiptData, cols: number): TextRow[] => {
+  const rule = { text: '-'.repeat(cols) }
+  const rows: TextRow[] = [
+    { text: data.shopName, bold: true, big: true, center: true },
+    ...[data.shopAddress, data.shopPhone].filter(Boolean).map((text) => ({ text: text as string, center: true })),
+    rule,
+    { text: padRow(data.ticket ? `Ticket #${data.ticket}` : 'Order', data.orderId, cols), bold: true },
+    { text: padRow('Date', data.time, cols) },
+    { text: padRow('Waiter', data.waiter, cols) },
+  ]
+  if (data.table) rows.push({ text: padRow('Table', data.table, cols) })
+  rows.push(rule)
+  data.lines.forEach((line) => {
+    rows.push({ text: padRow(`${line.qty} x ${line.name}`, money(line.total), cols) })
+    if (line.qty > 1) rows.push({ text: `   @ ${money(line.unitPrice)}` })
+    if (line.extras) wrap(line.extras, cols - 3).forEach((text) => rows.push({ text: `   ${text}` }))
+  })
+  rows.push(rule)
+  data.totals.forEach((t) => rows.push({ text: padRow(t.label, money(t.amount), cols), bold: t.strong }))
+  rows.push({ text: padRow('Paid', money(data.paid), cols) })
+  if (data.balance > 0) rows.push({ text: padRow('Balance', money(data.balance), cols), bold: true })
+  rows.push({ text: padRow('Status', data.status.toUpperCase(), cols) })
+  if (data.collector) rows.push({ text: padRow('Collected by', data.collector, cols) })
+  return rows
+}
+
+// Plain text version, used for sharing and as the body of the ESC/POS output.
+const receiptText = (data: ReceiptData, width: PaperWidth = 58) => {
+  const cols = COLUMNS[width]
+  const rows = receiptRows(data, cols).map((row) => (row.center ? center(row.text, cols) : row.text))
+  if (data.footer) rows.push('', ...wrap(data.footer, cols).map((text) => center(text, cols)))
+  return rows.join('\n')
+}
+
+const receiptHtml = async (data: ReceiptData, width: PaperWidth = 80) => {
+  const qr = await QRCode.toDataURL(data.qrText, { margin: 1, width: width === 58 ? 120 : 160 })
+  const lines = data.lines
+    .map(
+      (line) => `
+        <tr><td>${line.qty} × ${escapeHtml(line.name)}${
+          line.extras ? `<div class="extras">${escapeHtml(line.extras)}</div>` : ''
+        }</td><td class="amt">${money(line.total)}</td></tr>`
+    )
+    .join('')
+  const totals = data.totals
+    .map(
+      (t) =>
+        `<tr class="${t.strong ? 'strong' : ''}"><td>${escapeHtml(t.label)}</td><td class="amt">${money(t.amount)}</td></tr>`
+    )
+    .join('')
+  const meta = [
+    [data.ticket ? `Ticket #${data.ticket}` : 'Order', data.orderId],
+    ['Date', data.time],
+    ['Waiter', data.waiter],
+    ...(data.table ? [['Table', data.table]] : []),
+  ]
+    .map(([k, v]) => `<tr><td>${escapeHtml(k)}</td><td class="amt">${escapeHtml(v)}</td></tr>`)
+    .join('')
+  return `
+    <html>
+    <head>
+      <title>${escapeHtml(data.orderId)}</title>
+      <style>
+        @page { size: ${width}mm auto; margin: 0; }
+        body { width: ${width - 6}mm; margin: 0 auto; padding: 3mm 0; font: ${width === 58 ? 11 : 12}px monospace; color: #000; }
+        h2, p { margin: 0; text-align: center; }
+        h2 { font-size: 1.4em; }
+        table { width: 100%; border-collapse: collapse; margin: 2mm 0; border-top: 1px dashed #000; }
+        td { padding: 1px 0; vertical-align: top; }
+        .amt { text-align: right; white-space: nowrap; }
+        .extras { font-size: 0.85em; padding-left: 2ch; }
+        .strong td { font-weight: bold; font-size: 1.1em; }
+        .qr { display: block; margin: 2mm auto; }
+      </style>
+    </head>
+    <body>
+      <h2>${escapeHtml(data.shopName)}</h2>
+      ${[data.shopAddress, data.shopPhone].filter(Boolean).map((t) => `<p>${escapeHtml(t as string)}</p>`).join('')}
+      <table>${meta}</table>
+      <table>${lines}</table>
+      <table>
+        ${totals}
+        <tr><td>Paid</td><td class="amt">${money(data.paid)}</td></tr>
+        ${data.balance > 0 ? `<tr class="strong"><td>Balance</td><td class="amt">${money(data.balance)}</td></tr>` : ''}
+        <tr><td>Status</td><td class="amt">${escapeHtml(data.status.toUpperCase())}</td></tr>
+        ${data.collector ? `<tr><td>Collected by</td><td class="amt">${escapeHtml(data.collector)}</td></tr>` : ''}
+      </table>
+      <img class="qr" src="${qr}" alt="${escapeHtml(data.qrText)}" />
+      ${data.footer ? `<p>${escapeHtml(data.footer)}</p>` : ''}
+    </body>
+    </html>
+  `
+}
+
+const ESC = 0x1b
+const GS = 0x1d
+
+// Thermal printers only speak their code page, so anything outside ASCII is printed as '?'.
+const ascii = (text: string) => Array.from(text, (ch) => (ch.charCodeAt(0) < 128 ? ch.charCodeAt(0) : 0x3f))
+
+// Native QR commands (GS ( k): the printer draws the code itself, so no raster image is needed.
+const escPosQr = (text: string, size: number) => {
+  const data = ascii(text)
+  const len = data.length + 3
+  return [
+    GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, size,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31,
+    GS, 0x28, 0x6b, len & 0xff, len >> 8, 0x31, 0x50, 0x30, ...data,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30,
+  ]
+}
+
+const receiptEscPos = (data: ReceiptData, width: PaperWidth = 58) => {
+  const cols = COLUMNS[width]
+  const bytes: number[] = [ESC, 0x40]
+  receiptRows(data, cols).forEach((row) => {
+    bytes.push(ESC, 0x61, row.center ? 1 : 0, ESC, 0x45, row.bold ? 1 : 0, GS, 0x21, row.big ? 0x11 : 0x00)
+    bytes.push(...ascii(row.big ? row.text.slice(0, cols / 2) : row.text), 0x0a)
+  })
+  bytes.push(ESC, 0x45, 0, GS, 0x21, 0, ESC, 0x61, 1, 0x0a)
+  bytes.push(...escPosQr(data.qrText, width === 58 ? 5 : 6), 0x0a)
+  if (data.footer) wrap(data.footer, cols).forEach((text) => bytes.push(...ascii(text), 0x0a))
+  // Feed past the tear bar, then partial cut.
+  bytes.push(ESC, 0x64, 4, GS, 0x56, 0x42, 0x00)
+  return new Uint8Array(bytes)
+}
+
+type SerialPortLike = {
+  open: (options: { baudRate: number }) => Promise<void>
+  close: () => Promise<void>
+  writable: WritableStream<Uint8Array> | null
+}
+
+// USB and paired Bluetooth printers both show up as serial ports in Chromium browsers.
+// Resolves false when Web Serial is unavailable so the caller can fall back to a download.
+const sendToSerialPrinter = async (bytes: Uint8Array) => {
+  const serial = (navigator as Navigator & { serial?: { requestPort: () => Promise<SerialPortLike> } }).serial
+  if (!serial) return false
+  const port = await serial.requestPort()
+  await port.open({ baudRate: 9600 })
+  try {
+    const writer = port.writable?.getWriter()
+    if (!writer) throw new Error('Printer is not writable.')
+    await writer.write(bytes)
+    writer.releaseLock()
+  } finally {
+    await port.close()
+  }
+  return true
+}
+
+export { escapeHtml, receiptText, receiptHtml, receiptEscPos, sendToSerialPrinter }
+export type { PaperWidth, ReceiptData, ReceiptLine }